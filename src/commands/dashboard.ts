@@ -0,0 +1,133 @@
+import { Command } from "commander";
+import { join } from "path";
+import { mkdirSync, writeFileSync } from "fs";
+import { withErrorHandling } from "../utils/errors";
+import { parseTransportKind } from "../transport";
+import {
+  fetchAllSpokes,
+  spokeFetchContext,
+  type SpokeEntry,
+} from "../hub/spokes";
+import {
+  buildDashboardModel,
+  loadBranding,
+  loadTemplate,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+} from "../hub/dashboard";
+import { DEFAULT_CONCURRENCY, parseConcurrency } from "../utils/concurrency";
+import {
+  formatJson,
+  success,
+  header,
+  result,
+  progress,
+  clearProgress,
+} from "../utils/output";
+
+const DASHBOARD_FORMATS = ["md", "html", "json"] as const;
+
+type DashboardFormat = (typeof DASHBOARD_FORMATS)[number];
+
+interface DashboardOptions {
+  out: string;
+  templateDir: string;
+  format: string;
+  transport?: string;
+  allowedSigners?: string;
+  concurrency: number;
+  json?: boolean;
+}
+
+function parseFormats(value: string): DashboardFormat[] {
+  const formats = value.split(",").map((f) => f.trim()).filter(Boolean);
+  for (const format of formats) {
+    if (!(DASHBOARD_FORMATS as readonly string[]).includes(format)) {
+      throw new Error(
+        `Invalid format: "${format}". Must be one of: ${DASHBOARD_FORMATS.join(", ")}`
+      );
+    }
+  }
+  return formats as DashboardFormat[];
+}
+
+export function registerDashboardCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  parent
+    .command("dashboard")
+    .description(
+      "Generate STATUS.md, status.html and hub-status.json from pulled spokes"
+    )
+    .option("--out <dir>", "Output directory", ".")
+    .option(
+      "--template-dir <dir>",
+      "Branding dir (dashboard.yaml, STATUS.md.tmpl, status.html.tmpl)",
+      ".hive/dashboard"
+    )
+    .option("--format <list>", "Comma-separated outputs (md, html, json)", "md,html,json")
+    .option("--transport <kind>", "Force spoke transport (github, git, local)")
+    .option(
+      "--allowed-signers <path>",
+      "Path to allowed-signers file for status attestation checks",
+      ".hive/allowed-signers"
+    )
+    .option(
+      "--concurrency <n>",
+      "Spokes fetched in parallel",
+      parseConcurrency,
+      DEFAULT_CONCURRENCY
+    )
+    .action(
+      withErrorHandling(async (opts: DashboardOptions) => {
+        const json = getJsonMode();
+        const cwd = process.cwd();
+        const formats = parseFormats(opts.format);
+        const ctx = spokeFetchContext(
+          cwd,
+          opts.allowedSigners ?? ".hive/allowed-signers",
+          parseTransportKind(opts.transport)
+        );
+
+        if (!json) header("Building hub dashboard...\n");
+
+        const fetched = await fetchAllSpokes(
+          ctx,
+          opts.concurrency,
+          json ? undefined : progress
+        );
+        if (!json) clearProgress();
+        const spokes: SpokeEntry[] = fetched.flatMap((r) =>
+          r.kind === "fetched" ? [r.entry] : []
+        );
+        if (!json) success(`${spokes.length} spoke(s) fetched`);
+
+        const templateDir = join(cwd, opts.templateDir);
+        const model = buildDashboardModel(spokes, loadBranding(templateDir));
+
+        const outDir = join(cwd, opts.out);
+        mkdirSync(outDir, { recursive: true });
+
+        const written: string[] = [];
+        for (const format of formats) {
+          const [file, content] =
+            format === "md"
+              ? ["STATUS.md", renderMarkdown(model, loadTemplate(templateDir, "STATUS.md.tmpl"))]
+              : format === "html"
+                ? ["status.html", renderHtml(model, loadTemplate(templateDir, "status.html.tmpl"))]
+                : ["hub-status.json", `${renderJson(model)}\n`];
+          writeFileSync(join(outDir, file), content, "utf-8");
+          written.push(join(opts.out, file));
+          if (!json) success(`Wrote ${join(opts.out, file)}`);
+        }
+
+        if (json) {
+          console.log(formatJson({ files: written, totals: model.totals }));
+        } else {
+          result(true, `Dashboard generated for ${spokes.length} spoke(s)`);
+        }
+      }, getJsonMode)
+    );
+}
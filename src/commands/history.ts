@@ -0,0 +1,78 @@
+import { Command } from "commander";
+import { join } from "path";
+import { withErrorHandling } from "../utils/errors";
+import { HubCache, historyEvents } from "../hub/cache";
+import { hubPolicy } from "../hub/spokes";
+import { formatJson, header, result, log } from "../utils/output";
+
+interface HistoryOptions {
+  cacheDir?: string;
+  json?: boolean;
+}
+
+export function registerHistoryCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  parent
+    .command("history")
+    .description(
+      "Show phase transitions, test trends and staleness for a spoke from pulled snapshots"
+    )
+    .argument("<project>", "Project directory under the hub's projects/")
+    .option("--cache-dir <dir>", "Where pulled snapshots are stored", ".hive/cache")
+    .action(
+      withErrorHandling(async (project: string, opts: HistoryOptions) => {
+        const json = getJsonMode();
+        const cache = new HubCache(
+          join(process.cwd(), opts.cacheDir ?? ".hive/cache")
+        );
+        const snapshots = cache.history(project);
+
+        if (snapshots.length === 0) {
+          throw new Error(
+            `No history for "${project}". Run 'hive-spoke pull' to record snapshots.`
+          );
+        }
+
+        const events = historyEvents(
+          project,
+          snapshots,
+          new Date(),
+          hubPolicy(process.cwd()).maxStalenessDays
+        );
+
+        if (json) {
+          console.log(
+            formatJson({
+              project,
+              snapshots: snapshots.map((s) => ({
+                firstSeen: s.firstSeen,
+                generatedAt: s.entry.generatedAt,
+                phase: s.entry.phase,
+                tests: s.entry.tests,
+              })),
+              events,
+            })
+          );
+          return;
+        }
+
+        header(`History for ${project}\n`);
+
+        log("  Snapshots:");
+        for (const { entry } of snapshots) {
+          log(
+            `    ${entry.generatedAt} | ${entry.phase} | ${entry.tests.passing}P/${entry.tests.failing}F`
+          );
+        }
+
+        log("\n  Events:");
+        for (const event of events) {
+          log(`    ${event.at} | ${event.change}`);
+        }
+
+        result(true, `${snapshots.length} snapshot(s), ${events.length} event(s)`);
+      }, getJsonMode)
+    );
+}
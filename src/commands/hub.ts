@@ -0,0 +1,168 @@
+import { Command } from "commander";
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { withErrorHandling } from "../utils/errors";
+import { parseTransportKind } from "../transport";
+import { loadYaml } from "../utils/yaml";
+import { getSigningConfig, isGitRepo } from "../utils/git";
+import { checkPolicy } from "../policy";
+import { hubPolicy, type ProjectYaml } from "../hub/spokes";
+import {
+  addAllowedSigner,
+  commitRegistration,
+  fetchRegistration,
+  renderProjectYaml,
+  type RegistrationCommit,
+} from "../hub/register";
+import { formatJson, success, warning, header, result, log } from "../utils/output";
+
+interface RegisterCommandOptions {
+  branch: string;
+  project?: string;
+  hub?: string;
+  principal?: string;
+  allowedSigners: string;
+  transport?: string;
+  force?: boolean;
+  commit: boolean;
+  pr?: boolean;
+  json?: boolean;
+}
+
+async function register(repo: string, opts: RegisterCommandOptions, json: boolean): Promise<void> {
+  const cwd = process.cwd();
+  if (!existsSync(join(cwd, "projects"))) {
+    throw new Error("No projects/ directory found. Run this from the hub repo root.");
+  }
+
+  header(`Registering spoke ${repo}...\n`);
+
+  const reg = await fetchRegistration(repo, {
+    branch: opts.branch,
+    transportKind: parseTransportKind(opts.transport),
+    hub: opts.hub,
+    project: opts.project,
+    principal: opts.principal,
+  });
+  const project = reg.view.project;
+  success(`manifest.yaml valid — ${reg.manifest.name} by @${reg.manifest.identity.handle}`);
+  if (reg.operator) {
+    success("operator.yaml valid and consistent with manifest.yaml");
+  } else {
+    warning("No operator.yaml — trust zone and identity checks will treat the operator as untrusted");
+  }
+
+  const violations = checkPolicy(hubPolicy(cwd), {
+    view: reg.view,
+    manifest: reg.manifest,
+    status: reg.status,
+    operator: reg.operator,
+  });
+  for (const violation of violations) {
+    warning(`Policy: ${violation.message}`);
+  }
+
+  // PROJECT.yaml: never silently repoint an existing project at another repo
+  const projectPath = join("projects", project, "PROJECT.yaml");
+  const projectFile = join(cwd, projectPath);
+  const content = renderProjectYaml(reg);
+  let projectAction: "created" | "updated" | "unchanged" = "created";
+  if (existsSync(projectFile)) {
+    const existing = loadYaml<ProjectYaml>(projectFile);
+    if (existing?.source?.repo && existing.source.repo !== repo && !opts.force) {
+      throw new Error(
+        `${projectPath} already points at ${existing.source.repo}. Use --project for another name, or --force to replace it.`
+      );
+    }
+    projectAction = readFileSync(projectFile, "utf-8") === content ? "unchanged" : "updated";
+  }
+  if (projectAction !== "unchanged") {
+    mkdirSync(join(cwd, "projects", project), { recursive: true });
+    writeFileSync(projectFile, content, "utf-8");
+    success(`${projectAction === "created" ? "Created" : "Updated"} ${projectPath}`);
+  } else {
+    success(`${projectPath} is up to date`);
+  }
+
+  const signersAction = addAllowedSigner(join(cwd, opts.allowedSigners), reg);
+  if (signersAction === "added") {
+    success(`Added ${reg.principal} to ${opts.allowedSigners}`);
+  } else {
+    success(`Key already in ${opts.allowedSigners}`);
+  }
+
+  const changed = [
+    ...(projectAction !== "unchanged" ? [projectPath] : []),
+    ...(signersAction === "added" ? [opts.allowedSigners] : []),
+  ];
+
+  let commit: RegistrationCommit | null = null;
+  if (changed.length > 0 && opts.commit) {
+    if (!(await isGitRepo(cwd))) {
+      warning("Hub is not a git repository — files written, nothing committed");
+    } else {
+      const sign = (await getSigningConfig(cwd)).keyPath !== null;
+      commit = await commitRegistration(
+        cwd,
+        changed,
+        reg,
+        sign,
+        opts.pr ? `hub/register-${project}` : null
+      );
+      success(`Committed ${commit.sha.slice(0, 7)} on ${commit.branch}${sign ? " (signed)" : ""}`);
+      if (!sign) warning("Commit is unsigned — configure user.signingKey to sign hub changes");
+      if (commit.pr) success(`PR created: ${commit.pr}`);
+    }
+  }
+
+  if (json) {
+    console.log(
+      formatJson({
+        project,
+        repo,
+        branch: reg.branch,
+        principal: reg.principal,
+        projectFile: { path: projectPath, action: projectAction },
+        allowedSigners: { path: opts.allowedSigners, action: signersAction },
+        commit,
+        policyViolations: violations,
+      })
+    );
+    return;
+  }
+
+  if (changed.length === 0) {
+    result(true, `${project} is already registered`);
+    return;
+  }
+  log("\n  'hive-spoke pull' and 'hive-spoke verify' now include this spoke.");
+  result(true, `Registered ${project} from ${repo}`);
+}
+
+export function registerHubCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  const hub = parent.command("hub").description("Hub maintenance (run from the hub repo root)");
+
+  hub
+    .command("register")
+    .description(
+      "Onboard a spoke: check its .collab/, scaffold PROJECT.yaml and add its key to allowed-signers"
+    )
+    .argument("<repo>", "Spoke repository (org/repo, git URL or local path)")
+    .option("--branch <name>", "Spoke branch to read .collab/ from", "main")
+    .option("--project <id>", "Project directory under projects/ (default: the manifest's project)")
+    .option("--hub <org/repo>", "This hub, when the spoke projects to several")
+    .option("--principal <name>", "allowed-signers principal (default: key comment email, else handle)")
+    .option("--allowed-signers <path>", "Path to allowed-signers file", ".hive/allowed-signers")
+    .option("--transport <kind>", "Force spoke transport (github, git, local)")
+    .option("--force", "Replace a PROJECT.yaml that points at another repo", false)
+    .option("--no-commit", "Write the files without committing")
+    .option("--pr", "Commit on a new branch, push it and open a PR", false)
+    .action(
+      withErrorHandling(async (repo: string, opts: RegisterCommandOptions) => {
+        await register(repo, opts, getJsonMode());
+      }, getJsonMode)
+    );
+}
@@ -1,11 +1,39 @@
 import { Command } from "commander";
 import { join } from "path";
-import { existsSync } from "fs";
+import { existsSync, readFileSync } from "fs";
+import { load } from "js-yaml";
 import { withErrorHandling } from "../utils/errors";
-import { writeYaml } from "../utils/yaml";
-import { isGitRepo, getGitUserName, getGitUserEmail, getGitHubHandle, getSigningConfig } from "../utils/git";
-import { success, warning, header } from "../utils/output";
-import { ACCEPTED_LICENSES } from "../schemas/manifest";
+import { dumpYaml, leadingComments, writeYaml } from "../utils/yaml";
+import { diffLines, formatDiff } from "../utils/diff";
+import {
+  isGitRepo,
+  getGitUserName,
+  getGitUserEmail,
+  getGitHubHandle,
+  getSigningConfig,
+  configureSshSigning,
+} from "../utils/git";
+import { generateSigningKey } from "../utils/signing";
+import { createPrompter, type Prompter } from "../utils/prompt";
+import { formatJson, success, warning, header, log } from "../utils/output";
+import { detectedFlags, probeReflexes } from "../reflexes";
+import {
+  applyPreset,
+  defaultAnswers,
+  expandHome,
+  loadPreset,
+  promptAnswers,
+  type InitAnswers,
+} from "../init";
+import {
+  adoptManifest,
+  adoptOperator,
+  documentsEqual,
+  PLACEHOLDER_PUBLIC_KEY,
+} from "../init/adopt";
+import { checkTransition, gateContext, INITIAL_PHASE, transitionRecord } from "../lifecycle";
+import { currentVersion, parseDocument } from "../schemas/registry";
+import type { SpokeStatus } from "../schemas/status";
 import { version } from "../version";
 
 interface InitOptions {
@@ -13,9 +41,68 @@ interface InitOptions {
   project?: string;
   name?: string;
   overwrite?: boolean;
+  adopt?: boolean;
+  preset?: string;
+  yes?: boolean;
   json?: boolean;
 }
 
+type Doc = Record<string, unknown>;
+
+interface CollabFile {
+  file: string;
+  data: Doc;
+  header: string;
+  /** Merges the generated document into an existing one for --adopt */
+  adopt: (existing: Doc, generated: Doc) => Doc;
+}
+
+interface FileOutcome {
+  file: string;
+  action: "created" | "updated" | "unchanged" | "skipped";
+  diff: string[];
+}
+
+// Writes one .collab file. With `adopt`, an existing file is merged and the
+// diff shown first; `confirmer` (a terminal) may decline the write.
+async function writeCollabFile(
+  collabDir: string,
+  entry: CollabFile,
+  adopt: boolean,
+  confirmer: Prompter | null
+): Promise<FileOutcome> {
+  const path = join(collabDir, entry.file);
+  if (!adopt || !existsSync(path)) {
+    writeYaml(path, entry.data, entry.header);
+    success(`Created .collab/${entry.file}`);
+    return { file: entry.file, action: "created", diff: [] };
+  }
+
+  const content = readFileSync(path, "utf-8");
+  const existing = load(content);
+  if (typeof existing !== "object" || existing === null || Array.isArray(existing)) {
+    throw new Error(`.collab/${entry.file} is not a YAML mapping; fix or remove it before adopting`);
+  }
+  const merged = entry.adopt(existing as Doc, entry.data);
+  if (documentsEqual(existing, merged)) {
+    success(`.collab/${entry.file}: nothing to fill in`);
+    return { file: entry.file, action: "unchanged", diff: [] };
+  }
+
+  const next = dumpYaml(merged, leadingComments(content) ?? entry.header);
+  const diff = formatDiff(diffLines(content, next));
+  success(`.collab/${entry.file}: merging`);
+  for (const line of diff) log(`    ${line}`);
+
+  if (confirmer && !(await confirmer.confirm(`Write .collab/${entry.file}?`, true))) {
+    warning(`Skipped .collab/${entry.file}`);
+    return { file: entry.file, action: "skipped", diff };
+  }
+  writeYaml(path, merged, leadingComments(content) ?? entry.header);
+  success(`Updated .collab/${entry.file}`);
+  return { file: entry.file, action: "updated", diff };
+}
+
 export function registerInitCommand(
   parent: Command,
   getJsonMode: () => boolean
@@ -27,6 +114,13 @@ export function registerInitCommand(
     .option("--project <id>", "Project identifier (default: repo directory name)")
     .option("--name <name>", "Operator display name (default: git config user.name)")
     .option("--overwrite", "Overwrite existing .collab/ files", false)
+    .option(
+      "--adopt",
+      "Merge into existing .collab/ files, filling only missing or placeholder fields",
+      false
+    )
+    .option("--preset <file>", "Answer the wizard from a YAML file instead of prompting")
+    .option("-y, --yes", "Accept defaults without prompting", false)
     .action(
       withErrorHandling(async (opts: InitOptions) => {
         const cwd = process.cwd();
@@ -45,9 +139,12 @@ export function registerInitCommand(
         }
 
         // Check existing
-        if (existsSync(collabDir) && !opts.overwrite) {
+        if (opts.adopt && opts.overwrite) {
+          throw new Error("--adopt and --overwrite are mutually exclusive.");
+        }
+        if (existsSync(collabDir) && !opts.overwrite && !opts.adopt) {
           throw new Error(
-            ".collab/ already exists. Use --overwrite to replace."
+            ".collab/ already exists. Use --adopt to merge or --overwrite to replace."
           );
         }
 
@@ -57,7 +154,7 @@ export function registerInitCommand(
         const gitName = (await getGitUserName(cwd)) ?? "operator";
         const gitEmail = (await getGitUserEmail(cwd)) ?? "";
         const displayName = opts.name ?? gitName;
-        const signing = await getSigningConfig(cwd);
+        let signing = await getSigningConfig(cwd);
 
         // Derive handle: GitHub login > git name > email prefix
         const ghHandle = await getGitHubHandle();
@@ -73,47 +170,68 @@ export function registerInitCommand(
           );
         }
 
+        // Answers: preset file, wizard on a terminal, or plain defaults
+        const defaults = defaultAnswers(detectedFlags(await probeReflexes(cwd)));
+        const canGenerateKey = signing.publicKey === null;
+        const interactive =
+          !opts.preset && !opts.yes && !getJsonMode() && process.stdin.isTTY === true;
+        let answers: InitAnswers;
+        if (opts.preset) {
+          answers = applyPreset(defaults, loadPreset(opts.preset), canGenerateKey);
+          success(`Using answers from ${opts.preset}`);
+        } else if (interactive && !opts.adopt) {
+          log();
+          const prompter = createPrompter();
+          try {
+            answers = await promptAnswers(prompter, defaults, canGenerateKey);
+          } finally {
+            prompter.close();
+          }
+          log();
+        } else {
+          answers = defaults;
+        }
+
+        let keyGenerated = false;
+        if (answers.signingKey) {
+          const keyPath = expandHome(answers.signingKey.path);
+          const key = await generateSigningKey(keyPath, gitEmail || maintainerHandle, interactive);
+          keyGenerated = key.created;
+          success(`${key.created ? "Generated" : "Reusing existing"} signing key ${keyPath}`);
+          await configureSshSigning(cwd, `${keyPath}.pub`, answers.signingKey.global);
+          success(
+            `Configured ${answers.signingKey.global ? "global" : "repository"} git signing (gpg.format=ssh, commit.gpgSign=true)`
+          );
+          signing = await getSigningConfig(cwd);
+        }
+
         // manifest.yaml
         const manifest: Record<string, unknown> = {
-          schemaVersion: "1.0",
+          schemaVersion: currentVersion("manifest"),
           name: repoName,
-          hub: opts.hub,
-          project: repoName,
+          hubs: [{ hub: opts.hub, project: repoName }],
           maintainer: maintainerHandle,
-          license: "MIT",
+          license: answers.license,
           identity: {
             handle: maintainerHandle,
-            publicKey: signing.publicKey ?? "ssh-ed25519 <your-public-key-here>",
+            publicKey: signing.publicKey ?? PLACEHOLDER_PUBLIC_KEY,
             ...(signing.fingerprint
               ? { fingerprint: signing.fingerprint }
               : {}),
           },
           security: {
-            reflexes: {
-              signing: signing.gpgSign,
-              secretScanning: false,
-              sandboxEnforcer: false,
-              contentFilter: false,
-            },
-          },
-          status: {
-            test: "bun test",
+            reflexes: answers.reflexes,
           },
+          ...(answers.test ? { status: { test: answers.test } } : {}),
         };
 
-        writeYaml(
-          join(collabDir, "manifest.yaml"),
-          manifest,
-          "# Spoke manifest — identity, security reflexes, hub projection\n# See: spoke-protocol.md"
-        );
-        success("Created .collab/manifest.yaml");
-
-        // status.yaml
-        const status = {
+        // status.yaml — starts at the initial phase; any other starting
+        // phase is a gated transition recorded like `phase set`
+        const status: SpokeStatus = {
           schemaVersion: "1.0",
           generatedAt: new Date().toISOString(),
           generatedBy: `hive-spoke ${version}`,
-          phase: "specify",
+          phase: INITIAL_PHASE,
           tests: { passing: 0, failing: 0 },
           git: {
             branch: "main",
@@ -122,13 +240,23 @@ export function registerInitCommand(
             behindRemote: 0,
           },
         };
-
-        writeYaml(
-          join(collabDir, "status.yaml"),
-          status,
-          "# Spoke status snapshot — auto-generated, do not edit manually\n# Regenerate with: hive-spoke status"
-        );
-        success("Created .collab/status.yaml");
+        if (answers.phase !== INITIAL_PHASE) {
+          const parsedManifest = parseDocument("manifest", manifest).data;
+          const check = await checkTransition(
+            INITIAL_PHASE,
+            answers.phase,
+            gateContext(parsedManifest, status)
+          );
+          if (!check.allowed) {
+            throw new Error(
+              `A new spoke cannot start at "${answers.phase}" — start at ${INITIAL_PHASE} and use 'hive-spoke phase advance'`
+            );
+          }
+          status.transitions = [
+            transitionRecord(check, parsedManifest, signing.keyPath ? signing.fingerprint : null),
+          ];
+          status.phase = answers.phase;
+        }
 
         // operator.yaml (Tier 1 + Tier 2)
         const operator: Record<string, unknown> = {
@@ -136,7 +264,7 @@ export function registerInitCommand(
           handle: maintainerHandle,
           name: displayName,
           signing: {
-            publicKey: signing.publicKey ?? "ssh-ed25519 <your-public-key-here>",
+            publicKey: signing.publicKey ?? PLACEHOLDER_PUBLIC_KEY,
             ...(signing.fingerprint
               ? { fingerprint: signing.fingerprint }
               : {}),
@@ -151,7 +279,7 @@ export function registerInitCommand(
                 },
               ]
             : [],
-          skills: [],
+          skills: answers.skills,
           availability: "open",
           hives: [
             {
@@ -167,12 +295,40 @@ export function registerInitCommand(
           ],
         };
 
-        writeYaml(
-          join(collabDir, "operator.yaml"),
-          operator,
-          "# Operator profile — Tier 1 (public) + Tier 2 (hive-scoped)\n# Tier 3 (private) stays in local blackboard only\n# See: operator-identity.md"
-        );
-        success("Created .collab/operator.yaml");
+        const files: CollabFile[] = [
+          {
+            file: "manifest.yaml",
+            data: manifest,
+            header:
+              "# Spoke manifest — identity, security reflexes, hub projection\n# See: spoke-protocol.md",
+            adopt: adoptManifest,
+          },
+          {
+            file: "status.yaml",
+            data: status,
+            header:
+              "# Spoke status snapshot — auto-generated, do not edit manually\n# Regenerate with: hive-spoke status",
+            // Owned by `hive-spoke status` and possibly signed; never merged
+            adopt: (existing) => existing,
+          },
+          {
+            file: "operator.yaml",
+            data: operator,
+            header:
+              "# Operator profile — Tier 1 (public) + Tier 2 (hive-scoped)\n# Tier 3 (private) stays in local blackboard only\n# See: operator-identity.md",
+            adopt: adoptOperator,
+          },
+        ];
+
+        const written: FileOutcome[] = [];
+        const confirmer = interactive && opts.adopt ? createPrompter() : null;
+        try {
+          for (const entry of files) {
+            written.push(await writeCollabFile(collabDir, entry, !!opts.adopt, confirmer));
+          }
+        } finally {
+          confirmer?.close();
+        }
 
         if (!signing.publicKey) {
           warning(
@@ -183,8 +339,24 @@ export function registerInitCommand(
           );
         }
 
-        console.log(
-          `\nSpoke initialized for ${opts.hub}. Review .collab/ files, then run: hive-spoke validate`
+        if (getJsonMode()) {
+          console.log(
+            formatJson({
+              hub: opts.hub,
+              project: repoName,
+              maintainer: maintainerHandle,
+              signingKeyDetected: signing.publicKey !== null,
+              keyGenerated,
+              answers,
+              adopt: opts.adopt ?? false,
+              files: written.map((f) => ({ ...f, file: `.collab/${f.file}` })),
+            })
+          );
+          return;
+        }
+
+        log(
+          `\nSpoke ${opts.adopt ? "adopted" : "initialized"} for ${opts.hub}. Review .collab/ files, then run: hive-spoke validate`
         );
       }, getJsonMode)
     );
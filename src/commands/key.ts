@@ -0,0 +1,172 @@
+import { Command } from "commander";
+import { join } from "path";
+import { existsSync, readFileSync } from "fs";
+import { withErrorHandling } from "../utils/errors";
+import { leadingComments, loadYaml, writeYaml, yamlExists } from "../utils/yaml";
+import { configureSshSigning, getSigningConfig, isGitRepo } from "../utils/git";
+import { generateSigningKey, STATUS_SIGNATURE_FILE } from "../utils/signing";
+import { writeStatusFile } from "../utils/status-file";
+import { sameKey } from "../utils/allowed-signers";
+import { parseDocument } from "../schemas/registry";
+import type { Rotations } from "../schemas/rotations";
+import { DEFAULT_KEY_PATH, expandHome } from "../init";
+import { ROTATIONS_FILE, signRotation } from "../keys/rotation";
+import { formatJson, success, warning, header, result, log } from "../utils/output";
+
+const ROTATIONS_HEADER =
+  "# Signed key rotations — each statement is signed by the key it retires\n# Append with: hive-spoke key rotate";
+
+interface RotateOptions {
+  newKey?: string;
+  oldKey?: string;
+  reason?: string;
+  gitConfig: boolean;
+  json?: boolean;
+}
+
+// Public key line for a key path; accepts either half of the pair
+function publicKeyAt(path: string): string {
+  const pubPath = path.endsWith(".pub") ? path : `${path}.pub`;
+  if (!existsSync(pubPath)) {
+    throw new Error(`Public key not found at ${pubPath}`);
+  }
+  return readFileSync(pubPath, "utf-8").trim();
+}
+
+function datedKeyPath(): string {
+  const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return `${DEFAULT_KEY_PATH}_${stamp}`;
+}
+
+// Points `section` of a .collab file at the new key, keeping its header comments
+function setKey(path: string, section: string, publicKey: string, fingerprint: string): void {
+  const content = readFileSync(path, "utf-8");
+  const raw = loadYaml<Record<string, unknown>>(path);
+  raw[section] = { ...(raw[section] as Record<string, unknown>), publicKey, fingerprint };
+  writeYaml(path, raw, leadingComments(content));
+}
+
+async function rotate(opts: RotateOptions, json: boolean): Promise<void> {
+  const cwd = process.cwd();
+  const collabDir = join(cwd, ".collab");
+  const manifestPath = join(collabDir, "manifest.yaml");
+  const operatorPath = join(collabDir, "operator.yaml");
+  const statusPath = join(collabDir, "status.yaml");
+  const rotationsPath = join(collabDir, ROTATIONS_FILE);
+
+  if (!yamlExists(manifestPath)) {
+    throw new Error(".collab/manifest.yaml not found. Run 'hive-spoke init' first.");
+  }
+  const manifest = parseDocument("manifest", loadYaml(manifestPath)).data;
+  const handle = manifest.identity.handle;
+
+  // The retiring key must be the one hubs currently know; agent-held keys
+  // (key:: literals, gpg.ssh.defaultKeyCommand) sign through the agent
+  const signing = opts.oldKey ? null : await getSigningConfig(cwd);
+  const oldKeyPath = opts.oldKey ? expandHome(opts.oldKey) : (signing?.keyPath ?? null);
+  if (!oldKeyPath) {
+    throw new Error("No signing key configured — pass the current key with --old-key");
+  }
+  const oldPublicKey = signing ? signing.publicKey : publicKeyAt(oldKeyPath);
+  if (!oldPublicKey || !sameKey(oldPublicKey, manifest.identity.publicKey)) {
+    throw new Error(
+      "The current signing key is not the key in manifest.yaml identity.publicKey — pass it with --old-key"
+    );
+  }
+
+  header(`Rotating signing key for @${handle}...\n`);
+
+  const newKeyPath = expandHome(opts.newKey ?? datedKeyPath());
+  const comment = oldPublicKey.split(/\s+/)[2] ?? handle;
+  const newKey = await generateSigningKey(newKeyPath, comment, !json && process.stdin.isTTY === true);
+  if (sameKey(newKey.publicKey, oldPublicKey)) {
+    throw new Error(`${newKeyPath} is the current key — pick a new key path`);
+  }
+  success(`${newKey.created ? "Generated" : "Using existing"} key ${newKeyPath}`);
+
+  const rotation = await signRotation(handle, oldPublicKey, newKey.publicKey, opts.reason, oldKeyPath);
+  success(`Signed rotation ${rotation.from.fingerprint} → ${rotation.to.fingerprint}`);
+
+  let rotations: Rotations = { schemaVersion: "1.0", handle, rotations: [] };
+  let rotationsHeader = ROTATIONS_HEADER;
+  if (existsSync(rotationsPath)) {
+    rotations = parseDocument("rotations", loadYaml(rotationsPath)).data;
+    rotationsHeader = leadingComments(readFileSync(rotationsPath, "utf-8")) ?? ROTATIONS_HEADER;
+    if (rotations.handle !== handle) {
+      throw new Error(`.collab/${ROTATIONS_FILE} belongs to "${rotations.handle}", not "${handle}"`);
+    }
+  }
+  rotations.rotations.push(rotation);
+  writeYaml(rotationsPath, rotations, rotationsHeader);
+  success(`Appended to .collab/${ROTATIONS_FILE}`);
+
+  const files = [`.collab/${ROTATIONS_FILE}`, ".collab/manifest.yaml"];
+  setKey(manifestPath, "identity", newKey.publicKey, rotation.to.fingerprint);
+  success("Updated manifest.yaml identity");
+
+  if (yamlExists(operatorPath)) {
+    setKey(operatorPath, "signing", newKey.publicKey, rotation.to.fingerprint);
+    files.push(".collab/operator.yaml");
+    success("Updated operator.yaml signing key");
+  }
+
+  // The old signature would read as forged against the new manifest key
+  let statusSigned = false;
+  if (yamlExists(statusPath)) {
+    const written = await writeStatusFile(collabDir, loadYaml(statusPath), newKeyPath);
+    statusSigned = written.signed;
+    files.push(".collab/status.yaml", `.collab/${STATUS_SIGNATURE_FILE}`);
+    if (written.signed) {
+      success("Re-signed status.yaml with the new key");
+    } else {
+      warning(`Could not re-sign status.yaml — ${written.signError}`);
+    }
+  }
+
+  let gitConfigured = false;
+  if (opts.gitConfig && (await isGitRepo(cwd))) {
+    await configureSshSigning(cwd, `${newKeyPath}.pub`, false);
+    gitConfigured = true;
+    success("Pointed repository git signing at the new key");
+  }
+
+  if (json) {
+    console.log(
+      formatJson({
+        handle,
+        keyPath: newKeyPath,
+        created: newKey.created,
+        rotation,
+        files,
+        statusSigned,
+        gitConfigured,
+      })
+    );
+    return;
+  }
+
+  log("\n  Commit .collab/ and run 'hive-spoke publish' — hubs accept the new key through");
+  log(`  .collab/${ROTATIONS_FILE}. If the old key was compromised, ask each hub to add it`);
+  log("  to .hive/revoked-keys.");
+  result(true, `Rotated to ${rotation.to.fingerprint}`);
+}
+
+export function registerKeyCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  const key = parent.command("key").description("Manage the spoke's signing key");
+
+  key
+    .command("rotate")
+    .description("Replace the signing key with a statement signed by the old key")
+    .option("--new-key <path>", "New private key; generated when missing (default: dated key in ~/.ssh)")
+    .option("--old-key <path>", "Current key (default: git user.signingKey)")
+    .option("--reason <text>", "Why the key is rotated, recorded in the statement")
+    .option("--no-git-config", "Leave git user.signingKey unchanged")
+    .action(
+      withErrorHandling(async (opts: RotateOptions) => {
+        await rotate(opts, getJsonMode());
+      }, getJsonMode)
+    );
+}
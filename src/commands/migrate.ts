@@ -0,0 +1,135 @@
+import { Command } from "commander";
+import { join } from "path";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { load } from "js-yaml";
+import { ZodError } from "zod";
+import { withErrorHandling } from "../utils/errors";
+import { dumpYaml, leadingComments } from "../utils/yaml";
+import { diffLines, formatDiff } from "../utils/diff";
+import { STATUS_SIGNATURE_FILE } from "../utils/signing";
+import { migrateDocument, SCHEMA_KINDS } from "../schemas/registry";
+import { formatJson, success, warning, fail, header, result, log } from "../utils/output";
+
+interface MigrateOptions {
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+interface FileMigration {
+  file: string;
+  from: string | null;
+  to: string | null;
+  changed: boolean;
+  diff: string[];
+  error?: string;
+}
+
+export function registerMigrateCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  parent
+    .command("migrate")
+    .description(
+      "Upgrade .collab/ manifest, status and operator files to the current schema versions"
+    )
+    .option("--dry-run", "Show the diff without writing files", false)
+    .action(
+      withErrorHandling(async (opts: MigrateOptions) => {
+        const json = getJsonMode();
+        const collabDir = join(process.cwd(), ".collab");
+
+        if (!existsSync(collabDir)) {
+          throw new Error(".collab/ not found. Run 'hive-spoke init' first.");
+        }
+
+        if (!json) header(`Migrating .collab/ schemas${opts.dryRun ? " (dry run)" : ""}...\n`);
+
+        const migrations: FileMigration[] = [];
+
+        for (const kind of SCHEMA_KINDS) {
+          const file = `${kind}.yaml`;
+          const path = join(collabDir, file);
+          if (!existsSync(path)) continue;
+
+          const content = readFileSync(path, "utf-8");
+          let migration: FileMigration;
+          let next = content;
+          try {
+            const { from, to, document } = migrateDocument(kind, load(content));
+            if (from !== to) next = dumpYaml(document, leadingComments(content));
+            const diff = formatDiff(diffLines(content, next));
+            migration = { file, from, to, changed: from !== to, diff };
+          } catch (err) {
+            migration = {
+              file,
+              from: null,
+              to: null,
+              changed: false,
+              diff: [],
+              error:
+                err instanceof ZodError
+                  ? err.issues.map((i) => `${i.path.join(".")} — ${i.message}`).join("; ")
+                  : err instanceof Error
+                    ? err.message
+                    : String(err),
+            };
+          }
+          migrations.push(migration);
+
+          if (migration.error) {
+            if (!json) fail(`${file}: ${migration.error}`);
+            continue;
+          }
+          if (!migration.changed) {
+            if (!json) success(`${file}: already at ${migration.to}`);
+            continue;
+          }
+
+          if (!json) {
+            success(`${file}: ${migration.from} → ${migration.to}`);
+            for (const line of migration.diff) log(`    ${line}`);
+          }
+          if (opts.dryRun) continue;
+
+          writeFileSync(path, next, "utf-8");
+
+          // The old signature covers the old bytes and would read as forged
+          const sigPath = join(collabDir, STATUS_SIGNATURE_FILE);
+          if (kind === "status" && existsSync(sigPath)) {
+            rmSync(sigPath);
+            if (!json) {
+              warning(
+                `Removed stale ${STATUS_SIGNATURE_FILE} — run 'hive-spoke status' to re-sign`
+              );
+            }
+          }
+        }
+
+        const failed = migrations.filter((m) => m.error).length;
+        const changed = migrations.filter((m) => m.changed).length;
+        if (failed > 0) process.exitCode = 1;
+
+        if (json) {
+          console.log(
+            formatJson({ dryRun: opts.dryRun ?? false, files: migrations }, failed === 0)
+          );
+          return;
+        }
+
+        if (migrations.length === 0) {
+          warning("No manifest.yaml, status.yaml or operator.yaml in .collab/");
+        }
+        result(
+          failed === 0,
+          failed > 0
+            ? `${failed} file(s) could not be migrated`
+            : changed === 0
+              ? "All .collab/ files are at the current schema versions"
+              : opts.dryRun
+                ? `${changed} file(s) would be migrated`
+                : `${changed} file(s) migrated`
+        );
+      }, getJsonMode)
+    );
+}
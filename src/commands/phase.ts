@@ -0,0 +1,185 @@
+import { Command } from "commander";
+import { join } from "path";
+import { withErrorHandling } from "../utils/errors";
+import { loadYaml, yamlExists } from "../utils/yaml";
+import { getSigningConfig } from "../utils/git";
+import { STATUS_SIGNATURE_FILE } from "../utils/signing";
+import { writeStatusFile } from "../utils/status-file";
+import { parseDocument } from "../schemas/registry";
+import { LIFECYCLE_PHASES } from "../schemas/status";
+import {
+  checkTransition,
+  gateContext,
+  isPhase,
+  nextPhase,
+  transitionRecord,
+  TRANSITIONS,
+  type Phase,
+} from "../lifecycle";
+import { formatJson, success, warning, fail, header, result } from "../utils/output";
+
+interface PhaseOptions {
+  force?: boolean;
+  dryRun?: boolean;
+  sign?: boolean;
+  json?: boolean;
+}
+
+function parsePhase(value: string): Phase {
+  if (!isPhase(value)) {
+    throw new Error(`Invalid phase: "${value}". Must be one of: ${LIFECYCLE_PHASES.join(", ")}`);
+  }
+  return value;
+}
+
+// Inserts `transitions` right after `phase` so the history sits next to it
+function withTransition(
+  raw: Record<string, unknown>,
+  to: Phase,
+  transitions: unknown[]
+): Record<string, unknown> {
+  const next: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "transitions") continue;
+    next[key] = value;
+    if (key === "phase") {
+      next.phase = to;
+      next.transitions = transitions;
+    }
+  }
+  return next;
+}
+
+async function changePhase(
+  target: (from: Phase) => Phase,
+  opts: PhaseOptions,
+  json: boolean
+): Promise<void> {
+  const cwd = process.cwd();
+  const collabDir = join(cwd, ".collab");
+  const manifestPath = join(collabDir, "manifest.yaml");
+  const statusPath = join(collabDir, "status.yaml");
+
+  if (!yamlExists(manifestPath)) {
+    throw new Error(".collab/manifest.yaml not found. Run 'hive-spoke init' first.");
+  }
+  if (!yamlExists(statusPath)) {
+    throw new Error(".collab/status.yaml not found. Run 'hive-spoke status' first.");
+  }
+
+  const manifest = parseDocument("manifest", loadYaml(manifestPath)).data;
+  const rawStatus = loadYaml<Record<string, unknown>>(statusPath);
+  const status = parseDocument("status", rawStatus).data;
+
+  const from = status.phase;
+  const to = target(from);
+  if (from === to) {
+    throw new Error(`Already in phase ${to}`);
+  }
+
+  header(`Phase: ${from} → ${to}${opts.dryRun ? " (dry run)" : ""}`);
+  const check = await checkTransition(from, to, gateContext(manifest, status));
+
+  if (!check.edge) {
+    fail(`${from} → ${to} is not an allowed transition (from ${from}: ${TRANSITIONS[from].join(", ")})`);
+  }
+  for (const gate of check.gates) {
+    if (gate.passed) {
+      success(`${gate.id}: ${gate.description}`);
+    } else {
+      fail(`${gate.id}: ${gate.description} — ${gate.detail}`);
+    }
+  }
+  if (check.edge && check.gates.length === 0) {
+    success("No gates for this transition");
+  }
+
+  const forced = !check.allowed && (opts.force ?? false);
+  const report = {
+    from,
+    to,
+    allowed: check.allowed,
+    forced,
+    dryRun: opts.dryRun ?? false,
+    gates: check.gates,
+  };
+
+  if (!check.allowed && !forced) {
+    process.exitCode = 1;
+    if (json) {
+      console.log(formatJson({ ...report, transition: null }, false));
+      return;
+    }
+    result(false, "Transition blocked — fix the failing gates, or use --force to override");
+    return;
+  }
+  if (forced) warning("Forcing the transition; it is recorded as forced in status.yaml");
+
+  if (opts.dryRun) {
+    if (json) {
+      console.log(formatJson({ ...report, transition: null }));
+      return;
+    }
+    result(true, `Transition to ${to} would be recorded`);
+    return;
+  }
+
+  const signing = opts.sign ? await getSigningConfig(cwd) : null;
+  const record = transitionRecord(
+    check,
+    manifest,
+    signing?.keyPath ? signing.fingerprint : null,
+    forced
+  );
+  const next = withTransition(rawStatus, to, [...(status.transitions ?? []), record]);
+  const written = await writeStatusFile(collabDir, next, signing?.keyPath ?? null);
+  success("Recorded in .collab/status.yaml");
+  if (written.signed) {
+    success(`Signed to .collab/${STATUS_SIGNATURE_FILE}`);
+  } else if (written.signError) {
+    warning(`Could not sign status.yaml — ${written.signError}`);
+  } else if (signing) {
+    warning("No signing key configured — status.yaml is unsigned");
+  }
+
+  if (json) {
+    console.log(formatJson({ ...report, transition: record, signed: written.signed }));
+    return;
+  }
+  result(true, `Phase is now ${to}`);
+}
+
+export function registerPhaseCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  const phase = parent
+    .command("phase")
+    .description("Move the spoke through its lifecycle phases, subject to transition gates");
+
+  const withOptions = (cmd: Command) =>
+    cmd
+      .option("--force", "Record the transition even if gates fail or it skips the graph", false)
+      .option("--dry-run", "Check the gates without changing status.yaml", false)
+      .option("--no-sign", "Skip re-signing status.yaml");
+
+  withOptions(
+    phase.command("advance").description("Move to the next phase in the lifecycle")
+  ).action(
+    withErrorHandling(async (opts: PhaseOptions) => {
+      await changePhase(nextPhase, opts, getJsonMode());
+    }, getJsonMode)
+  );
+
+  withOptions(
+    phase
+      .command("set")
+      .description(`Move to a specific phase (${LIFECYCLE_PHASES.join(", ")})`)
+      .argument("<phase>", "Target phase")
+  ).action(
+    withErrorHandling(async (to: string, opts: PhaseOptions) => {
+      const target = parsePhase(to);
+      await changePhase(() => target, opts, getJsonMode());
+    }, getJsonMode)
+  );
+}
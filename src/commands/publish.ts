@@ -1,35 +1,232 @@
 import { Command } from "commander";
-import { join, basename } from "path";
-import { existsSync, readFileSync, mkdirSync, writeFileSync, cpSync } from "fs";
-import { $ } from "bun";
+import { join } from "path";
+import { existsSync, readFileSync, mkdirSync, rmSync, writeFileSync } from "fs";
 import { withErrorHandling } from "../utils/errors";
+import { runCommand } from "../utils/exec";
 import { loadYaml, yamlExists } from "../utils/yaml";
 import { isGitRepo } from "../utils/git";
-import { ManifestSchema, type Manifest } from "../schemas/manifest";
-import { success, warning, fail, header, result } from "../utils/output";
+import { parseDocument } from "../schemas/registry";
+import { hubView, type HubTarget, type HubView, type Manifest } from "../schemas/manifest";
+import { formatJson, success, warning, fail, header, result, log } from "../utils/output";
+import {
+  createHubTransport,
+  parseTransportKind,
+  publishBranch,
+  type SubmitResult,
+} from "../transport";
+import {
+  ALLOWLIST_FILE,
+  loadAllowlist,
+  scanText,
+  SCANNED_FILES,
+  type ScanFinding,
+} from "../scanner";
+import { projectCollab, PUBLISHED_FILES, type PublishedFile } from "../projection";
 import { version } from "../version";
 
 interface PublishOptions {
   dryRun?: boolean;
   branch?: string;
+  hub?: string;
+  hubUrl?: string;
+  transport?: string;
   json?: boolean;
 }
 
-async function runCommand(
-  cmd: string,
-  cwd: string
-): Promise<{ stdout: string; exitCode: number }> {
+interface PublishContext {
+  collabDir: string;
+  manifest: Manifest;
+  statusYaml: string;
+  phase: string;
+  opts: PublishOptions;
+  json: boolean;
+}
+
+interface HubPublishReport {
+  hub: string;
+  project: string;
+  branch: string;
+  dryRun: boolean;
+  changed: number;
+  outcome: SubmitResult["outcome"] | null;
+  ref: string | null;
+  title?: string;
+  body?: string;
+  files?: string[];
+  error?: string;
+}
+
+function branchFor(project: string, opts: PublishOptions): string {
+  return opts.branch ?? publishBranch(project);
+}
+
+function selectTargets(hubs: HubTarget[], opts: PublishOptions): HubTarget[] {
+  const targets = opts.hub ? hubs.filter((h) => h.hub === opts.hub) : hubs;
+  if (targets.length === 0) {
+    throw new Error(
+      `Hub ${opts.hub} is not in manifest.hubs (${hubs.map((h) => h.hub).join(", ")})`
+    );
+  }
+  if (opts.hubUrl && targets.length > 1) {
+    throw new Error("--hub-url needs --hub to pick which manifest hub it replaces");
+  }
+  return targets;
+}
+
+function prBody(view: HubView, ctx: PublishContext): string {
+  const reflexes = ctx.manifest.security?.reflexes;
+  return [
+    `## Spoke Status Update: ${view.project}`,
+    "",
+    `**Operator:** ${view.maintainer}`,
+    `**Phase:** ${ctx.phase}`,
+    `**Hub:** ${view.hub}`,
+    `**Generated by:** hive-spoke ${version}`,
+    "",
+    "### Status Snapshot",
+    "```yaml",
+    ctx.statusYaml.trim(),
+    "```",
+    "",
+    "### Security Reflexes",
+    `- Signing: ${reflexes?.signing ? "active" : "inactive"}`,
+    `- Secret scanning: ${reflexes?.secretScanning ? "active" : "inactive"}`,
+    `- Sandbox enforcer: ${reflexes?.sandboxEnforcer ? "active" : "inactive"}`,
+    `- Content filter: ${reflexes?.contentFilter ? "active" : "inactive"}`,
+    "",
+    "---",
+    `Projected by [hive-spoke](https://github.com/mellanon/hive-spoke) ${version}`,
+  ].join("\n");
+}
+
+// Scans exactly what one hub receives: the projected files and the PR body
+function scanPublication(view: HubView, ctx: PublishContext): ScanFinding[] {
+  const allowlist = loadAllowlist(ctx.collabDir);
+  const projection = projectCollab(ctx.collabDir, view);
+  return [
+    ...SCANNED_FILES.flatMap((file) => {
+      const content = projection[file as PublishedFile];
+      return content === null
+        ? []
+        : scanText(`projects/${view.project}/.collab/${file}`, content, allowlist);
+    }),
+    ...scanText("PR body", prBody(view, ctx), allowlist),
+  ];
+}
+
+// Projects .collab/ into one hub's projects/<project>/ and opens its PR
+async function publishToHub(view: HubView, ctx: PublishContext): Promise<HubPublishReport> {
+  const { collabDir, opts, json } = ctx;
+  const spokeName = view.project;
+  const branchName = branchFor(spokeName, opts);
+  const prTitle = `spoke: ${spokeName} status update`;
+  const body = prBody(view, ctx);
+  const hubLocation = opts.hubUrl ?? view.hub;
+  const report: HubPublishReport = {
+    hub: hubLocation,
+    project: spokeName,
+    branch: branchName,
+    dryRun: opts.dryRun ?? false,
+    changed: 0,
+    outcome: null,
+    ref: null,
+  };
+
+  const projection = projectCollab(collabDir, view);
+
+  if (opts.dryRun) {
+    const files = PUBLISHED_FILES.filter((f) => projection[f] !== null).map(
+      (f) => `projects/${spokeName}/.collab/${f}`
+    );
+    if (!json) {
+      log("\n--- DRY RUN ---");
+      log(`Branch: ${branchName}`);
+      log(`PR Title: ${prTitle}`);
+      log(`\nPR Body:\n${body}`);
+      log("\nFiles that would be updated in hub:");
+      for (const file of files) log(`  ${file}`);
+      result(true, "Dry run complete — no changes made");
+    }
+    return { ...report, title: prTitle, body, files };
+  }
+
+  // 6. Check out hub, copy files, deliver via the hub transport
+  const transport = createHubTransport(hubLocation, parseTransportKind(opts.transport));
+
+  log(`\nChecking out hub: ${hubLocation} (${transport.kind})...`);
+  const checkout = await transport.checkout(branchName);
+
   try {
-    const proc = Bun.spawn(["sh", "-c", cmd], {
-      cwd,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-    const stdout = await new Response(proc.stdout).text();
-    await proc.exited;
-    return { stdout: stdout.trim(), exitCode: proc.exitCode ?? 1 };
-  } catch {
-    return { stdout: "", exitCode: 1 };
+    success(`Checked out ${hubLocation}`);
+    if (transport.kind !== "local") {
+      success(
+        checkout.branchExisted
+          ? `Checked out existing branch: ${branchName}`
+          : `Created branch: ${branchName}`
+      );
+    }
+
+    // Write the projected .collab/ files into hub's project directory
+    const hubProjectPath = `projects/${spokeName}/.collab`;
+    const hubProjectDir = join(checkout.dir, hubProjectPath);
+    mkdirSync(hubProjectDir, { recursive: true });
+
+    let changed = 0;
+    for (const file of PUBLISHED_FILES) {
+      const content = projection[file];
+      const dst = join(hubProjectDir, file);
+      if (content !== null) {
+        if (!existsSync(dst) || readFileSync(dst, "utf-8") !== content) {
+          changed++;
+        }
+        writeFileSync(dst, content, "utf-8");
+        success(`Wrote ${file}`);
+      } else if (existsSync(dst)) {
+        // e.g. status regenerated unsigned — drop the outdated signature
+        rmSync(dst);
+        changed++;
+        success(`Removed ${file}`);
+      }
+    }
+
+    if (changed === 0) {
+      if (!json) {
+        log("\nNo changes to publish — hub is already up to date.");
+        result(true, "Hub is current, no PR needed");
+      }
+      return report;
+    }
+
+    const commitMsg = `spoke: ${spokeName} status update\n\nProjected by hive-spoke ${version}\nPhase: ${ctx.phase}\n\nOrigin: agent\nAttested-By: ${view.maintainer}`;
+    await checkout.commit([hubProjectPath], commitMsg);
+    if (transport.kind !== "local") {
+      success("Committed changes");
+    }
+
+    const submitted = await checkout.submit({ title: prTitle, body });
+    if (!json) {
+      switch (submitted.outcome) {
+        case "pr-updated":
+          success(`Updated existing PR #${submitted.ref}`);
+          result(true, `Spoke published — PR #${submitted.ref} updated`);
+          break;
+        case "pr-created":
+          success(`PR created: ${submitted.ref}`);
+          result(true, `Spoke published to ${hubLocation}`);
+          break;
+        case "pushed":
+          success(`Pushed to origin/${submitted.ref}`);
+          result(true, `Spoke published to ${hubLocation} (branch ${submitted.ref})`);
+          break;
+        case "written":
+          success(`Wrote ${hubProjectPath} in ${submitted.ref}`);
+          result(true, `Spoke published to ${hubLocation}`);
+          break;
+      }
+    }
+    return { ...report, changed, ...submitted };
+  } finally {
+    await checkout.dispose();
   }
 }
 
@@ -42,6 +239,12 @@ export function registerPublishCommand(
     .description("Project spoke status to the hub via PR")
     .option("--dry-run", "Show what would be published without creating PR", false)
     .option("--branch <name>", "Override the PR branch name")
+    .option("--hub <org/repo>", "Only publish to this manifest hub")
+    .option(
+      "--hub-url <location>",
+      "Publish to this hub location instead of the manifest hub (git URL or local path)"
+    )
+    .option("--transport <kind>", "Force hub transport (github, git, local)")
     .action(
       withErrorHandling(async (opts: PublishOptions) => {
         const cwd = process.cwd();
@@ -63,12 +266,14 @@ export function registerPublishCommand(
 
         // 1. Load manifest to get hub target
         const rawManifest = loadYaml(manifestPath);
-        const manifest = ManifestSchema.parse(rawManifest);
-        success(`Hub target: ${manifest.hub}`);
-        success(`Project: ${manifest.project}`);
+        const manifest = parseDocument("manifest", rawManifest).data;
+        const targets = selectTargets(manifest.hubs, opts);
+        for (const target of targets) {
+          success(`Hub target: ${target.hub} (project ${target.project})`);
+        }
 
         // 2. Refresh status
-        console.log("\n--- Refreshing status ---");
+        log("\n--- Refreshing status ---");
         const statusResult = await runCommand(
           `bun ${join(import.meta.dir, "..", "index.ts")} status`,
           cwd
@@ -77,8 +282,36 @@ export function registerPublishCommand(
           throw new Error("Status generation failed. Fix issues before publishing.");
         }
 
-        // 3. Validate
-        console.log("\n--- Validating compliance ---");
+        const statusYaml = readFileSync(join(collabDir, "status.yaml"), "utf-8");
+        const statusData = loadYaml<Record<string, unknown>>(join(collabDir, "status.yaml"));
+        const ctx: PublishContext = {
+          collabDir,
+          manifest,
+          statusYaml,
+          phase: String(statusData?.phase ?? "unknown"),
+          opts,
+          json: getJsonMode(),
+        };
+
+        // 3. Scan what each hub will receive, PR body included
+        log("\n--- Scanning for secrets and PII ---");
+        let findings = 0;
+        for (const target of targets) {
+          const prefix = targets.length > 1 ? `${target.hub}: ` : "";
+          for (const finding of scanPublication(hubView(manifest, target), ctx)) {
+            fail(`${prefix}${finding.file}:${finding.line}: ${finding.description} (${finding.match})`);
+            findings++;
+          }
+        }
+        if (findings > 0) {
+          throw new Error(
+            `${findings} secret/PII finding(s) in what publish would send — remove them from .collab/ or allow them in .collab/${ALLOWLIST_FILE}`
+          );
+        }
+        success("No secrets or PII found");
+
+        // 4. Validate
+        log("\n--- Validating compliance ---");
         const validateResult = await runCommand(
           `bun ${join(import.meta.dir, "..", "index.ts")} validate`,
           cwd
@@ -90,178 +323,43 @@ export function registerPublishCommand(
         }
         success("Compliance check passed");
 
-        // 4. Determine branch and PR details
-        const spokeName = manifest.project;
-        const branchName =
-          opts.branch ?? `spoke/${spokeName}/status-update`;
-        const prTitle = `spoke: ${spokeName} status update`;
-
-        // Read .collab/ files for the PR body
-        const statusYaml = readFileSync(
-          join(collabDir, "status.yaml"),
-          "utf-8"
-        );
-        const statusData = loadYaml<Record<string, unknown>>(
-          join(collabDir, "status.yaml")
-        );
+        // 5. Fan out: one branch and PR per hub
+        const reports: HubPublishReport[] = [];
+        for (const target of targets) {
+          if (!ctx.json && targets.length > 1) header(`=== ${target.hub} ===`);
+          try {
+            reports.push(await publishToHub(hubView(manifest, target), ctx));
+          } catch (err) {
+            // One unreachable hub must not block the others
+            const error = err instanceof Error ? err.message : String(err);
+            if (!ctx.json) fail(`${target.hub}: ${error}`);
+            reports.push({
+              hub: opts.hubUrl ?? target.hub,
+              project: target.project,
+              branch: branchFor(target.project, opts),
+              dryRun: opts.dryRun ?? false,
+              changed: 0,
+              outcome: null,
+              ref: null,
+              error,
+            });
+          }
+        }
 
-        const prBody = [
-          `## Spoke Status Update: ${spokeName}`,
-          "",
-          `**Operator:** ${manifest.maintainer}`,
-          `**Phase:** ${(statusData as any)?.phase ?? "unknown"}`,
-          `**Hub:** ${manifest.hub}`,
-          `**Generated by:** hive-spoke ${version}`,
-          "",
-          "### Status Snapshot",
-          "```yaml",
-          statusYaml.trim(),
-          "```",
-          "",
-          "### Security Reflexes",
-          `- Signing: ${manifest.security?.reflexes?.signing ? "active" : "inactive"}`,
-          `- Secret scanning: ${manifest.security?.reflexes?.secretScanning ? "active" : "inactive"}`,
-          `- Sandbox enforcer: ${manifest.security?.reflexes?.sandboxEnforcer ? "active" : "inactive"}`,
-          `- Content filter: ${manifest.security?.reflexes?.contentFilter ? "active" : "inactive"}`,
-          "",
-          "---",
-          `Projected by [hive-spoke](https://github.com/mellanon/hive-spoke) ${version}`,
-        ].join("\n");
+        const failed = reports.filter((r) => r.error).length;
+        if (failed > 0) process.exitCode = 1;
 
-        if (opts.dryRun) {
-          console.log("\n--- DRY RUN ---");
-          console.log(`Branch: ${branchName}`);
-          console.log(`PR Title: ${prTitle}`);
-          console.log(`\nPR Body:\n${prBody}`);
-          console.log("\nFiles that would be updated in hub:");
-          console.log(`  projects/${spokeName}/.collab/manifest.yaml`);
-          console.log(`  projects/${spokeName}/.collab/status.yaml`);
-          console.log(`  projects/${spokeName}/.collab/operator.yaml`);
-          result(true, "Dry run complete — no changes made");
+        if (ctx.json) {
+          console.log(formatJson({ hubs: reports }, failed === 0));
           return;
         }
-
-        // 5. Clone hub, create branch, copy files, create PR
-        const hubRepo = manifest.hub;
-        const tmpDir = join(
-          process.env.TMPDIR ?? "/tmp",
-          `hive-spoke-publish-${Date.now()}`
-        );
-
-        try {
-          // Clone the hub repo
-          console.log(`\nCloning hub: ${hubRepo}...`);
-          const cloneResult = await runCommand(
-            `gh repo clone ${hubRepo} ${tmpDir} -- --depth 1`,
-            cwd
-          );
-          if (cloneResult.exitCode !== 0) {
-            throw new Error(
-              `Failed to clone hub repo: ${hubRepo}. Is 'gh' authenticated?`
-            );
-          }
-          success(`Cloned ${hubRepo}`);
-
-          // Create or checkout branch
-          const branchCheck = await runCommand(
-            `git ls-remote --heads origin ${branchName}`,
-            tmpDir
-          );
-          if (branchCheck.stdout.includes(branchName)) {
-            // Branch exists — checkout and update
-            await runCommand(`git checkout ${branchName}`, tmpDir);
-            success(`Checked out existing branch: ${branchName}`);
-          } else {
-            await runCommand(
-              `git checkout -b ${branchName}`,
-              tmpDir
-            );
-            success(`Created branch: ${branchName}`);
-          }
-
-          // Copy .collab/ files into hub's project directory
-          const hubProjectDir = join(
-            tmpDir,
-            "projects",
-            spokeName,
-            ".collab"
+        if (targets.length > 1) {
+          result(
+            failed === 0,
+            failed === 0
+              ? `Published to ${targets.length} hubs`
+              : `${failed} of ${targets.length} hub(s) failed`
           );
-          mkdirSync(hubProjectDir, { recursive: true });
-
-          for (const file of [
-            "manifest.yaml",
-            "status.yaml",
-            "operator.yaml",
-          ]) {
-            const src = join(collabDir, file);
-            const dst = join(hubProjectDir, file);
-            if (existsSync(src)) {
-              cpSync(src, dst);
-              success(`Copied ${file}`);
-            }
-          }
-
-          // Stage files first, then check for actual changes
-          await runCommand(
-            `git add projects/${spokeName}/.collab/`,
-            tmpDir
-          );
-
-          const diffCheck = await runCommand(
-            "git diff --cached --quiet",
-            tmpDir
-          );
-          if (diffCheck.exitCode === 0) {
-            console.log("\nNo changes to publish — hub is already up to date.");
-            result(true, "Hub is current, no PR needed");
-            return;
-          }
-          const commitMsg = `spoke: ${spokeName} status update\n\nProjected by hive-spoke ${version}\nPhase: ${(statusData as any)?.phase ?? "unknown"}\n\nOrigin: agent\nAttested-By: ${manifest.maintainer}`;
-          await runCommand(
-            `git commit -m "${commitMsg}"`,
-            tmpDir
-          );
-          success("Committed changes");
-
-          // Push
-          const pushResult = await runCommand(
-            `git push -u origin ${branchName}`,
-            tmpDir
-          );
-          if (pushResult.exitCode !== 0) {
-            throw new Error("Failed to push branch to hub.");
-          }
-          success(`Pushed to origin/${branchName}`);
-
-          // Check if PR already exists
-          const existingPR = await runCommand(
-            `gh pr list --repo ${hubRepo} --head ${branchName} --json number --jq '.[0].number'`,
-            tmpDir
-          );
-
-          if (existingPR.stdout && existingPR.stdout !== "null") {
-            // PR exists — it's been updated by the push
-            success(`Updated existing PR #${existingPR.stdout}`);
-            result(
-              true,
-              `Spoke published — PR #${existingPR.stdout} updated`
-            );
-          } else {
-            // Create new PR
-            const prResult = await runCommand(
-              `gh pr create --repo ${hubRepo} --title "${prTitle}" --body "${prBody.replace(/"/g, '\\"')}" --head ${branchName}`,
-              tmpDir
-            );
-
-            if (prResult.exitCode !== 0) {
-              throw new Error("Failed to create PR on hub.");
-            }
-            success(`PR created: ${prResult.stdout}`);
-            result(true, `Spoke published to ${hubRepo}`);
-          }
-        } finally {
-          // Cleanup
-          await runCommand(`rm -rf ${tmpDir}`, cwd);
         }
       }, getJsonMode)
     );
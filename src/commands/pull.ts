@@ -1,70 +1,99 @@
 import { Command } from "commander";
 import { join } from "path";
-import { readdirSync, existsSync } from "fs";
-import { $ } from "bun";
 import { withErrorHandling } from "../utils/errors";
-import { loadYaml } from "../utils/yaml";
-import { ManifestSchema, type Manifest } from "../schemas/manifest";
-import { StatusSchema, type SpokeStatus } from "../schemas/status";
-import { formatJson, success, warning, fail, header, result } from "../utils/output";
-
-interface SpokeEntry {
-  project: string;
-  repo: string;
-  maintainer: string;
-  phase: string;
-  tests: { passing: number; failing: number };
-  dirty: boolean;
-  behindRemote: number;
-  lastCommit: string;
-  generatedAt: string;
-  license: string;
-  reflexes: {
-    signing: boolean;
-    secretScanning: boolean;
-    sandboxEnforcer: boolean;
-    contentFilter: boolean;
-  };
-  stale: boolean;
-}
-
-interface ProjectYaml {
-  name: string;
-  maintainer: string;
-  status: string;
-  source?: {
-    repo: string;
-    branch?: string;
-  };
-}
+import { parseTransportKind } from "../transport";
+import {
+  fetchAllSpokes,
+  isStale,
+  isUnhealthy,
+  spokeFetchContext,
+  unprovenReflexes,
+  type SpokeEntry,
+} from "../hub/spokes";
+import { diffEntries, HubCache, type PulledSpoke } from "../hub/cache";
+import { DEFAULT_CONCURRENCY, parseConcurrency } from "../utils/concurrency";
+import { POLICY_FILE } from "../schemas/policy";
+import type { PolicyViolation } from "../policy";
+import {
+  formatJson,
+  warning,
+  fail,
+  header,
+  result,
+  progress,
+  clearProgress,
+  log,
+} from "../utils/output";
 
 interface PullOptions {
+  transport?: string;
+  allowedSigners?: string;
+  policy?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  since?: string | boolean;
+  concurrency: number;
   json?: boolean;
 }
 
-function isStale(generatedAt: string, thresholdDays: number = 7): boolean {
-  const generated = new Date(generatedAt);
-  const now = new Date();
-  const diffMs = now.getTime() - generated.getTime();
-  return diffMs > thresholdDays * 24 * 60 * 60 * 1000;
+function formatSpokeLine(entry: SpokeEntry): string {
+  const staleTag = entry.stale ? " [STALE]" : "";
+  const testStr =
+    entry.generatedAt !== "never"
+      ? `${entry.tests.passing}P/${entry.tests.failing}F${entry.tests.skipped ? `/${entry.tests.skipped}S` : ""}`
+      : "—";
+  const dirtyTag = entry.dirty ? " [dirty]" : "";
+  const behindTag =
+    entry.behindRemote > 0 ? ` [${entry.behindRemote} behind]` : "";
+  const attestTag =
+    entry.attestation === "forged"
+      ? " [FORGED]"
+      : entry.attestation === "unsigned" || entry.attestation === "unregistered"
+        ? ` [${entry.attestation}]`
+        : "";
+  const healthTag = isUnhealthy(entry) ? ` [health: ${entry.health!.state}]` : "";
+  const unproven = unprovenReflexes(entry);
+  const reflexTag =
+    unproven.length > 0
+      ? ` [claimed, not detected: ${unproven.join(", ")}]`
+      : "";
+
+  return `${entry.project} | ${entry.phase} | ${testStr} | @${entry.maintainer} | ${entry.repo}${dirtyTag}${behindTag}${staleTag}${healthTag}${attestTag}${reflexTag}`;
 }
 
-async function fetchFileFromRepo(
-  repo: string,
-  path: string,
-  branch: string = "main"
-): Promise<string | null> {
-  try {
-    const result =
-      await $`gh api repos/${repo}/contents/${path}?ref=${branch} --jq .content`
-        .quiet()
-        .text();
-    const base64 = result.trim();
-    if (!base64) return null;
-    return Buffer.from(base64, "base64").toString("utf-8");
-  } catch {
-    return null;
+function changesSince(
+  cache: HubCache,
+  pulled: PulledSpoke[],
+  since: string,
+  staleDays: number
+): { project: string; changes: string[] }[] {
+  const changes = pulled
+    .map(({ project, entry }) => {
+      const snapshot = cache.snapshotAt(project, since);
+      // Judge the old snapshot's staleness as of `since`, not first-seen time
+      const previous = snapshot
+        ? {
+            ...snapshot.entry,
+            stale: isStale(snapshot.entry.generatedAt, staleDays, new Date(since)),
+          }
+        : null;
+      return { project, changes: diffEntries(previous, entry) };
+    })
+    .filter((c) => c.changes.length > 0);
+
+  // Spokes seen at `since` that this pull no longer returns
+  const current = new Set(pulled.map((s) => s.project));
+  const previous = cache
+    .pulls()
+    .filter((p) => p.pulledAt <= since)
+    .at(-1);
+  for (const project of previous?.projects ?? []) {
+    if (!current.has(project)) {
+      changes.push({ project, changes: ["no longer fetched"] });
+    }
   }
+
+  return changes;
 }
 
 export function registerPullCommand(
@@ -74,155 +103,214 @@ export function registerPullCommand(
   parent
     .command("pull")
     .description(
-      "Fetch spoke statuses from spoke repos (reads .collab/ via GitHub API)"
+      "Fetch spoke statuses from spoke repos (reads .collab/ via GitHub API, git or local path)"
+    )
+    .option("--transport <kind>", "Force spoke transport (github, git, local)")
+    .option(
+      "--allowed-signers <path>",
+      "Path to allowed-signers file for status attestation checks",
+      ".hive/allowed-signers"
+    )
+    .option("--policy <path>", "Hub policy applied to each spoke", POLICY_FILE)
+    .option("--cache-dir <dir>", "Where pulled snapshots are stored", ".hive/cache")
+    .option(
+      "--no-cache",
+      "Do not persist snapshots or reuse cached API responses (ETags)"
+    )
+    .option(
+      "--since [timestamp]",
+      "Only report changes since the previous pull (or an ISO timestamp)"
+    )
+    .option(
+      "--concurrency <n>",
+      "Spokes fetched in parallel",
+      parseConcurrency,
+      DEFAULT_CONCURRENCY
     )
     .action(
-      withErrorHandling(async (_opts: PullOptions) => {
+      withErrorHandling(async (opts: PullOptions) => {
         const json = getJsonMode();
+        const transportKind = parseTransportKind(opts.transport);
         const cwd = process.cwd();
-        const projectsDir = join(cwd, "projects");
+        const cacheDir = join(cwd, opts.cacheDir ?? ".hive/cache");
+        const ctx = spokeFetchContext(
+          cwd,
+          opts.allowedSigners ?? ".hive/allowed-signers",
+          transportKind,
+          opts.cache ? join(cacheDir, "http") : undefined,
+          opts.policy
+        );
+        const cache = new HubCache(cacheDir);
+        const pulledAt = new Date().toISOString();
 
-        if (!existsSync(projectsDir)) {
-          throw new Error(
-            "No projects/ directory found. Run this from the hub repo root."
-          );
+        // --since alone compares against the previous pull
+        let since: string | null = null;
+        if (opts.since === true) {
+          since = cache.lastPull()?.pulledAt ?? null;
+          if (!since) {
+            throw new Error(
+              "No previous pull recorded. Run 'hive-spoke pull' once first."
+            );
+          }
+        } else if (opts.since !== undefined) {
+          const time = Date.parse(String(opts.since));
+          if (isNaN(time)) {
+            throw new Error(
+              `Invalid --since: "${opts.since}". Must be an ISO 8601 timestamp.`
+            );
+          }
+          since = new Date(time).toISOString();
         }
+        const quiet = json || since !== null;
 
         header("Fetching spoke statuses from repos...\n");
 
-        const projects = readdirSync(projectsDir, { withFileTypes: true })
-          .filter((d) => d.isDirectory())
-          .map((d) => d.name)
-          .sort();
-
         const spokes: SpokeEntry[] = [];
+        const pulled: PulledSpoke[] = [];
         let fetched = 0;
         let noRepo = 0;
         let noCollab = 0;
+        let invalid = 0;
+        let unreachable = 0;
+        let unlisted = 0;
+        const spokeWarnings: { project: string; message: string }[] = [];
+        const violations: (PolicyViolation & { project: string })[] = [];
 
-        for (const project of projects) {
-          const projectYamlPath = join(
-            projectsDir,
-            project,
-            "PROJECT.yaml"
-          );
+        const results = await fetchAllSpokes(
+          ctx,
+          opts.concurrency,
+          json ? undefined : progress
+        );
+        if (!json) clearProgress();
 
-          if (!existsSync(projectYamlPath)) {
-            if (!json) console.log(`  - ${project} (no PROJECT.yaml)`);
-            noRepo++;
-            continue;
+        // Report in project order once all fetches have settled
+        for (const fetchResult of results) {
+          const project = fetchResult.project;
+          switch (fetchResult.kind) {
+            case "no-project-yaml":
+              if (!quiet) log(`  - ${project} (no PROJECT.yaml)`);
+              noRepo++;
+              continue;
+            case "no-source":
+              if (!quiet) log(`  - ${project} (no source repo)`);
+              noRepo++;
+              continue;
+            case "no-collab":
+              if (!quiet) {
+                log(`  - ${project} (no .collab/ in ${fetchResult.repo})`);
+              }
+              noCollab++;
+              continue;
+            case "invalid":
+              if (!quiet) {
+                fail(
+                  `${project}: invalid .collab/ in ${fetchResult.repo} — ${fetchResult.error}`
+                );
+              }
+              invalid++;
+              continue;
+            case "unreachable":
+              if (!quiet) {
+                fail(`${project}: could not fetch ${fetchResult.repo} — ${fetchResult.error}`);
+              }
+              unreachable++;
+              continue;
+            case "unlisted":
+              if (!quiet) {
+                log(
+                  `  - ${project} (${fetchResult.phase}, before ${ctx.policy.minListingPhase} — not listed)`
+                );
+              }
+              unlisted++;
+              continue;
           }
 
-          const projectYaml = loadYaml<ProjectYaml>(projectYamlPath);
-
-          if (!projectYaml.source?.repo) {
-            if (!json) console.log(`  - ${project} (no source repo)`);
-            noRepo++;
-            continue;
+          const entry = fetchResult.entry;
+          spokes.push(entry);
+          pulled.push({ project, entry });
+          for (const message of fetchResult.warnings) {
+            spokeWarnings.push({ project, message });
           }
-
-          const repo = projectYaml.source.repo;
-          const branch = projectYaml.source.branch ?? "main";
-
-          // Fetch manifest.yaml from spoke repo
-          const manifestContent = await fetchFileFromRepo(
-            repo,
-            ".collab/manifest.yaml",
-            branch
-          );
-
-          if (!manifestContent) {
-            if (!json) console.log(`  - ${project} (no .collab/ in ${repo})`);
-            noCollab++;
-            continue;
+          for (const violation of fetchResult.violations) {
+            violations.push({ project, ...violation });
           }
+          fetched++;
 
-          // Fetch status.yaml from spoke repo
-          const statusContent = await fetchFileFromRepo(
-            repo,
-            ".collab/status.yaml",
-            branch
-          );
-
-          try {
-            const { load } = await import("js-yaml");
-            const rawManifest = load(manifestContent);
-            const manifest = ManifestSchema.parse(rawManifest);
-
-            let status: SpokeStatus | null = null;
-            if (statusContent) {
-              const rawStatus = load(statusContent);
-              status = StatusSchema.parse(rawStatus);
+          if (!quiet) {
+            log(`  ${formatSpokeLine(entry)}`);
+            for (const name of entry.tests.failures ?? []) {
+              log(`      ✗ ${name}`);
             }
-
-            const stale = status ? isStale(status.generatedAt) : true;
-
-            const entry: SpokeEntry = {
-              project: manifest.project,
-              repo,
-              maintainer: manifest.maintainer,
-              phase: status?.phase ?? "unknown",
-              tests: status?.tests ?? { passing: 0, failing: 0 },
-              dirty: status?.git?.dirty ?? false,
-              behindRemote: status?.git?.behindRemote ?? 0,
-              lastCommit: status?.git?.lastCommit ?? "unknown",
-              generatedAt: status?.generatedAt ?? "never",
-              license: manifest.license,
-              reflexes: {
-                signing: manifest.security?.reflexes?.signing ?? false,
-                secretScanning:
-                  manifest.security?.reflexes?.secretScanning ?? false,
-                sandboxEnforcer:
-                  manifest.security?.reflexes?.sandboxEnforcer ?? false,
-                contentFilter:
-                  manifest.security?.reflexes?.contentFilter ?? false,
-              },
-              stale,
-            };
-
-            spokes.push(entry);
-            fetched++;
-
-            if (!json) {
-              const staleTag = stale ? " [STALE]" : "";
-              const testStr = status
-                ? `${status.tests.passing}P/${status.tests.failing}F`
-                : "—";
-              const dirtyTag = entry.dirty ? " [dirty]" : "";
-              const behindTag =
-                entry.behindRemote > 0
-                  ? ` [${entry.behindRemote} behind]`
-                  : "";
-
-              console.log(
-                `  ${manifest.project} | ${entry.phase} | ${testStr} | @${manifest.maintainer} | ${repo}${dirtyTag}${behindTag}${staleTag}`
-              );
+            for (const violation of fetchResult.violations) {
+              log(`      ! policy: ${violation.message}`);
             }
-          } catch (err) {
-            if (!json) {
-              fail(
-                `${project}: invalid .collab/ in ${repo} — ${err instanceof Error ? err.message : String(err)}`
-              );
+            for (const message of fetchResult.warnings) {
+              warning(`  ${message}`);
             }
           }
         }
 
+        if (since !== null) {
+          const changes = changesSince(cache, pulled, since, ctx.policy.maxStalenessDays);
+          if (opts.cache) cache.record(pulled, pulledAt);
+
+          if (json) {
+            console.log(formatJson({ since, changes }));
+          } else {
+            for (const { project, changes: list } of changes) {
+              log(`  ${project} | ${list.join("; ")}`);
+            }
+            result(
+              true,
+              changes.length > 0
+                ? `${changes.length} spoke(s) changed since ${since}`
+                : `No changes since ${since}`
+            );
+          }
+          return;
+        }
+
+        if (opts.cache) cache.record(pulled, pulledAt);
+
         if (json) {
           console.log(
-            formatJson({ spokes, fetched, noRepo, noCollab })
+            formatJson({
+              spokes,
+              fetched,
+              noRepo,
+              noCollab,
+              invalid,
+              unreachable,
+              unlisted,
+              unhealthy: spokes.filter(isUnhealthy).map((s) => s.project),
+              warnings: spokeWarnings,
+              policyViolations: violations,
+            })
           );
         } else {
-          console.log(
-            `\n  ${fetched} spoke(s) fetched, ${noCollab} repo(s) without .collab/, ${noRepo} project(s) without source repo`
+          log(
+            `\n  ${fetched} spoke(s) fetched, ${noCollab} repo(s) without .collab/, ${invalid} with invalid .collab/, ${unreachable} unreachable, ${unlisted} not yet listed, ${noRepo} project(s) without source repo`
           );
 
+          if (invalid > 0) {
+            fail(`${invalid} spoke(s) publish an invalid .collab/`);
+          }
+          if (unreachable > 0) {
+            fail(`${unreachable} spoke repo(s) could not be fetched`);
+          }
+
           const staleCount = spokes.filter((s) => s.stale).length;
           if (staleCount > 0) {
             warning(
-              `${staleCount} spoke(s) have stale status (>7 days old)`
+              `${staleCount} spoke(s) have stale status (>${ctx.policy.maxStalenessDays} days old)`
             );
           }
 
+          const violating = new Set(violations.map((v) => v.project)).size;
+          if (violating > 0) {
+            fail(`${violating} spoke(s) violate the hub policy`);
+          }
+
           const failingCount = spokes.filter(
             (s) => s.tests.failing > 0
           ).length;
@@ -230,6 +318,34 @@ export function registerPullCommand(
             warning(`${failingCount} spoke(s) have failing tests`);
           }
 
+          // Unhealthy is about the running system, not the test suite
+          const unhealthy = spokes.filter(isUnhealthy);
+          if (unhealthy.length > 0) {
+            warning(`${unhealthy.length} spoke(s) report an unhealthy health check:`);
+            for (const s of unhealthy) {
+              const health = s.health!;
+              const detail = health.timedOut ? "timed out" : `exit ${health.exitCode}`;
+              const lastLine = health.output.split("\n").at(-1);
+              log(
+                `      ${s.project} — ${health.state} (${detail})${lastLine ? `: ${lastLine}` : ""}`
+              );
+            }
+          }
+
+          const forgedCount = spokes.filter(
+            (s) => s.attestation === "forged"
+          ).length;
+          if (forgedCount > 0) {
+            fail(`${forgedCount} spoke(s) have a status signature that does not verify`);
+          }
+
+          const unsignedCount = spokes.filter(
+            (s) => s.attestation === "unsigned"
+          ).length;
+          if (unsignedCount > 0) {
+            warning(`${unsignedCount} spoke(s) publish an unsigned status.yaml`);
+          }
+
           result(true, "Spoke status fetch complete");
         }
       }, getJsonMode)
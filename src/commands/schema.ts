@@ -0,0 +1,68 @@
+import { Command } from "commander";
+import { join } from "path";
+import { mkdirSync, writeFileSync } from "fs";
+import { withErrorHandling } from "../utils/errors";
+import { SCHEMA_KINDS, SCHEMA_VERSIONS, type SchemaKind } from "../schemas/registry";
+import { schemaFileName, toJsonSchema } from "../schemas/json-schema";
+import { formatJson, success, header, result } from "../utils/output";
+
+interface SchemaExportOptions {
+  out: string;
+  kind?: string;
+  json?: boolean;
+}
+
+function parseKinds(kind: string | undefined): SchemaKind[] {
+  if (kind === undefined) return [...SCHEMA_KINDS];
+  if (!(SCHEMA_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(`Invalid kind: "${kind}". Must be one of: ${SCHEMA_KINDS.join(", ")}`);
+  }
+  return [kind as SchemaKind];
+}
+
+export function registerSchemaCommand(
+  parent: Command,
+  getJsonMode: () => boolean
+): void {
+  const schema = parent
+    .command("schema")
+    .description("Work with the spoke protocol schemas");
+
+  schema
+    .command("export")
+    .description(
+      "Write JSON Schema files for every supported manifest, status and operator version"
+    )
+    .option("--out <dir>", "Output directory", "schemas")
+    .option("--kind <kind>", `Only export one schema (${SCHEMA_KINDS.join(", ")})`)
+    .action(
+      withErrorHandling(async (opts: SchemaExportOptions) => {
+        const json = getJsonMode();
+        const kinds = parseKinds(opts.kind);
+        const outDir = join(process.cwd(), opts.out);
+        mkdirSync(outDir, { recursive: true });
+
+        if (!json) header("Exporting JSON Schema...\n");
+
+        const written: { kind: SchemaKind; version: string; file: string }[] = [];
+        for (const kind of kinds) {
+          for (const { version } of SCHEMA_VERSIONS[kind]) {
+            const file = join(opts.out, schemaFileName(kind, version));
+            writeFileSync(
+              join(process.cwd(), file),
+              `${JSON.stringify(toJsonSchema(kind, version), null, 2)}\n`,
+              "utf-8"
+            );
+            written.push({ kind, version, file });
+            if (!json) success(`${kind} ${version} → ${file}`);
+          }
+        }
+
+        if (json) {
+          console.log(formatJson({ files: written }));
+        } else {
+          result(true, `${written.length} schema file(s) exported`);
+        }
+      }, getJsonMode)
+    );
+}
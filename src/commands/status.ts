@@ -1,54 +1,27 @@
 import { Command } from "commander";
 import { join } from "path";
 import { withErrorHandling } from "../utils/errors";
-import { loadYaml, writeYaml, yamlExists } from "../utils/yaml";
-import { getGitState, isGitRepo } from "../utils/git";
-import { ManifestSchema, type Manifest } from "../schemas/manifest";
-import { LIFECYCLE_PHASES } from "../schemas/status";
-import { success, warning, header } from "../utils/output";
+import { loadYaml, yamlExists } from "../utils/yaml";
+import { getGitState, getSigningConfig, isGitRepo } from "../utils/git";
+import { STATUS_SIGNATURE_FILE } from "../utils/signing";
+import { writeStatusFile } from "../utils/status-file";
+import { checkTransition, gateContext, INITIAL_PHASE, isPhase, transitionRecord } from "../lifecycle";
+import { parseDocument } from "../schemas/registry";
+import { LIFECYCLE_PHASES, type SpokeStatus } from "../schemas/status";
+import { runTests } from "../test-results";
+import { DEFAULT_HEALTH_TIMEOUT_SEC, runHealthCheck, type HealthResult } from "../health";
+import { detectedFlags, probeReflexes } from "../reflexes";
+import { REFLEX_NAMES } from "../schemas/reflexes";
+import { formatJson, success, warning, header, log } from "../utils/output";
 import { version } from "../version";
 
 interface StatusOptions {
   phase?: string;
   stdout?: boolean;
+  sign?: boolean;
   json?: boolean;
 }
 
-async function runTestCommand(
-  testCmd: string,
-  cwd: string
-): Promise<{ passing: number; failing: number }> {
-  try {
-    const proc = Bun.spawn(["sh", "-c", testCmd], {
-      cwd,
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const output = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    const combined = output + stderr;
-
-    // Parse common test output patterns
-    // bun test: "42 pass" / "3 fail"
-    const bunPass = combined.match(/(\d+)\s+pass/);
-    const bunFail = combined.match(/(\d+)\s+fail/);
-
-    // jest/vitest: "Tests: 5 passed, 2 failed"
-    const jestPass = combined.match(/(\d+)\s+passed/);
-    const jestFail = combined.match(/(\d+)\s+failed/);
-
-    const passing =
-      parseInt(bunPass?.[1] ?? jestPass?.[1] ?? "0", 10);
-    const failing =
-      parseInt(bunFail?.[1] ?? jestFail?.[1] ?? "0", 10);
-
-    return { passing, failing };
-  } catch {
-    return { passing: 0, failing: 0 };
-  }
-}
-
 export function registerStatusCommand(
   parent: Command,
   getJsonMode: () => boolean
@@ -58,9 +31,10 @@ export function registerStatusCommand(
     .description("Generate status.yaml snapshot from current repo state")
     .option(
       "--phase <phase>",
-      `Override lifecycle phase (${LIFECYCLE_PHASES.join(", ")})`
+      `Move to a lifecycle phase, subject to transition gates (${LIFECYCLE_PHASES.join(", ")})`
     )
     .option("--stdout", "Print to stdout instead of writing file", false)
+    .option("--no-sign", "Skip the detached SSH signature (status.yaml.sig)")
     .action(
       withErrorHandling(async (opts: StatusOptions) => {
         const cwd = process.cwd();
@@ -82,37 +56,84 @@ export function registerStatusCommand(
 
         // Load and validate manifest
         const rawManifest = loadYaml(manifestPath);
-        const manifest = ManifestSchema.parse(rawManifest);
+        const manifest = parseDocument("manifest", rawManifest).data;
 
         // Get current git state
         const gitState = await getGitState(cwd);
         success(`Git: ${gitState.branch}, dirty=${gitState.dirty}, behind=${gitState.behindRemote}`);
 
-        // Determine phase
-        let phase = opts.phase ?? "build";
-        if (yamlExists(statusPath)) {
-          const existing = loadYaml<{ phase?: string }>(statusPath);
-          if (existing?.phase && !opts.phase) {
-            phase = existing.phase;
-          }
-        }
+        // Phase and transition history carry over from the previous snapshot
+        const previous = yamlExists(statusPath)
+          ? loadYaml<Partial<SpokeStatus> | null>(statusPath)
+          : null;
+        let phase: string = previous?.phase ?? INITIAL_PHASE;
+        const transitions: NonNullable<SpokeStatus["transitions"]> = previous?.transitions ?? [];
 
         // Run tests if configured
-        let tests = { passing: 0, failing: 0 };
+        let tests: SpokeStatus["tests"] = { passing: 0, failing: 0 };
         if (manifest.status?.test) {
-          success(`Running tests: ${manifest.status.test}`);
-          tests = await runTestCommand(manifest.status.test, cwd);
-          success(`Tests: ${tests.passing} passing, ${tests.failing} failing`);
+          const results = manifest.status.results;
+          success(
+            `Running tests: ${manifest.status.test}${results ? ` (${results.format} results)` : ""}`
+          );
+          const run = await runTests(manifest.status.test, results, cwd);
+          if (run.warning) warning(`${run.warning} — fell back to summary lines`);
+          tests = {
+            passing: run.passing,
+            failing: run.failing,
+            skipped: run.skipped,
+            durationMs: run.durationMs,
+            exitCode: run.exitCode,
+            ...(run.failures.length > 0 ? { failures: run.failures } : {}),
+          };
+          success(
+            `Tests: ${run.passing} passing, ${run.failing} failing, ${run.skipped} skipped (${(run.durationMs / 1000).toFixed(1)}s)`
+          );
+          for (const name of run.failures) {
+            log(`    ✗ ${name}`);
+          }
+          if (run.exitCode !== 0 && run.failing === 0) {
+            warning(
+              `Test command exited with ${run.exitCode === null ? "a signal" : `code ${run.exitCode}`} but reported no failures`
+            );
+          }
         } else {
           warning("No test command in manifest.yaml — skipping test count");
         }
 
+        let health: HealthResult | undefined;
+        if (manifest.status?.healthCheck) {
+          const timeout = manifest.status.healthTimeout ?? DEFAULT_HEALTH_TIMEOUT_SEC;
+          success(`Running health check: ${manifest.status.healthCheck} (timeout ${timeout}s)`);
+          health = await runHealthCheck(manifest.status.healthCheck, cwd, timeout);
+          const detail = health.timedOut
+            ? `timed out after ${timeout}s`
+            : `exit ${health.exitCode ?? "signal"}, ${(health.durationMs / 1000).toFixed(1)}s`;
+          if (health.state === "healthy") {
+            success(`Health: healthy (${detail})`);
+          } else {
+            warning(`Health: ${health.state} (${detail})`);
+          }
+        }
+
+        // Probe reflexes so the hub sees what is active, not just claimed
+        const probes = await probeReflexes(cwd);
+        const reflexes = detectedFlags(probes);
+        const detected = REFLEX_NAMES.filter((name) => reflexes[name]);
+        success(
+          `Reflexes detected: ${detected.length > 0 ? detected.join(", ") : "none"}`
+        );
+
+        const signing = opts.sign && !opts.stdout ? await getSigningConfig(cwd) : null;
+
         // Build status object
-        const statusData = {
+        const generatedAt = new Date().toISOString();
+        const snapshot = () => ({
           schemaVersion: "1.0" as const,
-          generatedAt: new Date().toISOString(),
+          generatedAt,
           generatedBy: `hive-spoke ${version}`,
           phase,
+          ...(transitions.length > 0 ? { transitions } : {}),
           tests,
           git: {
             branch: gitState.branch,
@@ -120,21 +141,69 @@ export function registerStatusCommand(
             dirty: gitState.dirty,
             behindRemote: gitState.behindRemote,
           },
-        };
+          ...(health ? { health } : {}),
+          reflexes,
+        });
+        let statusData = snapshot();
+
+        // --phase is a gated transition, judged on this snapshot
+        if (opts.phase && opts.phase !== phase) {
+          if (!isPhase(phase) || !isPhase(opts.phase)) {
+            throw new Error(`Cannot move from phase "${phase}" to "${opts.phase}"`);
+          }
+          const check = await checkTransition(
+            phase,
+            opts.phase,
+            gateContext(manifest, statusData as SpokeStatus)
+          );
+          if (!check.allowed) {
+            const reasons = check.edge
+              ? check.gates.filter((g) => !g.passed).map((g) => `${g.id}: ${g.detail}`)
+              : [`${phase} → ${opts.phase} is not an allowed transition`];
+            throw new Error(
+              `Phase change blocked — ${reasons.join("; ")}. See 'hive-spoke phase set --help'.`
+            );
+          }
+          transitions.push(
+            transitionRecord(check, manifest, signing?.keyPath ? signing.fingerprint : null)
+          );
+          success(`Phase: ${phase} → ${opts.phase}`);
+          phase = opts.phase;
+          statusData = snapshot();
+        }
 
+        let signed = false;
         if (opts.stdout) {
-          const yaml = await import("js-yaml");
-          console.log(yaml.dump(statusData, { indent: 2 }));
+          // In JSON mode the snapshot is part of the JSON document instead
+          if (!getJsonMode()) {
+            const yaml = await import("js-yaml");
+            console.log(yaml.dump(statusData, { indent: 2 }));
+          }
         } else {
-          writeYaml(
-            statusPath,
-            statusData,
-            "# Spoke status snapshot — auto-generated by hive-spoke\n# Regenerate with: hive-spoke status"
-          );
+          const written = await writeStatusFile(collabDir, statusData, signing?.keyPath ?? null);
           success(`Written to .collab/status.yaml`);
+          signed = written.signed;
+          if (written.signed) {
+            success(`Signed to .collab/${STATUS_SIGNATURE_FILE}`);
+          } else if (written.signError) {
+            warning(`Could not sign status.yaml — ${written.signError}`);
+          } else if (signing) {
+            warning("No signing key configured — status.yaml is unsigned");
+          }
+        }
+
+        if (getJsonMode()) {
+          console.log(
+            formatJson({
+              file: opts.stdout ? null : ".collab/status.yaml",
+              signature: signed ? `.collab/${STATUS_SIGNATURE_FILE}` : null,
+              status: statusData,
+            })
+          );
+          return;
         }
 
-        console.log(
+        log(
           `\nStatus snapshot generated (${phase}, ${tests.passing} tests passing).`
         );
       }, getJsonMode)
@@ -1,22 +1,186 @@
 import { Command } from "commander";
 import { join } from "path";
 import { ZodError } from "zod";
-import { withErrorHandling } from "../utils/errors";
-import { loadYaml, yamlExists } from "../utils/yaml";
+import { SpokeError, withErrorHandling } from "../utils/errors";
+import { YAMLException } from "js-yaml";
+import { loadYamlWithPositions, yamlExists, type YamlSource } from "../utils/yaml";
 import { getSigningConfig } from "../utils/git";
-import { ManifestSchema, type Manifest } from "../schemas/manifest";
-import { StatusSchema, type SpokeStatus } from "../schemas/status";
-import { OperatorSchema, type Operator } from "../schemas/operator";
-import { success, warning, fail, header, result } from "../utils/output";
+import { hubView, type Manifest } from "../schemas/manifest";
+import type { SpokeStatus } from "../schemas/status";
+import type { Operator } from "../schemas/operator";
+import {
+  currentVersion,
+  deprecationWarning,
+  parseDocument,
+  type ParsedDocument,
+  type SchemaKind,
+} from "../schemas/registry";
+import {
+  formatJson,
+  success,
+  warning,
+  fail,
+  header,
+  result,
+  log,
+  setMachineOutput,
+} from "../utils/output";
+import { probeReflexes } from "../reflexes";
+import { REFLEX_NAMES } from "../schemas/reflexes";
+import { isPlaceholder } from "../init/adopt";
+import { POLICY_FILE, type HubPolicy } from "../schemas/policy";
+import { ALLOWLIST_FILE, scanCollab } from "../scanner";
+import { tierExposure } from "../projection";
+import { rotationPayload, ROTATIONS_FILE } from "../keys/rotation";
+import { parseSshPublicKey } from "../keys/ssh-key";
+import { sameKey } from "../utils/allowed-signers";
+import { ROTATION_SIGNATURE_NAMESPACE, verifyWithKey } from "../utils/signing";
+import { checkPolicy, DEFAULT_POLICY, fetchHubPolicy, loadPolicy } from "../policy";
+import {
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  toGithubAnnotations,
+  toSarif,
+  type OutputFormat,
+  type ValidationIssue,
+} from "../diagnostics";
 
 interface ValidateOptions {
   strict?: boolean;
+  policy?: string;
+  format: OutputFormat;
   json?: boolean;
 }
 
+interface HubPolicySource {
+  hub: string;
+  policy: HubPolicy;
+  /** Where the policy came from, for display */
+  origin: string;
+  /** Set when the hub's policy could not be loaded; its checks fail */
+  error?: { code: string; message: string };
+}
+
 interface ValidationResult {
-  errors: string[];
-  warnings: string[];
+  issues: ValidationIssue[];
+  /** Loaded files by name, for mapping issue paths to source positions */
+  sources: Map<string, YamlSource>;
+}
+
+// Records an issue and prints it; `display` overrides the printed line
+function report(
+  results: ValidationResult,
+  issue: ValidationIssue,
+  display: string = issue.message
+): void {
+  const source = issue.file ? results.sources.get(issue.file) : undefined;
+  if (source && issue.line === undefined) {
+    const { line, column } = source.positionOf(issue.path ? issue.path.split(".") : []);
+    issue = { ...issue, line, column };
+  }
+  results.issues.push(issue);
+  if (issue.severity === "error") {
+    fail(display);
+  } else {
+    warning(display);
+  }
+}
+
+// Schema and parse failures for one file, one issue per zod issue
+function reportParseError(file: string, err: unknown, results: ValidationResult): void {
+  if (err instanceof ZodError) {
+    for (const issue of err.issues) {
+      const path = issue.path.join(".");
+      report(results, {
+        file,
+        path,
+        code: issue.code.toUpperCase(),
+        severity: "error",
+        // Unknown top-level keys have an empty path
+        message: path ? `${file}: ${path} — ${issue.message}` : `${file}: ${issue.message}`,
+      });
+    }
+    return;
+  }
+  if (err instanceof YAMLException) {
+    // js-yaml marks are 0-based
+    report(results, {
+      file,
+      path: "",
+      code: "YAML_PARSE_ERROR",
+      severity: "error",
+      message: `${file}: ${err.reason}`,
+      line: err.mark.line + 1,
+      column: err.mark.column + 1,
+    });
+    return;
+  }
+  report(results, {
+    file,
+    path: "",
+    code: err instanceof SpokeError ? err.code : "PARSE_ERROR",
+    severity: "error",
+    message: `${file}: ${err instanceof Error ? err.message : String(err)}`,
+  });
+}
+
+// A declared fingerprint must be the hash of the key it sits next to
+function validateKeyFingerprint(
+  file: string,
+  section: string,
+  key: { publicKey: string; fingerprint?: string },
+  results: ValidationResult
+): void {
+  let fingerprint: string;
+  try {
+    fingerprint = parseSshPublicKey(key.publicKey).fingerprint;
+  } catch (err) {
+    report(results, {
+      file,
+      path: `${section}.publicKey`,
+      code: "INVALID_PUBLIC_KEY",
+      severity: "error",
+      message: `${file}: ${section}.publicKey is not a valid SSH public key — ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return;
+  }
+  if (!key.fingerprint) return;
+  if (key.fingerprint === fingerprint) {
+    success(`${section}.fingerprint matches ${section}.publicKey`);
+  } else {
+    report(results, {
+      file,
+      path: `${section}.fingerprint`,
+      code: "FINGERPRINT_KEY_MISMATCH",
+      severity: "error",
+      message: `${file}: ${section}.fingerprint is not the fingerprint of ${section}.publicKey (${fingerprint})`,
+    });
+  }
+}
+
+function reportSchemaVersion(
+  kind: SchemaKind,
+  parsed: ParsedDocument<unknown>,
+  results: ValidationResult
+): void {
+  if (parsed.deprecated) {
+    const msg = deprecationWarning(kind, parsed.version);
+    report(
+      results,
+      {
+        file: `${kind}.yaml`,
+        path: "schemaVersion",
+        code: "DEPRECATED_SCHEMA_VERSION",
+        severity: "warning",
+        message: `${kind}.yaml: ${msg}`,
+      },
+      msg
+    );
+  } else if (parsed.migrated) {
+    success(
+      `Schema version ${parsed.version} (current ${currentVersion(kind)} — 'hive-spoke migrate' upgrades)`
+    );
+  }
 }
 
 function validateManifest(
@@ -27,90 +191,111 @@ function validateManifest(
   header(".collab/manifest.yaml");
 
   if (!yamlExists(path)) {
-    results.errors.push("manifest.yaml not found");
-    fail("File not found");
+    report(
+      results,
+      {
+        file: "manifest.yaml",
+        path: "",
+        code: "FILE_NOT_FOUND",
+        severity: "error",
+        message: "manifest.yaml not found",
+      },
+      "File not found"
+    );
     return null;
   }
 
   try {
-    const raw = loadYaml(path);
-    const manifest = ManifestSchema.parse(raw);
+    const source = loadYamlWithPositions(path);
+    results.sources.set("manifest.yaml", source);
+    const parsed = parseDocument("manifest", source.data);
+    const manifest = parsed.data;
     success("Schema valid");
+    reportSchemaVersion("manifest", parsed, results);
     success(`Name: ${manifest.name}`);
-    success(`Hub: ${manifest.hub}`);
+    for (const target of manifest.hubs) {
+      success(`Hub: ${target.hub} (project ${target.project})`);
+    }
     success(`License: ${manifest.license}`);
     success(`Identity: ${manifest.identity.handle}`);
 
-    if (manifest.identity.publicKey.includes("<your-public-key-here>")) {
-      results.warnings.push("manifest.yaml: publicKey is still a placeholder");
-      warning("publicKey is a placeholder — update with your Ed25519 key");
+    if (isPlaceholder(manifest.identity.publicKey)) {
+      report(
+        results,
+        {
+          file: "manifest.yaml",
+          path: "identity.publicKey",
+          code: "PLACEHOLDER_KEY",
+          severity: "warning",
+          message: "manifest.yaml: publicKey is still a placeholder",
+        },
+        "publicKey is a placeholder — update with your Ed25519 key"
+      );
+    } else {
+      validateKeyFingerprint("manifest.yaml", "identity", manifest.identity, results);
     }
 
     return manifest;
   } catch (err) {
-    if (err instanceof ZodError) {
-      for (const issue of err.issues) {
-        const path = issue.path.join(".");
-        const msg = `manifest.yaml: ${path} — ${issue.message}`;
-        results.errors.push(msg);
-        fail(msg);
-      }
-    } else {
-      const msg = `manifest.yaml: ${err instanceof Error ? err.message : String(err)}`;
-      results.errors.push(msg);
-      fail(msg);
-    }
+    reportParseError("manifest.yaml", err, results);
     return null;
   }
 }
 
 function validateStatus(
   collabDir: string,
-  results: ValidationResult
+  results: ValidationResult,
+  maxStalenessDays: number
 ): SpokeStatus | null {
   const path = join(collabDir, "status.yaml");
   header(".collab/status.yaml");
 
   if (!yamlExists(path)) {
-    results.warnings.push("status.yaml not found — run 'hive-spoke status' to generate");
-    warning("File not found — run 'hive-spoke status' to generate");
+    report(
+      results,
+      {
+        file: "status.yaml",
+        path: "",
+        code: "FILE_NOT_FOUND",
+        severity: "warning",
+        message: "status.yaml not found — run 'hive-spoke status' to generate",
+      },
+      "File not found — run 'hive-spoke status' to generate"
+    );
     return null;
   }
 
   try {
-    const raw = loadYaml(path);
-    const status = StatusSchema.parse(raw);
+    const source = loadYamlWithPositions(path);
+    results.sources.set("status.yaml", source);
+    const parsed = parseDocument("status", source.data);
+    const status = parsed.data;
     success("Schema valid");
+    reportSchemaVersion("status", parsed, results);
     success(`Phase: ${status.phase}`);
     success(`Tests: ${status.tests.passing} passing, ${status.tests.failing} failing`);
     success(`Git: ${status.git.branch}, dirty=${status.git.dirty}`);
 
-    // Check freshness
+    // Check freshness against the strictest hub policy
     const generatedDate = new Date(status.generatedAt);
     const daysSince = (Date.now() - generatedDate.getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSince > 7) {
-      results.warnings.push(
-        `status.yaml: generated ${Math.floor(daysSince)} days ago — consider regenerating`
-      );
-      warning(
+    if (daysSince > maxStalenessDays) {
+      report(
+        results,
+        {
+          file: "status.yaml",
+          path: "generatedAt",
+          code: "STALE_STATUS",
+          severity: "warning",
+          message: `status.yaml: generated ${Math.floor(daysSince)} days ago — consider regenerating`,
+        },
         `Generated ${Math.floor(daysSince)} days ago — run 'hive-spoke status' to refresh`
       );
     }
 
     return status;
   } catch (err) {
-    if (err instanceof ZodError) {
-      for (const issue of err.issues) {
-        const path = issue.path.join(".");
-        const msg = `status.yaml: ${path} — ${issue.message}`;
-        results.errors.push(msg);
-        fail(msg);
-      }
-    } else {
-      const msg = `status.yaml: ${err instanceof Error ? err.message : String(err)}`;
-      results.errors.push(msg);
-      fail(msg);
-    }
+    reportParseError("status.yaml", err, results);
     return null;
   }
 }
@@ -123,32 +308,40 @@ function validateOperator(
   header(".collab/operator.yaml");
 
   if (!yamlExists(path)) {
-    results.warnings.push("operator.yaml not found");
-    warning("File not found — optional but recommended");
+    report(
+      results,
+      {
+        file: "operator.yaml",
+        path: "",
+        code: "FILE_NOT_FOUND",
+        severity: "warning",
+        message: "operator.yaml not found",
+      },
+      "File not found — optional but recommended"
+    );
     return null;
   }
 
   try {
-    const raw = loadYaml(path);
-    const operator = OperatorSchema.parse(raw);
+    const source = loadYamlWithPositions(path);
+    results.sources.set("operator.yaml", source);
+    const parsed = parseDocument("operator", source.data);
+    const operator = parsed.data;
     success("Schema valid (Tier 1 + Tier 2)");
+    reportSchemaVersion("operator", parsed, results);
     success(`Handle: ${operator.handle}`);
     success(`Skills: ${operator.skills.length > 0 ? operator.skills.join(", ") : "none declared"}`);
     success(`Hives: ${operator.hives.length}`);
+    if (!isPlaceholder(operator.signing.publicKey)) {
+      validateKeyFingerprint("operator.yaml", "signing", operator.signing, results);
+    }
+    for (const { tier, audience, fields } of tierExposure(operator)) {
+      success(`Tier ${tier} → ${audience}: ${fields.join(", ") || "nothing"}`);
+    }
+    log("    Tier 3 (private) → never projected; keep it in the local blackboard");
     return operator;
   } catch (err) {
-    if (err instanceof ZodError) {
-      for (const issue of err.issues) {
-        const path = issue.path.join(".");
-        const msg = `operator.yaml: ${path} — ${issue.message}`;
-        results.errors.push(msg);
-        fail(msg);
-      }
-    } else {
-      const msg = `operator.yaml: ${err instanceof Error ? err.message : String(err)}`;
-      results.errors.push(msg);
-      fail(msg);
-    }
+    reportParseError("operator.yaml", err, results);
     return null;
   }
 }
@@ -164,22 +357,63 @@ async function validateSigning(
   if (signing.format === "ssh") {
     success("gpg.format = ssh");
   } else {
-    results.warnings.push("gpg.format is not 'ssh' — commit signing may not work");
-    warning(`gpg.format = ${signing.format ?? "not set"}`);
+    report(
+      results,
+      {
+        file: null,
+        path: "gpg.format",
+        code: "SIGNING_FORMAT_NOT_SSH",
+        severity: "warning",
+        message: "gpg.format is not 'ssh' — commit signing may not work",
+      },
+      `gpg.format = ${signing.format ?? "not set"}`
+    );
   }
 
   if (signing.gpgSign) {
     success("commit.gpgSign = true");
   } else {
-    results.warnings.push("commit.gpgSign is not true — commits won't be signed automatically");
-    warning("commit.gpgSign is not true");
+    report(
+      results,
+      {
+        file: null,
+        path: "commit.gpgSign",
+        code: "AUTO_SIGN_DISABLED",
+        severity: "warning",
+        message: "commit.gpgSign is not true — commits won't be signed automatically",
+      },
+      "commit.gpgSign is not true"
+    );
   }
 
-  if (signing.signingKey) {
-    success(`Signing key configured: ${signing.signingKey}`);
+  if (signing.source === "file" || signing.source === "literal") {
+    success(
+      signing.source === "file"
+        ? `Signing key configured: ${signing.signingKey}`
+        : "Signing key configured: public key literal (agent-held)"
+    );
+    if (!signing.publicKey) {
+      report(results, {
+        file: null,
+        path: "user.signingKey",
+        code: "SIGNING_KEY_UNREADABLE",
+        severity: "warning",
+        message:
+          signing.source === "file"
+            ? `No readable public key for ${signing.keyPath} — expected a .pub file next to it`
+            : "user.signingKey literal is not a valid SSH public key",
+      });
+    }
+  } else if (signing.source === "agent") {
+    success("Signing key from gpg.ssh.defaultKeyCommand (agent-held)");
   } else {
-    results.warnings.push("No signing key configured");
-    warning("No signing key configured");
+    report(results, {
+      file: null,
+      path: "user.signingKey",
+      code: "NO_SIGNING_KEY",
+      severity: "warning",
+      message: "No signing key configured",
+    });
   }
 
   if (signing.fingerprint) {
@@ -190,10 +424,15 @@ async function validateSigning(
       if (signing.fingerprint === manifest.identity.fingerprint) {
         success("Fingerprint matches manifest.yaml");
       } else {
-        results.warnings.push(
-          "Signing key fingerprint does not match manifest.yaml identity.fingerprint"
-        );
-        warning(
+        report(
+          results,
+          {
+            file: "manifest.yaml",
+            path: "identity.fingerprint",
+            code: "FINGERPRINT_MISMATCH",
+            severity: "warning",
+            message: "Signing key fingerprint does not match manifest.yaml identity.fingerprint",
+          },
           `Mismatch: git key ${signing.fingerprint} vs manifest ${manifest.identity.fingerprint}`
         );
       }
@@ -201,6 +440,53 @@ async function validateSigning(
   }
 }
 
+async function validateReflexes(
+  manifest: Manifest,
+  cwd: string,
+  results: ValidationResult
+): Promise<void> {
+  header("Security reflexes (Layer 3: Attested vs Layer 2: Detected)");
+
+  const claims = manifest.security.reflexes;
+  const probes = await probeReflexes(cwd);
+
+  for (const name of REFLEX_NAMES) {
+    const claimed = claims[name];
+    const { detected, evidence } = probes[name];
+    const detail = evidence.length > 0 ? ` (${evidence.join("; ")})` : "";
+
+    if (claimed && detected) {
+      success(`${name}: claimed, detected${detail}`);
+    } else if (claimed) {
+      report(
+        results,
+        {
+          file: "manifest.yaml",
+          path: `security.reflexes.${name}`,
+          code: "REFLEX_NOT_DETECTED",
+          severity: "warning",
+          message: `${name}: claimed active in manifest.yaml but not detected`,
+        },
+        `${name}: claimed but NOT detected${detail}`
+      );
+    } else if (detected) {
+      report(
+        results,
+        {
+          file: "manifest.yaml",
+          path: `security.reflexes.${name}`,
+          code: "REFLEX_NOT_CLAIMED",
+          severity: "warning",
+          message: `${name}: detected but not claimed — set security.reflexes.${name}: true`,
+        },
+        `${name}: detected but not claimed${detail}`
+      );
+    } else {
+      warning(`${name}: not active`);
+    }
+  }
+}
+
 function validateCrossFile(
   manifest: Manifest | null,
   operator: Operator | null,
@@ -219,20 +505,219 @@ function validateCrossFile(
         `Handle matches: manifest.identity.handle = operator.handle = "${operator.handle}"`
       );
     } else {
-      results.errors.push(
-        `Handle mismatch: manifest "${manifest.identity.handle}" vs operator "${operator.handle}"`
-      );
-      fail(
-        `Handle mismatch: manifest "${manifest.identity.handle}" vs operator "${operator.handle}"`
-      );
+      report(results, {
+        file: "operator.yaml",
+        path: "handle",
+        code: "HANDLE_MISMATCH",
+        severity: "error",
+        message: `Handle mismatch: manifest "${manifest.identity.handle}" vs operator "${operator.handle}"`,
+      });
     }
 
-    if (manifest.identity.publicKey === operator.signing.publicKey) {
+    if (sameKey(manifest.identity.publicKey, operator.signing.publicKey)) {
       success("Public key matches between manifest and operator");
     } else {
-      results.errors.push("Public key mismatch between manifest.yaml and operator.yaml");
-      fail("Public key mismatch between manifest.yaml and operator.yaml");
+      report(results, {
+        file: "operator.yaml",
+        path: "signing.publicKey",
+        code: "PUBLIC_KEY_MISMATCH",
+        severity: "error",
+        message: "Public key mismatch between manifest.yaml and operator.yaml",
+      });
     }
+
+    // Every hub the spoke projects to must be one the operator has joined
+    const joined = new Set(operator.hives.map((h) => h.hive));
+    manifest.hubs.forEach((target, i) => {
+      if (joined.has(target.hub)) {
+        success(`Hub ${target.hub} is in operator.hives`);
+      } else {
+        report(results, {
+          file: "manifest.yaml",
+          path: `hubs.${i}.hub`,
+          code: "HUB_NOT_JOINED",
+          severity: "error",
+          message: `Hub ${target.hub} has no operator.hives entry — add it to operator.yaml or run 'hive-spoke init --adopt --hub ${target.hub}'`,
+        });
+      }
+    });
+  }
+}
+
+// rotations.yaml is optional; when present every statement must verify and
+// the chain must end at the manifest key
+async function validateRotations(
+  collabDir: string,
+  manifest: Manifest | null,
+  results: ValidationResult
+): Promise<void> {
+  const path = join(collabDir, ROTATIONS_FILE);
+  if (!yamlExists(path)) return;
+  header(`.collab/${ROTATIONS_FILE}`);
+
+  try {
+    const source = loadYamlWithPositions(path);
+    results.sources.set(ROTATIONS_FILE, source);
+    const { rotations, handle } = parseDocument("rotations", source.data).data;
+    success(`Schema valid — ${rotations.length} rotation(s)`);
+
+    const issue = (path: string, code: string, message: string) =>
+      report(results, { file: ROTATIONS_FILE, path, code, severity: "error", message });
+
+    if (manifest && handle !== manifest.identity.handle) {
+      issue(
+        "handle",
+        "HANDLE_MISMATCH",
+        `Rotations are bound to "${handle}", not "${manifest.identity.handle}"`
+      );
+    }
+    for (const [i, rotation] of rotations.entries()) {
+      const previous = rotations[i - 1];
+      if (previous && !sameKey(previous.to.publicKey, rotation.from.publicKey)) {
+        issue(
+          `rotations.${i}.from`,
+          "ROTATION_CHAIN_BROKEN",
+          `Rotation ${i + 1} does not start from the key rotation ${i} moved to`
+        );
+      }
+      const valid = await verifyWithKey(
+        rotationPayload(handle, rotation),
+        rotation.signature,
+        rotation.from.publicKey,
+        ROTATION_SIGNATURE_NAMESPACE
+      );
+      if (valid) {
+        success(`${rotation.at}: ${rotation.from.fingerprint} → ${rotation.to.fingerprint}`);
+      } else {
+        issue(
+          `rotations.${i}.signature`,
+          "ROTATION_SIGNATURE_INVALID",
+          `Rotation ${i + 1} is not signed by its from key`
+        );
+      }
+    }
+    const last = rotations[rotations.length - 1];
+    if (manifest && last && !sameKey(last.to.publicKey, manifest.identity.publicKey)) {
+      issue(
+        `rotations.${rotations.length - 1}.to`,
+        "ROTATION_KEY_MISMATCH",
+        "Latest rotation does not end at manifest.yaml identity.publicKey"
+      );
+    }
+  } catch (err) {
+    reportParseError(ROTATIONS_FILE, err, results);
+  }
+}
+
+// One policy per hub the manifest projects to; --policy applies a local
+// file to all of them instead of fetching
+async function loadHubPolicies(
+  manifest: Manifest | null,
+  policyPath: string | undefined
+): Promise<HubPolicySource[]> {
+  if (!manifest) return [];
+  if (policyPath) {
+    const policy = loadPolicy(policyPath);
+    if (!policy) throw new Error(`Policy file not found: ${policyPath}`);
+    return manifest.hubs.map(({ hub }) => ({ hub, policy, origin: policyPath }));
+  }
+  return Promise.all(
+    manifest.hubs.map(async ({ hub }): Promise<HubPolicySource> => {
+      try {
+        const policy = await fetchHubPolicy(hub);
+        return policy
+          ? { hub, policy, origin: `${hub}/${POLICY_FILE}` }
+          : { hub, policy: DEFAULT_POLICY, origin: "defaults (hub publishes no policy)" };
+      } catch (err) {
+        return {
+          hub,
+          policy: DEFAULT_POLICY,
+          origin: "defaults",
+          error: {
+            code: err instanceof SpokeError ? err.code : "POLICY_UNAVAILABLE",
+            message: err instanceof Error ? err.message : String(err),
+          },
+        };
+      }
+    })
+  );
+}
+
+function validatePolicies(
+  manifest: Manifest | null,
+  status: SpokeStatus | null,
+  operator: Operator | null,
+  policies: HubPolicySource[],
+  results: ValidationResult
+): void {
+  header("Hub policy");
+
+  if (!manifest) {
+    warning("Skipped — manifest.yaml not available");
+    return;
+  }
+
+  for (const { hub, policy, origin, error } of policies) {
+    // A policy that was never read can't be satisfied — checking the
+    // defaults instead would let CI pass against rules the hub doesn't set
+    if (error) {
+      report(results, {
+        file: null,
+        path: "",
+        code: error.code,
+        severity: "error",
+        message: `${hub}: could not load policy (pass a local copy with --policy to validate offline) — ${error.message}`,
+      });
+      continue;
+    }
+    success(`${hub}: ${origin}`);
+
+    const target = manifest.hubs.find((h) => h.hub === hub)!;
+    const violations = checkPolicy(policy, {
+      view: hubView(manifest, target),
+      manifest,
+      status,
+      operator,
+    });
+    for (const violation of violations) {
+      report(results, {
+        file: violation.file,
+        path: violation.path,
+        code: violation.code,
+        severity: "error",
+        message: `${violation.file}: ${violation.message}`,
+      });
+    }
+    if (violations.length === 0) {
+      success(`${hub}: policy satisfied`);
+    }
+  }
+}
+
+// Everything publish copies to the hub must be free of secrets and PII
+function validateSecrets(collabDir: string, results: ValidationResult): void {
+  header("Secrets and PII (pre-publish scan)");
+
+  const findings = scanCollab(collabDir);
+  for (const finding of findings) {
+    report(
+      results,
+      {
+        file: finding.file,
+        path: "",
+        code: finding.kind === "pii" ? "PII_DETECTED" : "SECRET_DETECTED",
+        severity: "error",
+        message: `${finding.file}: ${finding.description} (${finding.match}) — remove it or add it to .collab/${ALLOWLIST_FILE}`,
+        line: finding.line,
+        column: finding.column,
+      },
+      `${finding.file}:${finding.line}: ${finding.description} (${finding.match})`
+    );
+  }
+  if (findings.length === 0) {
+    success("No secrets or PII found");
+  } else {
+    log(`    Allow intended values in .collab/${ALLOWLIST_FILE}`);
   }
 }
 
@@ -244,62 +729,96 @@ export function registerValidateCommand(
     .command("validate")
     .description("Validate .collab/ files against spoke protocol schemas")
     .option("--strict", "Fail on warnings", false)
+    .option(
+      "--policy <file>",
+      `Apply a local hub policy instead of fetching each hub's ${POLICY_FILE}`
+    )
+    .option(
+      "--format <format>",
+      `Report format for CI (${OUTPUT_FORMATS.join(", ")})`,
+      parseOutputFormat,
+      "text"
+    )
     .action(
       withErrorHandling(async (opts: ValidateOptions) => {
         const cwd = process.cwd();
         const collabDir = join(cwd, ".collab");
 
-        console.log("Spoke compliance validation\n");
+        // SARIF and annotations own stdout, like --json
+        if (opts.format !== "text") setMachineOutput(true);
+
+        log("Spoke compliance validation\n");
 
-        const results: ValidationResult = { errors: [], warnings: [] };
+        const results: ValidationResult = { issues: [], sources: new Map() };
 
         // Layer 4: Structural — schema validation
         const manifest = validateManifest(collabDir, results);
-        const status = validateStatus(collabDir, results);
+        const policies = await loadHubPolicies(manifest, opts.policy);
+        const maxStalenessDays =
+          policies.length > 0
+            ? Math.min(...policies.map((p) => p.policy.maxStalenessDays))
+            : DEFAULT_POLICY.maxStalenessDays;
+        const status = validateStatus(collabDir, results, maxStalenessDays);
         const operator = validateOperator(collabDir, results);
 
         // Layer 1: Provable — signing config
         await validateSigning(manifest, results);
 
-        // Layer 3: Attested — reflex claims (just report what manifest claims)
+        // Layer 2 vs Layer 3: detected reflexes against manifest claims
         if (manifest) {
-          header("Security reflexes (Layer 3: Attested)");
-          const reflexes = manifest.security?.reflexes ?? {};
-          const reflexList: [string, boolean][] = [
-            ["signing", reflexes.signing ?? false],
-            ["secretScanning", reflexes.secretScanning ?? false],
-            ["sandboxEnforcer", reflexes.sandboxEnforcer ?? false],
-            ["contentFilter", reflexes.contentFilter ?? false],
-          ];
-
-          for (const [name, active] of reflexList) {
-            if (active) {
-              success(`${name}: claimed active`);
-            } else {
-              warning(`${name}: not active`);
-            }
-          }
+          await validateReflexes(manifest, cwd, results);
         }
 
         // Cross-file consistency
         validateCrossFile(manifest, operator, results);
+        await validateRotations(collabDir, manifest, results);
+
+        // Rules published by each target hub
+        validatePolicies(manifest, status, operator, policies, results);
+
+        validateSecrets(collabDir, results);
 
         // Summary
-        const hasErrors = results.errors.length > 0;
-        const hasWarnings = results.warnings.length > 0;
-        const strictFail = opts.strict && hasWarnings;
+        const errors = results.issues.filter((i) => i.severity === "error").length;
+        const warnings = results.issues.length - errors;
+        const strictFail = opts.strict && warnings > 0;
+        const compliant = errors === 0 && !strictFail;
 
-        if (hasErrors) {
-          result(false, `Spoke validation FAILED — ${results.errors.length} error(s)`);
+        if (errors > 0) {
           process.exitCode = 1;
         } else if (strictFail) {
-          result(false, `Spoke validation FAILED (strict) — ${results.warnings.length} warning(s)`);
           process.exitCode = 2;
+        }
+
+        if (opts.format === "sarif") {
+          console.log(JSON.stringify(toSarif(results.issues), null, 2));
+          return;
+        }
+        if (opts.format === "github") {
+          for (const line of toGithubAnnotations(results.issues)) {
+            console.log(line);
+          }
+          return;
+        }
+        if (getJsonMode()) {
+          console.log(
+            formatJson(
+              { compliant, strict: opts.strict ?? false, errors, warnings, issues: results.issues },
+              compliant
+            )
+          );
+          return;
+        }
+
+        if (errors > 0) {
+          result(false, `Spoke validation FAILED — ${errors} error(s)`);
+        } else if (strictFail) {
+          result(false, `Spoke validation FAILED (strict) — ${warnings} warning(s)`);
         } else {
           result(
             true,
-            hasWarnings
-              ? `Spoke is compliant with ${results.warnings.length} warning(s)`
+            warnings > 0
+              ? `Spoke is compliant with ${warnings} warning(s)`
               : "Spoke is compliant and ready to project to hub"
           );
         }
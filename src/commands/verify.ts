@@ -1,20 +1,84 @@
 import { Command } from "commander";
 import { join } from "path";
-import { readdirSync, existsSync, readFileSync } from "fs";
-import { $ } from "bun";
+import { existsSync } from "fs";
+import { load } from "js-yaml";
 import { withErrorHandling } from "../utils/errors";
+import {
+  createSpokeSource,
+  parseTransportKind,
+  type TransportKind,
+} from "../transport";
 import { loadYaml } from "../utils/yaml";
-import { ManifestSchema, type Manifest } from "../schemas/manifest";
-import { formatJson, success, warning, fail, header, result } from "../utils/output";
+import {
+  parseAllowedSigners,
+  sameKey,
+  type AllowedSigners,
+} from "../utils/allowed-signers";
+import {
+  checkAnchorBinding,
+  checkIdentityBinding,
+  type SignerBinding,
+} from "../keys/binding";
+import { sshFingerprint } from "../keys/ssh-key";
+import { auditCommits, type CommitAudit } from "../utils/commit-audit";
+import {
+  checkStatusAttestation,
+  STATUS_SIGNATURE_FILE,
+  STATUS_SIGNATURE_NAMESPACE,
+  verifyWithKey,
+  type AttestationState,
+} from "../utils/signing";
+import {
+  isRevoked,
+  loadRevokedKeys,
+  resolveRotationChain,
+  REVOKED_KEYS_FILE,
+  ROTATIONS_FILE,
+  type RevocationList,
+} from "../keys/rotation";
+import { hubTargetForProject, hubView, type Manifest } from "../schemas/manifest";
+import { POLICY_FILE, type HubPolicy } from "../schemas/policy";
+import { parseDocument, type SchemaKind } from "../schemas/registry";
+import { checkPolicy, type PolicyViolation } from "../policy";
+import { DEFAULT_CONCURRENCY, mapConcurrent, parseConcurrency } from "../utils/concurrency";
+import { hubPolicy, listProjects } from "../hub/spokes";
+import {
+  formatJson,
+  success,
+  warning,
+  fail,
+  header,
+  result,
+  progress,
+  clearProgress,
+  log,
+} from "../utils/output";
+
+interface VerifyIssue {
+  code: string;
+  message: string;
+}
 
 interface VerifyResult {
   project: string;
   repo: string;
+  branch: string;
   handle: string;
   fingerprint: string | null;
+  publicKey: string | null;
   inAllowedSigners: boolean;
   keyMatch: boolean;
-  issues: string[];
+  /** null when the key has no allowed-signers entry */
+  signer: SignerBinding | null;
+  attestation: AttestationState;
+  /** The manifest key is on the hub's revoked-keys list */
+  revoked: boolean;
+  /** Set when the key is trusted through rotations.yaml rather than directly */
+  rotation: { principal: string; steps: number } | null;
+  commitAudit?: CommitAudit | null;
+  /** Hub policy rules the spoke breaks; also listed in `issues` */
+  policy: PolicyViolation[];
+  issues: VerifyIssue[];
 }
 
 interface ProjectYaml {
@@ -27,52 +91,342 @@ interface ProjectYaml {
 
 interface VerifyOptions {
   allowedSigners?: string;
+  policy?: string;
+  revokedKeys: string;
+  transport?: string;
+  audit?: boolean;
+  auditDepth?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  concurrency: number;
   json?: boolean;
 }
 
-async function fetchFileFromRepo(
+async function auditSpokeCommits(
   repo: string,
-  path: string,
-  branch: string = "main"
-): Promise<string | null> {
+  branch: string,
+  transportKind: TransportKind | undefined,
+  depth: number,
+  signersPath: string,
+  publicKey: string
+): Promise<CommitAudit | null> {
+  const source = createSpokeSource(repo, transportKind);
+  try {
+    const gitDir = await source.history(branch, depth);
+    if (!gitDir) return null;
+    return await auditCommits(
+      gitDir,
+      branch,
+      depth,
+      signersPath,
+      sshFingerprint(publicKey)
+    );
+  } finally {
+    await source.dispose();
+  }
+}
+
+interface VerifyContext {
+  projectsDir: string;
+  signersPath: string;
+  allowedSigners: AllowedSigners;
+  transportKind?: TransportKind;
+  httpCacheDir?: string;
+  /** null unless --audit */
+  auditDepth: number | null;
+  policy: HubPolicy;
+  revoked: RevocationList;
+}
+
+// Parses an optional .collab file for policy checks; unreadable counts as absent
+function parseOptional<K extends SchemaKind>(kind: K, content: string | null) {
+  if (!content) return null;
   try {
-    const result =
-      await $`gh api repos/${repo}/contents/${path}?ref=${branch} --jq .content`
-        .quiet()
-        .text();
-    const base64 = result.trim();
-    if (!base64) return null;
-    return Buffer.from(base64, "base64").toString("utf-8");
+    return parseDocument(kind, load(content)).data;
   } catch {
     return null;
   }
 }
 
-function parseAllowedSigners(
-  filePath: string
-): Map<string, { email: string; keyType: string; publicKey: string }> {
-  const signers = new Map<
-    string,
-    { email: string; keyType: string; publicKey: string }
-  >();
+// Checks one project; null when it has no source repo or .collab/
+async function verifySpoke(
+  project: string,
+  ctx: VerifyContext
+): Promise<VerifyResult | null> {
+  const projectYamlPath = join(ctx.projectsDir, project, "PROJECT.yaml");
+  if (!existsSync(projectYamlPath)) return null;
+
+  const projectYaml = loadYaml<ProjectYaml>(projectYamlPath);
+  if (!projectYaml.source?.repo) return null;
+
+  const repo = projectYaml.source.repo;
+  const branch = projectYaml.source.branch ?? "main";
+
+  const source = createSpokeSource(repo, ctx.transportKind, {
+    httpCacheDir: ctx.httpCacheDir,
+  });
+  let manifestContent: string | null;
+  let statusContent: string | null = null;
+  let signature: string | null = null;
+  let operatorContent: string | null = null;
+  let rotationsContent: string | null = null;
+  try {
+    manifestContent = await source.fetchFile(".collab/manifest.yaml", branch);
+    if (manifestContent) {
+      statusContent = await source.fetchFile(".collab/status.yaml", branch);
+      signature = await source.fetchFile(
+        `.collab/${STATUS_SIGNATURE_FILE}`,
+        branch
+      );
+      operatorContent = await source.fetchFile(".collab/operator.yaml", branch);
+      rotationsContent = await source.fetchFile(`.collab/${ROTATIONS_FILE}`, branch);
+    }
+  } catch (err) {
+    return {
+      project,
+      repo,
+      branch,
+      handle: "unknown",
+      fingerprint: null,
+      publicKey: null,
+      inAllowedSigners: false,
+      keyMatch: false,
+      signer: null,
+      attestation: "unchecked",
+      revoked: false,
+      rotation: null,
+      policy: [],
+      issues: [
+        {
+          code: "FETCH_FAILED",
+          message: `Could not fetch .collab/ — ${err instanceof Error ? err.message : String(err)}`,
+        },
+      ],
+    };
+  } finally {
+    await source.dispose();
+  }
+  if (!manifestContent) return null;
+
+  let manifest: Manifest;
+  try {
+    manifest = parseDocument("manifest", load(manifestContent)).data;
+  } catch {
+    return {
+      project,
+      repo,
+      branch,
+      handle: "unknown",
+      fingerprint: null,
+      publicKey: null,
+      inAllowedSigners: false,
+      keyMatch: false,
+      signer: null,
+      attestation: "unchecked",
+      revoked: false,
+      rotation: null,
+      policy: [],
+      issues: [{ code: "INVALID_MANIFEST", message: "Invalid manifest.yaml" }],
+    };
+  }
 
-  if (!existsSync(filePath)) return signers;
+  const spokeKey = manifest.identity.publicKey;
+  const spokeFingerprint = manifest.identity.fingerprint ?? null;
+
+  // Identity binding: fingerprint, principal, validity, namespace, one key per handle
+  const binding = checkIdentityBinding(manifest, ctx.allowedSigners);
+  const issues: VerifyIssue[] = [...binding.issues];
+  const signer = binding.signer;
+  const inAllowedSigners = signer !== null;
+  const keyMatch = inAllowedSigners;
+
+  // A rotated key is trusted through signed statements back to a registered key
+  let rotation: VerifyResult["rotation"] = null;
+  const rotations = parseOptional("rotations", rotationsContent);
+  if (!inAllowedSigners && rotations) {
+    const chain = await resolveRotationChain(
+      rotations,
+      manifest.identity.handle,
+      spokeKey,
+      (key) => {
+        const anchor = checkAnchorBinding(manifest, ctx.allowedSigners, key);
+        return anchor && {
+          principal: anchor.signer.principals[0],
+          problems: anchor.issues.map((issue) => issue.message),
+        };
+      },
+      ctx.revoked
+    );
+    if (chain.accepted && chain.principal) {
+      rotation = { principal: chain.principal, steps: chain.steps };
+    } else if (chain.error) {
+      issues.push({ code: "ROTATION_REJECTED", message: `Key rotation rejected — ${chain.error}` });
+    }
+  }
+
+  if (!inAllowedSigners && !rotation) {
+    issues.push({
+      code: "KEY_NOT_REGISTERED",
+      message: "Public key NOT in allowed-signers — operator not registered on hub",
+    });
+  }
+
+  const revoked = isRevoked(ctx.revoked, spokeKey);
+  if (revoked) {
+    issues.push({
+      code: "KEY_REVOKED",
+      message: "Public key is revoked by the hub — the operator must rotate to a new key",
+    });
+  }
+
+  // Status attestation: was status.yaml produced by this key?
+  let attestation: AttestationState = statusContent
+    ? await checkStatusAttestation(
+        statusContent,
+        signature,
+        spokeKey,
+        ctx.allowedSigners,
+        ctx.signersPath
+      )
+    : "unsigned";
+  if (attestation === "unregistered" && rotation && statusContent && signature) {
+    attestation = (await verifyWithKey(
+      statusContent,
+      signature,
+      spokeKey,
+      STATUS_SIGNATURE_NAMESPACE
+    ))
+      ? "verified"
+      : "forged";
+  }
+
+  if (statusContent && attestation === "unsigned") {
+    issues.push({
+      code: "STATUS_UNSIGNED",
+      message: `status.yaml is unsigned — no ${STATUS_SIGNATURE_FILE} attestation`,
+    });
+  } else if (attestation === "forged") {
+    issues.push({
+      code: "STATUS_FORGED",
+      message:
+        "status.yaml signature does not verify against the manifest key — snapshot may be forged",
+    });
+  }
+
+  // Commit audit: is the signing reflex provable from history?
+  let commitAudit: CommitAudit | null | undefined;
+  if (ctx.auditDepth !== null) {
+    commitAudit = await auditSpokeCommits(
+      repo,
+      branch,
+      ctx.transportKind,
+      ctx.auditDepth,
+      ctx.signersPath,
+      spokeKey
+    );
+    if (!commitAudit) {
+      issues.push({ code: "HISTORY_UNAVAILABLE", message: `Could not fetch commit history for ${branch}` });
+    } else {
+      if (commitAudit.unknownSigner > 0) {
+        issues.push({
+          code: "COMMITS_UNKNOWN_SIGNER",
+          message: `${commitAudit.unknownSigner} of ${commitAudit.total} recent commit(s) signed by keys outside allowed-signers`,
+        });
+      }
+      if (commitAudit.invalid > 0) {
+        issues.push({
+          code: "COMMITS_INVALID_SIGNATURE",
+          message: `${commitAudit.invalid} of ${commitAudit.total} recent commit(s) have invalid signatures`,
+        });
+      }
+      if (
+        manifest.security.reflexes.signing &&
+        commitAudit.signedByManifestKey < commitAudit.total
+      ) {
+        issues.push({
+          code: "SIGNING_REFLEX_UNPROVEN",
+          message: `Signing reflex claimed, but only ${commitAudit.signedByManifestKey} of ${commitAudit.total} recent commit(s) are signed by the manifest key (${commitAudit.unsigned} unsigned)`,
+        });
+      }
+    }
+  }
 
-  const content = readFileSync(filePath, "utf-8");
+  const policy = checkPolicy(ctx.policy, {
+    view: hubView(manifest, hubTargetForProject(manifest, project)),
+    manifest,
+    status: parseOptional("status", statusContent),
+    operator: parseOptional("operator", operatorContent),
+  });
+  for (const violation of policy) {
+    issues.push({ code: violation.code, message: `Policy: ${violation.message}` });
+  }
 
-  for (const line of content.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith("#")) continue;
+  return {
+    project,
+    repo,
+    branch,
+    handle: manifest.identity.handle,
+    fingerprint: spokeFingerprint,
+    publicKey: spokeKey,
+    inAllowedSigners,
+    keyMatch,
+    signer,
+    attestation,
+    revoked,
+    rotation,
+    ...(ctx.auditDepth !== null ? { commitAudit } : {}),
+    policy,
+    issues,
+  };
+}
 
-    const parts = trimmed.split(/\s+/);
-    if (parts.length >= 3) {
-      const [email, keyType, publicKey] = parts;
-      const fullKey = `${keyType} ${publicKey}`;
-      signers.set(email, { email, keyType, publicKey: fullKey });
+// One key per handle across the hub: spokes claiming the same handle with
+// different keys cannot all be that operator
+function flagHandleConflicts(results: VerifyResult[]): void {
+  const byHandle = new Map<string, VerifyResult[]>();
+  for (const r of results) {
+    if (!r.publicKey) continue;
+    byHandle.set(r.handle, [...(byHandle.get(r.handle) ?? []), r]);
+  }
+  for (const [handle, group] of byHandle) {
+    for (const r of group) {
+      const others = group.filter((o) => !sameKey(o.publicKey ?? "", r.publicKey ?? ""));
+      if (others.length === 0) continue;
+      r.issues.push({
+        code: "HANDLE_KEY_CONFLICT",
+        message: `@${handle} claims a different key in ${others.map((o) => o.project).join(", ")}`,
+      });
     }
   }
+}
 
-  return signers;
+function printVerifyResult(r: VerifyResult): void {
+  const icon = r.issues.length === 0 ? "\u2713" : "\u2717";
+  log(
+    `  ${icon} ${r.project} | @${r.handle} | ${r.repo} | ${r.fingerprint ?? "no fingerprint"}`
+  );
+  if (r.signer) {
+    success(`  Key found in allowed-signers (${r.signer.principals.join(", ")})`);
+  } else if (r.rotation) {
+    success(
+      `  Key rotated from ${r.rotation.principal}'s registered key (${r.rotation.steps} signed rotation(s))`
+    );
+  } else {
+    fail("  Key NOT in allowed-signers");
+  }
+  if (r.attestation === "verified") {
+    success("  status.yaml signature verified");
+  }
+  if (r.commitAudit) {
+    const audit = r.commitAudit;
+    const share = Math.round(audit.manifestKeyShare * 100);
+    log(
+      `    Commits (${r.branch}, last ${audit.total}): ${share}% signed by manifest key, ${audit.unsigned} unsigned, ${audit.unknownSigner} unknown signer, ${audit.otherSigner} other registered signer`
+    );
+  }
+  for (const issue of r.issues) {
+    log(`    ! ${issue.message}`);
+  }
 }
 
 export function registerVerifyCommand(
@@ -82,16 +436,34 @@ export function registerVerifyCommand(
   parent
     .command("verify")
     .description(
-      "Cross-reference spoke signing keys against hub allowed-signers"
+      "Cross-reference spoke signing keys and status signatures against hub allowed-signers"
     )
     .option(
       "--allowed-signers <path>",
       "Path to allowed-signers file",
       ".hive/allowed-signers"
     )
+    .option("--policy <path>", "Hub policy applied to each spoke", POLICY_FILE)
+    .option("--revoked-keys <path>", "Keys the hub no longer trusts", REVOKED_KEYS_FILE)
+    .option("--transport <kind>", "Force spoke transport (github, git, local)")
+    .option("--audit", "Audit commit signatures on each spoke's source branch", false)
+    .option("--audit-depth <n>", "Number of recent commits to audit", "20")
+    .option("--cache-dir <dir>", "Where cached API responses are stored", ".hive/cache")
+    .option("--no-cache", "Do not reuse cached API responses (ETags)")
+    .option(
+      "--concurrency <n>",
+      "Spokes verified in parallel",
+      parseConcurrency,
+      DEFAULT_CONCURRENCY
+    )
     .action(
       withErrorHandling(async (opts: VerifyOptions) => {
         const json = getJsonMode();
+        const transportKind = parseTransportKind(opts.transport);
+        const auditDepth = parseInt(opts.auditDepth ?? "20", 10);
+        if (opts.audit && (!Number.isInteger(auditDepth) || auditDepth < 1)) {
+          throw new Error(`Invalid --audit-depth: "${opts.auditDepth}". Must be a positive integer.`);
+        }
         const cwd = process.cwd();
         const projectsDir = join(cwd, "projects");
         const signersPath = join(
@@ -99,12 +471,6 @@ export function registerVerifyCommand(
           opts.allowedSigners ?? ".hive/allowed-signers"
         );
 
-        if (!existsSync(projectsDir)) {
-          throw new Error(
-            "No projects/ directory found. Run this from the hub repo root."
-          );
-        }
-
         if (!existsSync(signersPath)) {
           throw new Error(
             `allowed-signers file not found at ${signersPath}. Use --allowed-signers to specify path.`
@@ -115,116 +481,39 @@ export function registerVerifyCommand(
 
         const allowedSigners = parseAllowedSigners(signersPath);
         success(
-          `Loaded ${allowedSigners.size} signer(s) from ${opts.allowedSigners ?? ".hive/allowed-signers"}`
+          `Loaded ${allowedSigners.signers.length} signer(s) from ${opts.allowedSigners ?? ".hive/allowed-signers"}`
         );
-        console.log("");
-
-        const projects = readdirSync(projectsDir, { withFileTypes: true })
-          .filter((d) => d.isDirectory())
-          .map((d) => d.name)
-          .sort();
-
-        const results: VerifyResult[] = [];
-
-        for (const project of projects) {
-          const projectYamlPath = join(
-            projectsDir,
-            project,
-            "PROJECT.yaml"
-          );
-          if (!existsSync(projectYamlPath)) continue;
-
-          const projectYaml = loadYaml<ProjectYaml>(projectYamlPath);
-          if (!projectYaml.source?.repo) continue;
-
-          const repo = projectYaml.source.repo;
-          const branch = projectYaml.source.branch ?? "main";
+        for (const error of allowedSigners.errors) {
+          warning(`Line ${error.line} skipped — ${error.message}`);
+        }
+        log("");
+
+        const projects = listProjects(projectsDir);
+        const ctx: VerifyContext = {
+          projectsDir,
+          signersPath,
+          allowedSigners,
+          transportKind,
+          httpCacheDir: opts.cache
+            ? join(cwd, opts.cacheDir ?? ".hive/cache", "http")
+            : undefined,
+          auditDepth: opts.audit ? auditDepth : null,
+          policy: hubPolicy(cwd, opts.policy),
+          revoked: loadRevokedKeys(join(cwd, opts.revokedKeys)),
+        };
+
+        const checked = await mapConcurrent(
+          projects,
+          opts.concurrency,
+          (project) => verifySpoke(project, ctx),
+          json ? undefined : progress
+        );
+        if (!json) clearProgress();
+        const results = checked.filter((r): r is VerifyResult => r !== null);
+        flagHandleConflicts(results);
 
-          const manifestContent = await fetchFileFromRepo(
-            repo,
-            ".collab/manifest.yaml",
-            branch
-          );
-          if (!manifestContent) continue;
-
-          let manifest: Manifest;
-          try {
-            const { load } = await import("js-yaml");
-            const raw = load(manifestContent);
-            manifest = ManifestSchema.parse(raw);
-          } catch {
-            results.push({
-              project,
-              repo,
-              handle: "unknown",
-              fingerprint: null,
-              inAllowedSigners: false,
-              keyMatch: false,
-              issues: ["Invalid manifest.yaml"],
-            });
-            continue;
-          }
-
-          const issues: string[] = [];
-          const spokeKey = manifest.identity.publicKey;
-          const spokeFingerprint = manifest.identity.fingerprint ?? null;
-
-          let inAllowedSigners = false;
-          let keyMatch = false;
-
-          for (const [_email, signer] of allowedSigners) {
-            const spokeKeyParts = spokeKey.split(/\s+/);
-            const signerKeyParts = signer.publicKey.split(/\s+/);
-            if (
-              spokeKeyParts.length >= 2 &&
-              signerKeyParts.length >= 2 &&
-              spokeKeyParts[0] === signerKeyParts[0] &&
-              spokeKeyParts[1] === signerKeyParts[1]
-            ) {
-              inAllowedSigners = true;
-              keyMatch = true;
-              break;
-            }
-          }
-
-          if (!inAllowedSigners) {
-            issues.push(
-              "Public key NOT in allowed-signers — operator not registered on hub"
-            );
-          }
-
-          if (!spokeFingerprint) {
-            issues.push(
-              "No fingerprint in manifest — cannot verify key binding"
-            );
-          }
-
-          const verifyResult: VerifyResult = {
-            project,
-            repo,
-            handle: manifest.identity.handle,
-            fingerprint: spokeFingerprint,
-            inAllowedSigners,
-            keyMatch,
-            issues,
-          };
-
-          results.push(verifyResult);
-
-          if (!json) {
-            const icon = issues.length === 0 ? "\u2713" : "\u2717";
-            console.log(
-              `  ${icon} ${project} | @${manifest.identity.handle} | ${repo} | ${spokeFingerprint ?? "no fingerprint"}`
-            );
-            if (inAllowedSigners) {
-              success("  Key found in allowed-signers");
-            } else {
-              fail("  Key NOT in allowed-signers");
-            }
-            for (const issue of issues) {
-              console.log(`    ! ${issue}`);
-            }
-          }
+        if (!json) {
+          for (const r of results) printVerifyResult(r);
         }
 
         if (json) {
@@ -236,6 +525,7 @@ export function registerVerifyCommand(
               total: results.length,
               verified,
               unverified: results.length - verified,
+              revoked: results.filter((r) => r.revoked).length,
               results,
             })
           );
@@ -246,11 +536,15 @@ export function registerVerifyCommand(
           (r) => r.issues.length === 0
         ).length;
         const unverified = results.length - verified;
+        const revoked = results.filter((r) => r.revoked).length;
 
-        console.log(
+        log(
           `\n  ${results.length} spoke(s) checked, ${verified} verified, ${unverified} with issues`
         );
 
+        if (revoked > 0) {
+          fail(`${revoked} spoke(s) still use a revoked key`);
+        }
         if (unverified > 0) {
           warning(
             "Unverified spokes should add their key to .hive/allowed-signers via signed PR"
@@ -0,0 +1,131 @@
+// Validation issues and their CI renderings: SARIF for code scanning and
+// workflow commands for GitHub Actions annotations
+
+import { version } from "../version";
+
+export const OUTPUT_FORMATS = ["text", "sarif", "github"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  /** .collab/ file the issue is about; null for git config checks */
+  file: string | null;
+  /** Dotted field path within the file; empty for file-level issues */
+  path: string;
+  code: string;
+  severity: IssueSeverity;
+  message: string;
+  /** 1-based source position, when the file could be read */
+  line?: number;
+  column?: number;
+}
+
+// The subset of SARIF 2.1.0 that toSarif emits
+export interface SarifResult {
+  ruleId: string;
+  level: IssueSeverity;
+  message: { text: string };
+  locations?: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number };
+    };
+    logicalLocations?: { fullyQualifiedName: string }[];
+  }[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: { name: string; version: string; informationUri: string; rules: { id: string }[] };
+    };
+    results: SarifResult[];
+  }[];
+}
+
+const COLLAB_DIR = ".collab";
+
+function artifactPath(file: string): string {
+  return `${COLLAB_DIR}/${file}`;
+}
+
+export function parseOutputFormat(value: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown format "${value}". Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return value as OutputFormat;
+}
+
+// SARIF 2.1.0 log with one rule per issue code
+export function toSarif(issues: ValidationIssue[]): SarifLog {
+  const rules = [...new Set(issues.map((i) => i.code))].map((id) => ({ id }));
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "hive-spoke",
+            version,
+            informationUri: "https://github.com/mellanon/hive-spoke",
+            rules,
+          },
+        },
+        results: issues.map((issue): SarifResult => ({
+          ruleId: issue.code,
+          level: issue.severity,
+          message: { text: issue.message },
+          ...(issue.file
+            ? {
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: artifactPath(issue.file) },
+                      ...(issue.line
+                        ? { region: { startLine: issue.line, startColumn: issue.column ?? 1 } }
+                        : {}),
+                    },
+                    ...(issue.path
+                      ? { logicalLocations: [{ fullyQualifiedName: issue.path }] }
+                      : {}),
+                  },
+                ],
+              }
+            : {}),
+        })),
+      },
+    ],
+  };
+}
+
+// Workflow command escaping, see
+// https://github.com/actions/toolkit/blob/main/packages/core/src/command.ts
+function escapeData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+// One `::error file=...,line=N::message` line per issue
+export function toGithubAnnotations(issues: ValidationIssue[]): string[] {
+  return issues.map((issue) => {
+    const props: string[] = [];
+    if (issue.file) {
+      props.push(`file=${escapeProperty(artifactPath(issue.file))}`);
+      if (issue.line) {
+        props.push(`line=${issue.line}`);
+        if (issue.column) props.push(`col=${issue.column}`);
+      }
+    }
+    props.push(`title=${escapeProperty(issue.code)}`);
+    return `::${issue.severity} ${props.join(",")}::${escapeData(issue.message)}`;
+  });
+}
@@ -0,0 +1,95 @@
+import type { HealthState } from "../schemas/status";
+
+export interface HealthResult {
+  state: HealthState;
+  /** null when the check was killed (timeout or signal) */
+  exitCode: number | null;
+  durationMs: number;
+  timedOut: boolean;
+  /** Last lines of combined stdout/stderr */
+  output: string;
+}
+
+export const DEFAULT_HEALTH_TIMEOUT_SEC = 30;
+
+const TAIL_LINES = 20;
+const TAIL_CHARS = 2000;
+
+export function outputTail(output: string): string {
+  const lines = output.trimEnd().split("\n").slice(-TAIL_LINES).join("\n");
+  return lines.length > TAIL_CHARS ? lines.slice(-TAIL_CHARS) : lines.trim();
+}
+
+// healthy  — exit 0 within half the timeout
+// degraded — exit 0, but slower than half the timeout
+// failing  — non-zero exit, timeout, or the command could not run
+export function classifyHealth(
+  exitCode: number | null,
+  durationMs: number,
+  timeoutMs: number
+): HealthState {
+  if (exitCode !== 0) return "failing";
+  return durationMs > timeoutMs / 2 ? "degraded" : "healthy";
+}
+
+async function drain(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  sink: string[]
+): Promise<void> {
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      sink.push(decoder.decode(value, { stream: true }));
+    }
+  } catch {
+    // Cancelled after a timeout
+  }
+}
+
+export async function runHealthCheck(
+  command: string,
+  cwd: string,
+  timeoutSec: number = DEFAULT_HEALTH_TIMEOUT_SEC
+): Promise<HealthResult> {
+  const timeoutMs = timeoutSec * 1000;
+  const started = Date.now();
+  const chunks: string[] = [];
+
+  const proc = Bun.spawn(["sh", "-c", command], {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const readers = [proc.stdout.getReader(), proc.stderr.getReader()];
+  const finished = Promise.all([
+    proc.exited,
+    ...readers.map((r) => drain(r, chunks)),
+  ]);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = await Promise.race([
+    finished.then(() => false),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (timedOut) {
+    proc.kill();
+    // Grandchildren may still hold the pipes open — stop reading
+    await Promise.all(readers.map((r) => r.cancel().catch(() => {})));
+  }
+
+  const durationMs = Date.now() - started;
+  const exitCode = timedOut || proc.signalCode ? null : proc.exitCode;
+  return {
+    state: timedOut ? "failing" : classifyHealth(exitCode, durationMs, timeoutMs),
+    exitCode,
+    durationMs,
+    timedOut,
+    output: outputTail(chunks.join("")),
+  };
+}
@@ -0,0 +1,184 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { SpokeEntry } from "./spokes";
+
+// On-disk layout (JSON, one file per distinct snapshot):
+//   <root>/pulls.json                             — log of pull runs
+//   <root>/projects/<project>/<generatedAt>.json  — CachedSnapshot
+// <project> is the hub's projects/ directory, never a spoke-supplied name.
+// Status-less snapshots are stored as never@<firstSeen>.json.
+
+export interface CachedSnapshot {
+  /** When this snapshot was first seen by a pull */
+  firstSeen: string;
+  entry: SpokeEntry;
+}
+
+// A fetched spoke keyed by the hub directory it is listed under; the
+// entry's own project id comes from the spoke and can't be trusted as a key
+export interface PulledSpoke {
+  project: string;
+  entry: SpokeEntry;
+}
+
+export interface PullRecord {
+  pulledAt: string;
+  projects: string[];
+}
+
+export interface HistoryEvent {
+  at: string;
+  project: string;
+  change: string;
+}
+
+// Injective and path-safe: "." is escaped too, so "." and ".." can't
+// appear, and a literal "%" is already "%25"
+function fileName(value: string): string {
+  return encodeURIComponent(value).replace(/\./g, "%2E");
+}
+
+function hasStatus(entry: SpokeEntry): boolean {
+  return !isNaN(Date.parse(entry.generatedAt));
+}
+
+export class HubCache {
+  constructor(private readonly root: string) {}
+
+  private get pullsPath(): string {
+    return join(this.root, "pulls.json");
+  }
+
+  private snapshotDir(project: string): string {
+    return join(this.root, "projects", fileName(project));
+  }
+
+  pulls(): PullRecord[] {
+    if (!existsSync(this.pullsPath)) return [];
+    return JSON.parse(readFileSync(this.pullsPath, "utf-8")) as PullRecord[];
+  }
+
+  lastPull(): PullRecord | null {
+    return this.pulls().at(-1) ?? null;
+  }
+
+  // Snapshots in the order pulls first saw them
+  history(project: string): CachedSnapshot[] {
+    const dir = this.snapshotDir(project);
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+      .filter((f) => f.endsWith(".json"))
+      .map(
+        (f) => JSON.parse(readFileSync(join(dir, f), "utf-8")) as CachedSnapshot
+      )
+      .sort((a, b) => Date.parse(a.firstSeen) - Date.parse(b.firstSeen));
+  }
+
+  // The snapshot a pull at `time` would have seen for `project`
+  snapshotAt(project: string, time: string): CachedSnapshot | null {
+    const known = this.history(project).filter((s) => s.firstSeen <= time);
+    return known.at(-1) ?? null;
+  }
+
+  // Persists new snapshots and logs the pull. A status.yaml is stored once
+  // per generatedAt; a missing one each time the spoke loses its status.
+  record(spokes: PulledSpoke[], pulledAt: string): number {
+    let added = 0;
+    for (const { project, entry } of spokes) {
+      const dir = this.snapshotDir(project);
+      const latest = this.history(project).at(-1);
+      if (latest && latest.entry.generatedAt === entry.generatedAt) continue;
+      const key = hasStatus(entry) ? entry.generatedAt : `never@${pulledAt}`;
+      const path = join(dir, `${fileName(key)}.json`);
+      if (existsSync(path)) continue;
+      mkdirSync(dir, { recursive: true });
+      const snapshot: CachedSnapshot = { firstSeen: pulledAt, entry };
+      writeFileSync(path, JSON.stringify(snapshot, null, 2), "utf-8");
+      added++;
+    }
+
+    mkdirSync(this.root, { recursive: true });
+    const pulls = this.pulls();
+    pulls.push({ pulledAt, projects: spokes.map((s) => s.project) });
+    writeFileSync(this.pullsPath, JSON.stringify(pulls, null, 2), "utf-8");
+    return added;
+  }
+}
+
+export function diffEntries(
+  previous: SpokeEntry | null,
+  current: SpokeEntry
+): string[] {
+  if (!previous) return ["new spoke"];
+
+  const changes: string[] = [];
+  if (previous.phase !== current.phase) {
+    changes.push(`phase ${previous.phase} → ${current.phase}`);
+  }
+  if (
+    previous.tests.passing !== current.tests.passing ||
+    previous.tests.failing !== current.tests.failing
+  ) {
+    changes.push(
+      `tests ${previous.tests.passing}P/${previous.tests.failing}F → ${current.tests.passing}P/${current.tests.failing}F`
+    );
+  }
+  if (previous.stale !== current.stale) {
+    changes.push(current.stale ? "went stale" : "fresh again");
+  }
+  if (previous.attestation !== current.attestation) {
+    changes.push(`attestation ${previous.attestation} → ${current.attestation}`);
+  }
+  const previousHealth = previous.health?.state ?? "unchecked";
+  const currentHealth = current.health?.state ?? "unchecked";
+  if (previousHealth !== currentHealth) {
+    changes.push(`health ${previousHealth} → ${currentHealth}`);
+  }
+  if (previous.license !== current.license) {
+    changes.push(`license ${previous.license} → ${current.license}`);
+  }
+  return changes;
+}
+
+// Phase transitions, test trends and staleness derived from stored snapshots.
+// A spoke "goes stale" once its newest snapshot ages past the threshold
+// before the next snapshot arrives.
+export function historyEvents(
+  project: string,
+  snapshots: CachedSnapshot[],
+  now: Date = new Date(),
+  staleDays: number = 7
+): HistoryEvent[] {
+  const events: HistoryEvent[] = [];
+  const staleMs = staleDays * 24 * 60 * 60 * 1000;
+
+  snapshots.forEach((snapshot, i) => {
+    const previous = i > 0 ? snapshots[i - 1].entry : null;
+    const { entry } = snapshot;
+    // Staleness is derived below from snapshot timing, not the pull-time flag
+    const changes = previous
+      ? diffEntries(previous, entry).filter(
+          (c) => c !== "went stale" && c !== "fresh again"
+        )
+      : ["first seen"];
+    const generated = Date.parse(entry.generatedAt);
+    for (const change of changes) {
+      events.push({ at: isNaN(generated) ? snapshot.firstSeen : entry.generatedAt, project, change });
+    }
+    if (isNaN(generated)) return;
+    const staleAt = new Date(generated + staleMs);
+    const next = snapshots[i + 1];
+    const supersededAt = next
+      ? new Date(hasStatus(next.entry) ? next.entry.generatedAt : next.firstSeen)
+      : now;
+    if (staleAt < supersededAt) {
+      events.push({
+        at: staleAt.toISOString(),
+        project,
+        change: `went stale (no update for ${staleDays} days)`,
+      });
+    }
+  });
+
+  return events.sort((a, b) => a.at.localeCompare(b.at));
+}
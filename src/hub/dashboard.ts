@@ -0,0 +1,300 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { load } from "js-yaml";
+import { LIFECYCLE_PHASES } from "../schemas/status";
+import { REFLEX_NAMES, type ReflexName } from "../schemas/reflexes";
+import type { SpokeEntry } from "./spokes";
+import { version } from "../version";
+
+// Hub branding, read from <template-dir>/dashboard.yaml
+export interface DashboardBranding {
+  title: string;
+  description?: string;
+  logoUrl?: string;
+  footer?: string;
+}
+
+export interface PhaseGroup {
+  phase: string;
+  spokes: SpokeEntry[];
+}
+
+export interface DashboardModel {
+  branding: DashboardBranding;
+  generatedAt: string;
+  spokes: SpokeEntry[];
+  groups: PhaseGroup[];
+  totals: {
+    spokes: number;
+    stale: number;
+    failing: number;
+    passingTests: number;
+    failingTests: number;
+  };
+}
+
+const REFLEX_BADGES: Record<ReflexName, string> = {
+  signing: "🔏",
+  secretScanning: "🔑",
+  sandboxEnforcer: "🧱",
+  contentFilter: "🧹",
+};
+
+const DEFAULT_MARKDOWN_TEMPLATE = `{{logo}}# {{title}}
+
+{{description}}
+
+{{summary}}
+
+{{groups}}
+
+{{legend}}
+
+{{footer}}
+`;
+
+const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>{{title}}</title>
+<style>{{styles}}</style>
+</head>
+<body>
+{{logo}}<h1>{{title}}</h1>
+{{description}}
+{{summary}}
+{{groups}}
+{{legend}}
+{{footer}}
+</body>
+</html>
+`;
+
+const DEFAULT_STYLES = `body{font-family:system-ui,sans-serif;margin:2rem;color:#1f2328}
+table{border-collapse:collapse;width:100%;margin-bottom:1.5rem}
+th,td{border-bottom:1px solid #d0d7de;padding:.4rem .6rem;text-align:left}
+.bar{display:inline-block;width:80px;height:8px;background:#f0c4c4;vertical-align:middle}
+.bar span{display:block;height:100%;background:#2da44e}
+.stale{color:#9a6700;font-weight:600}
+.logo{max-height:64px}`;
+
+export function buildDashboardModel(
+  spokes: SpokeEntry[],
+  branding: DashboardBranding,
+  now: Date = new Date()
+): DashboardModel {
+  const known = new Set<string>(LIFECYCLE_PHASES);
+  const phases = [
+    ...LIFECYCLE_PHASES,
+    ...new Set(spokes.map((s) => s.phase).filter((p) => !known.has(p))),
+  ];
+
+  const groups = phases
+    .map((phase) => ({
+      phase,
+      spokes: spokes
+        .filter((s) => s.phase === phase)
+        .sort((a, b) => a.project.localeCompare(b.project)),
+    }))
+    .filter((g) => g.spokes.length > 0);
+
+  return {
+    branding,
+    generatedAt: now.toISOString(),
+    spokes,
+    groups,
+    totals: {
+      spokes: spokes.length,
+      stale: spokes.filter((s) => s.stale).length,
+      failing: spokes.filter((s) => s.tests.failing > 0).length,
+      passingTests: spokes.reduce((n, s) => n + s.tests.passing, 0),
+      failingTests: spokes.reduce((n, s) => n + s.tests.failing, 0),
+    },
+  };
+}
+
+export function loadBranding(templateDir: string): DashboardBranding {
+  const path = join(templateDir, "dashboard.yaml");
+  const defaults: DashboardBranding = { title: "Hive Status" };
+  if (!existsSync(path)) return defaults;
+  const raw = load(readFileSync(path, "utf-8")) as Partial<DashboardBranding> | null;
+  return { ...defaults, ...(raw ?? {}) };
+}
+
+// A hub can override either template by dropping STATUS.md.tmpl or
+// status.html.tmpl into its template dir; {{placeholders}} are filled below.
+export function loadTemplate(templateDir: string, file: string): string | null {
+  const path = join(templateDir, file);
+  return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+function ageLabel(generatedAt: string, now: Date): string {
+  const time = Date.parse(generatedAt);
+  if (isNaN(time)) return "never";
+  const days = Math.floor((now.getTime() - time) / (1000 * 60 * 60 * 24));
+  return days <= 0 ? "today" : `${days}d ago`;
+}
+
+function reflexBadges(entry: SpokeEntry): string[] {
+  return REFLEX_NAMES.filter((name) => entry.reflexes[name]).map((name) => {
+    const unproven = entry.detectedReflexes && !entry.detectedReflexes[name];
+    return `${REFLEX_BADGES[name]}${unproven ? "?" : ""}`;
+  });
+}
+
+function textBar(passing: number, failing: number, width: number = 10): string {
+  const total = passing + failing;
+  if (total === 0) return "—";
+  const filled = Math.round((passing / total) * width);
+  return `${"█".repeat(filled)}${"░".repeat(width - filled)} ${passing}/${total}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Spoke-supplied text: one line, with no table, link or emphasis syntax
+function escapeMarkdown(value: string): string {
+  return value.replace(/\s*[\r\n]+\s*/g, " ").replace(/[\\`*_[\]<>|]/g, "\\$&");
+}
+
+// Backslashes don't escape inside code spans, so backticks are replaced.
+// Failure lists sit below the table, where a pipe cannot split a cell.
+function codeSpan(value: string): string {
+  return `\`${value.replace(/`/g, "'").replace(/\s*[\r\n]+\s*/g, " ")}\``;
+}
+
+function repoUrl(repo: string): string | null {
+  return /^[\w-]+\/[\w.-]+$/.test(repo) ? `https://github.com/${repo}` : null;
+}
+
+const LEGEND = REFLEX_NAMES.map((name) => `${REFLEX_BADGES[name]} ${name}`).join(
+  " · "
+);
+
+export function renderMarkdown(model: DashboardModel, template?: string | null): string {
+  const now = new Date(model.generatedAt);
+  const { totals, branding } = model;
+
+  const groups = model.groups
+    .map((group) => {
+      const rows = group.spokes.map((s) => {
+        const url = repoUrl(s.repo);
+        const project = url ? `[${escapeMarkdown(s.project)}](${url})` : escapeMarkdown(s.project);
+        const maintainer = `[@${escapeMarkdown(s.maintainer)}](https://github.com/${encodeURIComponent(s.maintainer)})`;
+        const age = s.stale
+          ? `**${ageLabel(s.generatedAt, now)} (stale)**`
+          : ageLabel(s.generatedAt, now);
+        return `| ${project} | ${maintainer} | \`${textBar(s.tests.passing, s.tests.failing)}\` | ${reflexBadges(s).join(" ") || "—"} | ${age} |`;
+      });
+      const broken = group.spokes
+        .filter((s) => s.tests.failures?.length)
+        .map(
+          (s) =>
+            `- **${escapeMarkdown(s.project)}** failing: ${s.tests.failures!.map(codeSpan).join(", ")}`
+        );
+      return [
+        `## ${group.phase} (${group.spokes.length})`,
+        "",
+        "| Project | Maintainer | Tests | Reflexes | Updated |",
+        "|---|---|---|---|---|",
+        ...rows,
+        ...(broken.length > 0 ? ["", ...broken] : []),
+      ].join("\n");
+    })
+    .join("\n\n");
+
+  return fillTemplate(template ?? DEFAULT_MARKDOWN_TEMPLATE, {
+    title: branding.title,
+    description: branding.description ?? "",
+    logo: branding.logoUrl ? `![${branding.title}](${branding.logoUrl})\n\n` : "",
+    summary: `**${totals.spokes}** spoke(s) · **${totals.failing}** with failing tests · **${totals.stale}** stale · ${totals.passingTests} tests passing, ${totals.failingTests} failing`,
+    groups,
+    legend: `_Reflexes: ${LEGEND} — ? = claimed but not detected_`,
+    footer:
+      branding.footer ??
+      `_Generated ${model.generatedAt} by hive-spoke ${version}_`,
+    generatedAt: model.generatedAt,
+  }).replace(/\n{3,}/g, "\n\n");
+}
+
+export function renderHtml(model: DashboardModel, template?: string | null): string {
+  const now = new Date(model.generatedAt);
+  const { totals, branding } = model;
+
+  const groups = model.groups
+    .map((group) => {
+      const rows = group.spokes.map((s) => {
+        const url = repoUrl(s.repo);
+        const project = url
+          ? `<a href="${escapeHtml(url)}">${escapeHtml(s.project)}</a>`
+          : escapeHtml(s.project);
+        const maintainer = `<a href="https://github.com/${escapeHtml(s.maintainer)}">@${escapeHtml(s.maintainer)}</a>`;
+        const total = s.tests.passing + s.tests.failing;
+        const pct = total > 0 ? Math.round((s.tests.passing / total) * 100) : 0;
+        const failures = s.tests.failures?.length
+          ? `<br><small>Failing: ${s.tests.failures.map(escapeHtml).join(", ")}</small>`
+          : "";
+        const tests =
+          total > 0
+            ? `<span class="bar"><span style="width:${pct}%"></span></span> ${s.tests.passing}/${total}${failures}`
+            : "—";
+        const age = escapeHtml(ageLabel(s.generatedAt, now));
+        return `<tr><td>${project}</td><td>${maintainer}</td><td>${tests}</td><td>${reflexBadges(s).join(" ") || "—"}</td><td${s.stale ? ' class="stale"' : ""}>${age}${s.stale ? " (stale)" : ""}</td></tr>`;
+      });
+      return [
+        `<h2>${escapeHtml(group.phase)} (${group.spokes.length})</h2>`,
+        "<table>",
+        "<thead><tr><th>Project</th><th>Maintainer</th><th>Tests</th><th>Reflexes</th><th>Updated</th></tr></thead>",
+        `<tbody>${rows.join("")}</tbody>`,
+        "</table>",
+      ].join("\n");
+    })
+    .join("\n");
+
+  return fillTemplate(template ?? DEFAULT_HTML_TEMPLATE, {
+    title: escapeHtml(branding.title),
+    description: branding.description ? `<p>${escapeHtml(branding.description)}</p>` : "",
+    logo: branding.logoUrl
+      ? `<img class="logo" src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.title)}">\n`
+      : "",
+    styles: DEFAULT_STYLES,
+    summary: `<p><strong>${totals.spokes}</strong> spoke(s) · <strong>${totals.failing}</strong> with failing tests · <strong>${totals.stale}</strong> stale · ${totals.passingTests} tests passing, ${totals.failingTests} failing</p>`,
+    groups,
+    legend: `<p><small>Reflexes: ${escapeHtml(LEGEND)} — ? = claimed but not detected</small></p>`,
+    footer: `<footer><small>${escapeHtml(
+      branding.footer ?? `Generated ${model.generatedAt} by hive-spoke ${version}`
+    )}</small></footer>`,
+    generatedAt: model.generatedAt,
+  });
+}
+
+// Machine-readable hub-status.json for other tools
+export function renderJson(model: DashboardModel): string {
+  return JSON.stringify(
+    {
+      schemaVersion: "1.0",
+      generatedAt: model.generatedAt,
+      generatedBy: `hive-spoke ${version}`,
+      title: model.branding.title,
+      totals: model.totals,
+      phases: Object.fromEntries(
+        model.groups.map((g) => [g.phase, g.spokes.map((s) => s.project)])
+      ),
+      spokes: model.spokes,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,257 @@
+// `hub register`: onboard a spoke by fetching and checking its .collab/,
+// scaffolding projects/<project>/PROJECT.yaml and registering its key.
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { $ } from "bun";
+import { load } from "js-yaml";
+import { createSpokeSource, type TransportKind } from "../transport";
+import { parseDocument } from "../schemas/registry";
+import { hubView, type HubTarget, type HubView, type Manifest } from "../schemas/manifest";
+import type { Operator } from "../schemas/operator";
+import type { SpokeStatus } from "../schemas/status";
+import { isPlaceholder } from "../init/adopt";
+import { parseSshPublicKey, type SshPublicKey } from "../keys/ssh-key";
+import {
+  formatAllowedSigner,
+  parseAllowedSigners,
+  sameKey,
+  signersForKey,
+} from "../utils/allowed-signers";
+import { SpokeError } from "../utils/errors";
+import { dumpYaml } from "../utils/yaml";
+import type { ProjectYaml } from "./spokes";
+
+export interface RegisterOptions {
+  branch: string;
+  transportKind?: TransportKind;
+  /** Picks the manifest hubs entry for this hub */
+  hub?: string;
+  project?: string;
+  /** Overrides the allowed-signers principal */
+  principal?: string;
+}
+
+export interface Registration {
+  repo: string;
+  branch: string;
+  view: HubView;
+  manifest: Manifest;
+  operator: Operator | null;
+  status: SpokeStatus | null;
+  principal: string;
+  /** "type base64", without the key comment */
+  publicKey: string;
+}
+
+function selectTarget(manifest: Manifest, opts: RegisterOptions): HubTarget {
+  const hubs = manifest.hubs;
+  const target = opts.hub
+    ? hubs.find((h) => h.hub === opts.hub)
+    : hubs.length === 1
+      ? hubs[0]
+      : undefined;
+  if (!target) {
+    throw new Error(
+      opts.hub
+        ? `Spoke does not project to ${opts.hub} (manifest hubs: ${hubs.map((h) => h.hub).join(", ")})`
+        : `Spoke projects to several hubs (${hubs.map((h) => h.hub).join(", ")}) — use --hub to pick this one`
+    );
+  }
+  return target;
+}
+
+// The key comment when it is an email (what git signs commits as),
+// otherwise the operator handle
+export function principalFor(manifest: Manifest): string {
+  const comment = manifest.identity.publicKey.trim().split(/\s+/)[2];
+  return comment && /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(comment)
+    ? comment
+    : manifest.identity.handle;
+}
+
+export async function fetchRegistration(
+  repo: string,
+  opts: RegisterOptions
+): Promise<Registration> {
+  const source = createSpokeSource(repo, opts.transportKind);
+  let manifestContent: string | null;
+  let operatorContent: string | null;
+  let statusContent: string | null;
+  try {
+    manifestContent = await source.fetchFile(".collab/manifest.yaml", opts.branch);
+    operatorContent = await source.fetchFile(".collab/operator.yaml", opts.branch);
+    statusContent = await source.fetchFile(".collab/status.yaml", opts.branch);
+  } finally {
+    await source.dispose();
+  }
+  if (!manifestContent) {
+    throw new SpokeError(
+      `No .collab/manifest.yaml on ${repo}@${opts.branch} — the spoke must run 'hive-spoke init' first`,
+      "FILE_NOT_FOUND"
+    );
+  }
+
+  const parse = <K extends "manifest" | "operator" | "status">(kind: K, content: string) => {
+    try {
+      return parseDocument(kind, load(content)).data;
+    } catch (err) {
+      throw new SpokeError(
+        `Invalid ${kind}.yaml on ${repo}: ${err instanceof Error ? err.message : String(err)}`,
+        "INVALID_SPOKE"
+      );
+    }
+  };
+  const manifest = parse("manifest", manifestContent);
+  const operator = operatorContent ? parse("operator", operatorContent) : null;
+  const status = statusContent ? parse("status", statusContent) : null;
+
+  const { handle, publicKey, fingerprint } = manifest.identity;
+  if (isPlaceholder(publicKey)) {
+    throw new SpokeError(`${repo} still has a placeholder publicKey in manifest.yaml`, "PLACEHOLDER_KEY");
+  }
+  let key: SshPublicKey;
+  try {
+    key = parseSshPublicKey(publicKey);
+  } catch (err) {
+    throw new SpokeError(
+      `${repo} has an invalid publicKey in manifest.yaml: ${err instanceof Error ? err.message : String(err)}`,
+      "INVALID_PUBLIC_KEY"
+    );
+  }
+  if (fingerprint && fingerprint !== key.fingerprint) {
+    throw new SpokeError(
+      `identity.fingerprint ${fingerprint} is not the fingerprint of identity.publicKey (${key.fingerprint})`,
+      "FINGERPRINT_MISMATCH"
+    );
+  }
+  if (operator && operator.handle !== handle) {
+    throw new SpokeError(
+      `Handle mismatch: manifest "${handle}" vs operator "${operator.handle}"`,
+      "HANDLE_MISMATCH"
+    );
+  }
+  if (operator && !sameKey(operator.signing.publicKey, publicKey)) {
+    throw new SpokeError(
+      "Public key mismatch between manifest.yaml and operator.yaml",
+      "PUBLIC_KEY_MISMATCH"
+    );
+  }
+
+  const target = selectTarget(manifest, opts);
+  return {
+    repo,
+    branch: opts.branch,
+    view: hubView(manifest, opts.project ? { ...target, project: opts.project } : target),
+    manifest,
+    operator,
+    status,
+    principal: opts.principal ?? principalFor(manifest),
+    publicKey: `${key.type} ${key.blob}`,
+  };
+}
+
+export function projectYaml(reg: Registration): ProjectYaml {
+  return {
+    name: reg.view.name,
+    maintainer: reg.view.maintainer,
+    status: "active",
+    source: { repo: reg.repo, branch: reg.branch },
+  };
+}
+
+export function renderProjectYaml(reg: Registration): string {
+  return dumpYaml(
+    projectYaml(reg),
+    `# Registered by hive-spoke hub register\n# Spoke: ${reg.repo} (@${reg.manifest.identity.handle})`
+  );
+}
+
+// Appends the spoke key under `principal` and the handle, which binds the
+// key to the operator; "present" when the key is already registered
+export function addAllowedSigner(
+  path: string,
+  reg: Registration
+): "added" | "present" {
+  if (signersForKey(parseAllowedSigners(path), reg.publicKey).length > 0) {
+    return "present";
+  }
+  const handle = reg.manifest.identity.handle;
+  const line = formatAllowedSigner({
+    principals: [...new Set([reg.principal, handle])],
+    certAuthority: false,
+    namespaces: null,
+    validAfter: null,
+    validBefore: null,
+    publicKey: reg.publicKey,
+    comment: null,
+  });
+  mkdirSync(dirname(path), { recursive: true });
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+  appendFileSync(
+    path,
+    `${separator}# @${handle} — ${reg.view.project} (${reg.repo})\n${line}\n`,
+    "utf-8"
+  );
+  return "added";
+}
+
+export interface RegistrationCommit {
+  sha: string;
+  signed: boolean;
+  branch: string;
+  /** PR URL when --pr was used */
+  pr: string | null;
+}
+
+// Commits `paths` in the hub repo, signed when a signing key is configured.
+// With `prBranch`, commits on a new branch, pushes it, opens a PR and then
+// switches the checkout back to where it was.
+export async function commitRegistration(
+  cwd: string,
+  paths: string[],
+  reg: Registration,
+  sign: boolean,
+  prBranch: string | null
+): Promise<RegistrationCommit> {
+  const git = async (args: string[]) => {
+    const result = await $`git ${args}`.cwd(cwd).quiet().nothrow();
+    if (result.exitCode !== 0) {
+      throw new Error(`git ${args[0]} failed: ${result.stderr.toString().trim()}`);
+    }
+    return result.stdout.toString().trim();
+  };
+
+  const message = `hub: register ${reg.view.project}\n\nSource: ${reg.repo}@${reg.branch}\nMaintainer: @${reg.view.maintainer}\nSigner: ${reg.principal}`;
+  if (!prBranch) {
+    await git(["add", "--", ...paths]);
+    await git(["commit", ...(sign ? ["-S"] : []), "-m", message, "--", ...paths]);
+    const sha = await git(["rev-parse", "HEAD"]);
+    const branch = await git(["rev-parse", "--abbrev-ref", "HEAD"]);
+    return { sha, signed: sign, branch, pr: null };
+  }
+
+  // A detached checkout is restored to its commit
+  const original = await git(["rev-parse", "--abbrev-ref", "HEAD"]);
+  const restore = original === "HEAD" ? ["--detach", await git(["rev-parse", "HEAD"])] : [original];
+  await git(["switch", "-c", prBranch]);
+  let sha: string;
+  try {
+    await git(["add", "--", ...paths]);
+    await git(["commit", ...(sign ? ["-S"] : []), "-m", message, "--", ...paths]);
+    sha = await git(["rev-parse", "HEAD"]);
+  } finally {
+    await git(["switch", ...restore]);
+  }
+
+  await git(["push", "-u", "origin", prBranch]);
+  const created = await $`gh pr create --title ${`hub: register ${reg.view.project}`} --body ${message} --head ${prBranch}`
+    .cwd(cwd)
+    .quiet()
+    .nothrow();
+  if (created.exitCode !== 0) {
+    throw new Error(`Pushed ${prBranch}, but could not open a PR: ${created.stderr.toString().trim()}`);
+  }
+  return { sha, signed: sign, branch: prBranch, pr: created.stdout.toString().trim() };
+}
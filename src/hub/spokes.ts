@@ -0,0 +1,289 @@
+import { join } from "path";
+import { readdirSync, existsSync } from "fs";
+import { load } from "js-yaml";
+import { createSpokeSource, type TransportKind } from "../transport";
+import { loadYaml } from "../utils/yaml";
+import { parseAllowedSigners, type AllowedSigners } from "../utils/allowed-signers";
+import {
+  checkStatusAttestation,
+  STATUS_SIGNATURE_FILE,
+  type AttestationState,
+} from "../utils/signing";
+import type { SpokeStatus } from "../schemas/status";
+import { hubTargetForProject, hubView } from "../schemas/manifest";
+import { deprecationWarning, parseDocument } from "../schemas/registry";
+import { REFLEX_NAMES, type ReflexName } from "../schemas/reflexes";
+import type { Operator } from "../schemas/operator";
+import { POLICY_FILE, type HubPolicy } from "../schemas/policy";
+import { checkPolicy, DEFAULT_POLICY, loadPolicy, type PolicyViolation } from "../policy";
+import { DEFAULT_CONCURRENCY, mapConcurrent } from "../utils/concurrency";
+
+export interface SpokeEntry {
+  project: string;
+  repo: string;
+  maintainer: string;
+  phase: string;
+  tests: SpokeStatus["tests"];
+  dirty: boolean;
+  behindRemote: number;
+  lastCommit: string;
+  generatedAt: string;
+  license: string;
+  reflexes: {
+    signing: boolean;
+    secretScanning: boolean;
+    sandboxEnforcer: boolean;
+    contentFilter: boolean;
+  };
+  // Probe results from status.yaml; null when the spoke predates probes
+  detectedReflexes: Record<ReflexName, boolean> | null;
+  stale: boolean;
+  attestation: AttestationState;
+  // Health check result from status.yaml; null when none is configured
+  health: SpokeStatus["health"] | null;
+}
+
+export interface ProjectYaml {
+  name: string;
+  maintainer: string;
+  status: string;
+  source?: {
+    repo: string;
+    branch?: string;
+  };
+}
+
+export type SpokeFetchResult =
+  | {
+      kind: "fetched";
+      project: string;
+      entry: SpokeEntry;
+      warnings: string[];
+      violations: PolicyViolation[];
+    }
+  | { kind: "no-project-yaml"; project: string }
+  | { kind: "no-source"; project: string }
+  | { kind: "no-collab"; project: string; repo: string }
+  /** Fetched, but in a phase earlier than the policy's minListingPhase */
+  | { kind: "unlisted"; project: string; repo: string; phase: string }
+  | { kind: "invalid"; project: string; repo: string; error: string }
+  | { kind: "unreachable"; project: string; repo: string; error: string };
+
+export interface SpokeFetchContext {
+  projectsDir: string;
+  transportKind?: TransportKind;
+  allowedSigners: AllowedSigners;
+  /** null when the hub has no allowed-signers file */
+  allowedSignersPath: string | null;
+  /** ETag cache for conditional GitHub API requests */
+  httpCacheDir?: string;
+  /** The hub's policy (DEFAULT_POLICY when it publishes none) */
+  policy: HubPolicy;
+}
+
+export function listProjects(projectsDir: string): string[] {
+  if (!existsSync(projectsDir)) {
+    throw new Error(
+      "No projects/ directory found. Run this from the hub repo root."
+    );
+  }
+  return readdirSync(projectsDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory())
+    .map((d) => d.name)
+    .sort();
+}
+
+export function isStale(
+  generatedAt: string,
+  thresholdDays: number = 7,
+  now: Date = new Date()
+): boolean {
+  const generated = new Date(generatedAt);
+  if (isNaN(generated.getTime())) return true;
+  const diffMs = now.getTime() - generated.getTime();
+  return diffMs > thresholdDays * 24 * 60 * 60 * 1000;
+}
+
+export function isUnhealthy(entry: SpokeEntry): boolean {
+  return entry.health != null && entry.health.state !== "healthy";
+}
+
+export function unprovenReflexes(entry: SpokeEntry): ReflexName[] {
+  const detected = entry.detectedReflexes;
+  if (!detected) return [];
+  return REFLEX_NAMES.filter((name) => entry.reflexes[name] && !detected[name]);
+}
+
+export async function fetchSpoke(
+  project: string,
+  ctx: SpokeFetchContext
+): Promise<SpokeFetchResult> {
+  const projectYamlPath = join(ctx.projectsDir, project, "PROJECT.yaml");
+  if (!existsSync(projectYamlPath)) {
+    return { kind: "no-project-yaml", project };
+  }
+
+  const projectYaml = loadYaml<ProjectYaml>(projectYamlPath);
+  if (!projectYaml.source?.repo) {
+    return { kind: "no-source", project };
+  }
+
+  const repo = projectYaml.source.repo;
+  const branch = projectYaml.source.branch ?? "main";
+
+  // Fetch manifest.yaml and status.yaml from spoke repo
+  const source = createSpokeSource(repo, ctx.transportKind, {
+    httpCacheDir: ctx.httpCacheDir,
+  });
+  let manifestContent: string | null;
+  let statusContent: string | null = null;
+  let signature: string | null = null;
+  let operatorContent: string | null = null;
+  try {
+    manifestContent = await source.fetchFile(".collab/manifest.yaml", branch);
+    if (manifestContent) {
+      statusContent = await source.fetchFile(".collab/status.yaml", branch);
+      operatorContent = await source.fetchFile(".collab/operator.yaml", branch);
+    }
+    if (statusContent) {
+      signature = await source.fetchFile(
+        `.collab/${STATUS_SIGNATURE_FILE}`,
+        branch
+      );
+    }
+  } catch (err) {
+    // The transport throws only when the repo can't be read (unreachable,
+    // unauthenticated, rate limits or server errors that outlasted retries);
+    // a missing file is null
+    return {
+      kind: "unreachable",
+      project,
+      repo,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    await source.dispose();
+  }
+
+  if (!manifestContent) {
+    return { kind: "no-collab", project, repo };
+  }
+
+  try {
+    const warnings: string[] = [];
+    const parsedManifest = parseDocument("manifest", load(manifestContent));
+    const manifest = parsedManifest.data;
+    if (parsedManifest.deprecated) {
+      warnings.push(deprecationWarning("manifest", parsedManifest.version));
+    }
+
+    let status: SpokeStatus | null = null;
+    if (statusContent) {
+      const parsedStatus = parseDocument("status", load(statusContent));
+      status = parsedStatus.data;
+      if (parsedStatus.deprecated) {
+        warnings.push(deprecationWarning("status", parsedStatus.version));
+      }
+    }
+
+    // Only policy checks read operator.yaml, so a broken one is not fatal
+    let operator: Operator | null = null;
+    if (operatorContent) {
+      try {
+        operator = parseDocument("operator", load(operatorContent)).data;
+      } catch {
+        warnings.push("operator.yaml is invalid — policy checks treat the operator as untrusted");
+      }
+    }
+
+    const attestation: AttestationState = statusContent
+      ? await checkStatusAttestation(
+          statusContent,
+          signature,
+          manifest.identity.publicKey,
+          ctx.allowedSigners,
+          ctx.allowedSignersPath
+        )
+      : "unsigned";
+
+    // A multi-hub manifest carries per-hub project ids and overrides
+    const view = hubView(manifest, hubTargetForProject(manifest, project));
+
+    const entry: SpokeEntry = {
+      project: view.project,
+      repo,
+      maintainer: view.maintainer,
+      phase: status?.phase ?? "unknown",
+      tests: status?.tests ?? { passing: 0, failing: 0 },
+      dirty: status?.git?.dirty ?? false,
+      behindRemote: status?.git?.behindRemote ?? 0,
+      lastCommit: status?.git?.lastCommit ?? "unknown",
+      generatedAt: status?.generatedAt ?? "never",
+      license: view.license,
+      reflexes: {
+        signing: manifest.security?.reflexes?.signing ?? false,
+        secretScanning: manifest.security?.reflexes?.secretScanning ?? false,
+        sandboxEnforcer: manifest.security?.reflexes?.sandboxEnforcer ?? false,
+        contentFilter: manifest.security?.reflexes?.contentFilter ?? false,
+      },
+      detectedReflexes: status?.reflexes ?? null,
+      stale: status ? isStale(status.generatedAt, ctx.policy.maxStalenessDays) : true,
+      attestation,
+      health: status?.health ?? null,
+    };
+
+    const violations = checkPolicy(ctx.policy, { view, manifest, status, operator });
+    if (violations.some((v) => v.rule === "minListingPhase")) {
+      return { kind: "unlisted", project, repo, phase: entry.phase };
+    }
+
+    return { kind: "fetched", project, entry, warnings, violations };
+  } catch (err) {
+    return {
+      kind: "invalid",
+      project,
+      repo,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+// Fetches every project with bounded concurrency; results keep project order
+export async function fetchAllSpokes(
+  ctx: SpokeFetchContext,
+  concurrency: number = DEFAULT_CONCURRENCY,
+  onProgress?: (done: number, total: number, project: string) => void
+): Promise<SpokeFetchResult[]> {
+  return mapConcurrent(
+    listProjects(ctx.projectsDir),
+    concurrency,
+    (project) => fetchSpoke(project, ctx),
+    onProgress
+  );
+}
+
+// Reads the hub's policy; hubs without one get DEFAULT_POLICY
+export function hubPolicy(cwd: string, policyPath: string = POLICY_FILE): HubPolicy {
+  return loadPolicy(join(cwd, policyPath)) ?? DEFAULT_POLICY;
+}
+
+// Builds the fetch context shared by hub commands (pull, dashboard)
+export function spokeFetchContext(
+  cwd: string,
+  allowedSignersPath: string,
+  transportKind?: TransportKind,
+  httpCacheDir?: string,
+  policyPath?: string
+): SpokeFetchContext {
+  const signersPath = join(cwd, allowedSignersPath);
+  // Without allowed-signers, signatures are reported as "unchecked"
+  const hasSigners = existsSync(signersPath);
+  return {
+    projectsDir: join(cwd, "projects"),
+    transportKind,
+    allowedSigners: hasSigners ? parseAllowedSigners(signersPath) : { signers: [], errors: [] },
+    allowedSignersPath: hasSigners ? signersPath : null,
+    httpCacheDir,
+    policy: hubPolicy(cwd, policyPath),
+  };
+}
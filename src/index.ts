@@ -5,8 +5,16 @@ import { registerInitCommand } from "./commands/init";
 import { registerStatusCommand } from "./commands/status";
 import { registerValidateCommand } from "./commands/validate";
 import { registerPublishCommand } from "./commands/publish";
+import { registerMigrateCommand } from "./commands/migrate";
+import { registerSchemaCommand } from "./commands/schema";
+import { registerPhaseCommand } from "./commands/phase";
+import { registerKeyCommand } from "./commands/key";
 import { registerPullCommand } from "./commands/pull";
 import { registerVerifyCommand } from "./commands/verify";
+import { registerDashboardCommand } from "./commands/dashboard";
+import { registerHistoryCommand } from "./commands/history";
+import { registerHubCommand } from "./commands/hub";
+import { setMachineOutput } from "./utils/output";
 import { version } from "./version";
 
 const program = new Command()
@@ -19,14 +27,23 @@ const program = new Command()
 
 const getJsonMode = () => program.opts().json ?? false;
 
+program.hook("preAction", () => setMachineOutput(getJsonMode()));
+
 // Register spoke-level commands
 registerInitCommand(program, getJsonMode);
 registerStatusCommand(program, getJsonMode);
 registerValidateCommand(program, getJsonMode);
 registerPublishCommand(program, getJsonMode);
+registerMigrateCommand(program, getJsonMode);
+registerSchemaCommand(program, getJsonMode);
+registerPhaseCommand(program, getJsonMode);
+registerKeyCommand(program, getJsonMode);
 
 // Register hub-level commands (run from hub repo context)
 registerPullCommand(program, getJsonMode);
 registerVerifyCommand(program, getJsonMode);
+registerDashboardCommand(program, getJsonMode);
+registerHistoryCommand(program, getJsonMode);
+registerHubCommand(program, getJsonMode);
 
 program.parse();
@@ -0,0 +1,95 @@
+// `init --adopt`: merge freshly generated .collab/ documents into existing
+// ones. Existing values win; only missing and placeholder fields are filled.
+
+import { migrateDocument } from "../schemas/registry";
+
+export const PLACEHOLDER_PUBLIC_KEY = "ssh-ed25519 <your-public-key-here>";
+
+type Doc = Record<string, unknown>;
+
+export function isPlaceholder(value: unknown): boolean {
+  return typeof value === "string" && value.includes("<your-public-key-here>");
+}
+
+function isPlainObject(value: unknown): value is Doc {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Recursive fill: keys missing from `existing` come from `generated`, and
+// placeholder strings are replaced. Arrays and set scalars are kept as-is.
+export function fillMissing(existing: Doc, generated: Doc): Doc {
+  const merged: Doc = { ...existing };
+  for (const [key, value] of Object.entries(generated)) {
+    const current = merged[key];
+    if (current === undefined || current === null) {
+      merged[key] = value;
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      merged[key] = fillMissing(current, value);
+    } else if (isPlaceholder(current) && !isPlaceholder(value)) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+// A replaced placeholder key makes any recorded fingerprint meaningless
+function fillKey(existing: unknown, generated: unknown, merged: Doc, field: string): void {
+  if (!isPlainObject(existing) || !isPlainObject(generated)) return;
+  if (isPlaceholder(existing.publicKey) && !isPlaceholder(generated.publicKey)) {
+    const section = merged[field] as Doc;
+    if (generated.fingerprint !== undefined) {
+      section.fingerprint = generated.fingerprint;
+    } else {
+      delete section.fingerprint;
+    }
+  }
+}
+
+function unionBy<T>(existing: T[], generated: T[], key: (item: T) => string): T[] {
+  const seen = new Set(existing.map(key));
+  return [...existing, ...generated.filter((item) => !seen.has(key(item)))];
+}
+
+function list(doc: Doc, field: string): Doc[] {
+  return Array.isArray(doc[field]) ? (doc[field] as Doc[]) : [];
+}
+
+// Older manifests are upgraded first so new fields land in the current
+// shape; one that does not validate is merged as-is
+function upgradeManifest(existing: Doc): Doc {
+  try {
+    return migrateDocument("manifest", existing).document;
+  } catch {
+    return existing;
+  }
+}
+
+// Also adds the hubs entry for a hub the spoke does not project to yet
+export function adoptManifest(existing: Doc, generated: Doc): Doc {
+  const upgraded = upgradeManifest(existing);
+  const merged = fillMissing(upgraded, generated);
+  fillKey(upgraded.identity, generated.identity, merged, "identity");
+  if (Array.isArray(upgraded.hubs)) {
+    merged.hubs = unionBy(list(upgraded, "hubs"), list(generated, "hubs"), (h) => String(h.hub));
+  }
+  return merged;
+}
+
+// Also adds linked identities and the hive entry for a hub the operator
+// has not joined yet
+export function adoptOperator(existing: Doc, generated: Doc): Doc {
+  const merged = fillMissing(existing, generated);
+  fillKey(existing.signing, generated.signing, merged, "signing");
+
+  merged.identities = unionBy(
+    list(existing, "identities"),
+    list(generated, "identities"),
+    (i) => `${i.provider}:${i.id}`
+  );
+  merged.hives = unionBy(list(existing, "hives"), list(generated, "hives"), (h) => String(h.hive));
+  return merged;
+}
+
+export function documentsEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,136 @@
+import { homedir } from "os";
+import { z } from "zod";
+import { ACCEPTED_LICENSES } from "../schemas/manifest";
+import { PhaseSchema } from "../schemas/status";
+import { REFLEX_NAMES, type ReflexName } from "../schemas/reflexes";
+import { INITIAL_PHASE, STARTING_PHASES, type Phase } from "../lifecycle";
+import { loadYaml } from "../utils/yaml";
+import type { Prompter } from "../utils/prompt";
+
+export const DEFAULT_KEY_PATH = "~/.ssh/hive_spoke_ed25519";
+
+export interface InitAnswers {
+  license: (typeof ACCEPTED_LICENSES)[number];
+  /** One of STARTING_PHASES; init records the move from INITIAL_PHASE */
+  phase: Phase;
+  skills: string[];
+  /** null leaves manifest.status.test unset */
+  test: string | null;
+  reflexes: Record<ReflexName, boolean>;
+  /** Key generation; null when a signing key is already configured or declined */
+  signingKey: { path: string; global: boolean } | null;
+}
+
+// Same answers as the wizard, for `init --preset <file>`. Omitted answers
+// fall back to the defaults.
+export const InitPresetSchema = z
+  .object({
+    license: z.enum(ACCEPTED_LICENSES).optional(),
+    phase: PhaseSchema.refine((phase) => STARTING_PHASES.includes(phase), {
+      message: `A new spoke starts at ${STARTING_PHASES.join(" or ")} — later phases are gated, use 'hive-spoke phase advance'`,
+    }).optional(),
+    skills: z.array(z.string().min(1)).optional(),
+    test: z.string().nullable().optional(),
+    reflexes: z
+      .object(
+        Object.fromEntries(REFLEX_NAMES.map((name) => [name, z.boolean().optional()])) as Record<
+          ReflexName,
+          z.ZodOptional<z.ZodBoolean>
+        >
+      )
+      .strict()
+      .optional(),
+    signingKey: z
+      .object({
+        generate: z.boolean(),
+        path: z.string().min(1).optional(),
+        global: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .strict();
+
+export type InitPreset = z.infer<typeof InitPresetSchema>;
+
+export function defaultAnswers(detected: Record<ReflexName, boolean>): InitAnswers {
+  return {
+    license: "MIT",
+    phase: INITIAL_PHASE,
+    skills: [],
+    test: "bun test",
+    reflexes: { ...detected },
+    signingKey: null,
+  };
+}
+
+// `canGenerateKey` is false when git already has a signing key
+export function applyPreset(
+  defaults: InitAnswers,
+  preset: InitPreset,
+  canGenerateKey: boolean
+): InitAnswers {
+  const key = preset.signingKey;
+  const signingKey =
+    canGenerateKey && key?.generate
+      ? { path: key.path ?? DEFAULT_KEY_PATH, global: key.global ?? false }
+      : null;
+  return {
+    license: preset.license ?? defaults.license,
+    phase: preset.phase ?? defaults.phase,
+    skills: preset.skills ?? defaults.skills,
+    test: preset.test === undefined ? defaults.test : preset.test || null,
+    reflexes: {
+      ...defaults.reflexes,
+      signing: defaults.reflexes.signing || !!signingKey,
+      ...stripUndefined(preset.reflexes ?? {}),
+    },
+    signingKey,
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+export function loadPreset(filePath: string): InitPreset {
+  return InitPresetSchema.parse(loadYaml(filePath) ?? {});
+}
+
+export async function promptAnswers(
+  prompter: Prompter,
+  defaults: InitAnswers,
+  canGenerateKey: boolean
+): Promise<InitAnswers> {
+  const license = await prompter.choose("License", ACCEPTED_LICENSES, defaults.license);
+  const phase = await prompter.choose("Lifecycle phase", STARTING_PHASES, defaults.phase);
+  const skills = (await prompter.ask("Skills (comma-separated)", defaults.skills.join(", ")))
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const test = await prompter.ask("Test command ('-' for none)", defaults.test ?? "-");
+
+  let signingKey: InitAnswers["signingKey"] = null;
+  if (
+    canGenerateKey &&
+    (await prompter.confirm(
+      "No signing key configured. Generate an Ed25519 key and enable commit signing?",
+      false
+    ))
+  ) {
+    const path = await prompter.ask("Key path", DEFAULT_KEY_PATH);
+    const global = await prompter.confirm("Configure signing for all repositories (global)?", false);
+    signingKey = { path, global };
+  }
+
+  // A freshly configured key makes the signing reflex true
+  const reflexes = { ...defaults.reflexes, signing: defaults.reflexes.signing || !!signingKey };
+  for (const name of REFLEX_NAMES) {
+    reflexes[name] = await prompter.confirm(`Claim the ${name} reflex?`, reflexes[name]);
+  }
+
+  return { license, phase, skills, test: test === "-" ? null : test, reflexes, signingKey };
+}
+
+export function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? homedir() + path.slice(1) : path;
+}
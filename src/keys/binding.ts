@@ -0,0 +1,152 @@
+// Identity binding: a manifest's claim to a key only holds when the hub's
+// allowed-signers entry for that key names the same operator, the key's
+// handle has no other key, and the claimed fingerprint is the key's own.
+
+import type { Manifest } from "../schemas/manifest";
+import {
+  allowsNamespace,
+  formatSignerTime,
+  isValidAt,
+  matchesPrincipal,
+  sameKey,
+  signersForKey,
+  type AllowedSigner,
+  type AllowedSigners,
+} from "../utils/allowed-signers";
+import { sshFingerprint } from "./ssh-key";
+
+export interface BindingIssue {
+  code:
+    | "FINGERPRINT_MISSING"
+    | "FINGERPRINT_MISMATCH"
+    | "INVALID_PUBLIC_KEY"
+    | "SIGNER_EXPIRED"
+    | "SIGNER_NOT_YET_VALID"
+    | "SIGNER_NAMESPACE"
+    | "PRINCIPAL_MISMATCH"
+    | "HANDLE_MULTIPLE_KEYS";
+  message: string;
+}
+
+// How the hub's allowed-signers entries for the manifest key bind it
+export interface SignerBinding {
+  principals: string[];
+  /** Some entry is inside its valid-after/valid-before window now */
+  validNow: boolean;
+  /** Some entry may sign in the git namespace */
+  gitNamespace: boolean;
+  /** Some entry names the handle or maintainer as a principal */
+  handleBound: boolean;
+}
+
+export interface IdentityBinding {
+  /** null when the key has no allowed-signers entry */
+  signer: SignerBinding | null;
+  /** Fingerprint computed from identity.publicKey */
+  fingerprint: string | null;
+  issues: BindingIssue[];
+}
+
+function validityIssue(entries: AllowedSigner[], at: Date): BindingIssue {
+  const { validAfter, validBefore } = entries[0];
+  if (validAfter && at < validAfter) {
+    return {
+      code: "SIGNER_NOT_YET_VALID",
+      message: `allowed-signers entry is not valid until ${formatSignerTime(validAfter)}`,
+    };
+  }
+  return {
+    code: "SIGNER_EXPIRED",
+    message: `allowed-signers entry expired${validBefore ? ` at ${formatSignerTime(validBefore)}` : ""}`,
+  };
+}
+
+// Keys registered under an exact (non-pattern) principal equal to `handle`
+function keysForHandle(signers: AllowedSigners, handle: string): string[] {
+  const keys: string[] = [];
+  for (const signer of signers.signers) {
+    if (signer.certAuthority || !signer.principals.includes(handle)) continue;
+    if (!keys.some((key) => sameKey(key, signer.publicKey))) keys.push(signer.publicKey);
+  }
+  return keys;
+}
+
+// Validity, git namespace and principal checks on a key's entries
+function bindSigner(
+  entries: AllowedSigner[],
+  manifest: Manifest,
+  at: Date,
+  issues: BindingIssue[]
+): SignerBinding {
+  const { handle } = manifest.identity;
+  const signer: SignerBinding = {
+    principals: [...new Set(entries.flatMap((e) => e.principals))],
+    validNow: entries.some((e) => isValidAt(e, at)),
+    gitNamespace: entries.some((e) => allowsNamespace(e, "git")),
+    handleBound: entries.some(
+      (e) => matchesPrincipal(e, handle) || matchesPrincipal(e, manifest.maintainer)
+    ),
+  };
+  if (!signer.validNow) issues.push(validityIssue(entries, at));
+  if (!signer.gitNamespace) {
+    issues.push({
+      code: "SIGNER_NAMESPACE",
+      message: `allowed-signers limits this key to namespaces ${entries.flatMap((e) => e.namespaces ?? []).join(", ")} — not git`,
+    });
+  }
+  if (!signer.handleBound) {
+    issues.push({
+      code: "PRINCIPAL_MISMATCH",
+      message: `Key is registered for ${signer.principals.join(", ")}, not @${handle}`,
+    });
+  }
+  return signer;
+}
+
+export function checkIdentityBinding(
+  manifest: Manifest,
+  signers: AllowedSigners,
+  at: Date = new Date()
+): IdentityBinding {
+  const { handle, publicKey, fingerprint: claimed } = manifest.identity;
+  const issues: BindingIssue[] = [];
+
+  const fingerprint = sshFingerprint(publicKey);
+  if (!fingerprint) {
+    issues.push({ code: "INVALID_PUBLIC_KEY", message: "identity.publicKey is not a valid SSH public key" });
+  } else if (!claimed) {
+    issues.push({ code: "FINGERPRINT_MISSING", message: "No fingerprint in manifest — cannot verify key binding" });
+  } else if (claimed !== fingerprint) {
+    issues.push({
+      code: "FINGERPRINT_MISMATCH",
+      message: `identity.fingerprint ${claimed} is not the fingerprint of identity.publicKey (${fingerprint})`,
+    });
+  }
+
+  const entries = signersForKey(signers, publicKey);
+  if (entries.length === 0) return { signer: null, fingerprint, issues };
+  const signer = bindSigner(entries, manifest, at, issues);
+
+  const handleKeys = keysForHandle(signers, handle);
+  if (handleKeys.length > 1) {
+    issues.push({
+      code: "HANDLE_MULTIPLE_KEYS",
+      message: `@${handle} has ${handleKeys.length} different keys in allowed-signers — one key per handle`,
+    });
+  }
+  return { signer, fingerprint, issues };
+}
+
+// A registered key a rotation chain reaches must bind the manifest's operator
+// exactly as identity.publicKey would; null when the key is not registered.
+export function checkAnchorBinding(
+  manifest: Manifest,
+  signers: AllowedSigners,
+  publicKey: string,
+  at: Date = new Date()
+): { signer: SignerBinding; issues: BindingIssue[] } | null {
+  const entries = signersForKey(signers, publicKey);
+  if (entries.length === 0) return null;
+  const issues: BindingIssue[] = [];
+  return { signer: bindSigner(entries, manifest, at, issues), issues };
+}
@@ -0,0 +1,158 @@
+// Key rotation: each statement in .collab/rotations.yaml is signed by the
+// retiring key and endorses its successor, so a hub that registered any
+// earlier key can follow the chain to the current identity.publicKey.
+
+import { existsSync, readFileSync } from "fs";
+import type { Rotation, Rotations } from "../schemas/rotations";
+import { sameKey } from "../utils/allowed-signers";
+import {
+  ROTATION_SIGNATURE_NAMESPACE,
+  signData,
+  verifyWithKey,
+} from "../utils/signing";
+import { parseSshPublicKey, sshFingerprint } from "./ssh-key";
+
+export const ROTATIONS_FILE = "rotations.yaml";
+
+// Hub-side list of keys that must no longer be trusted
+export const REVOKED_KEYS_FILE = ".hive/revoked-keys";
+
+export interface RevocationList {
+  /** Revoked keys as "type base64" */
+  keys: string[];
+  fingerprints: Set<string>;
+}
+
+export interface RotationChain {
+  accepted: boolean;
+  /** allowed-signers principal of the registered key the chain starts from */
+  principal: string | null;
+  /** Statements followed back from the current key */
+  steps: number;
+  /** Why the chain was rejected; null when accepted or there is none */
+  error: string | null;
+}
+
+// How the hub registered a key the chain reaches
+export interface RotationAnchor {
+  /** allowed-signers principal the key is registered under */
+  principal: string;
+  /** Why the registration cannot anchor the chain; empty when it can */
+  problems: string[];
+}
+
+// "type base64" without the key comment
+export function normalizeKey(publicKey: string): string {
+  return publicKey.trim().split(/\s+/).slice(0, 2).join(" ");
+}
+
+// The exact bytes a rotation signature covers
+export function rotationPayload(handle: string, rotation: Omit<Rotation, "signature">): string {
+  return [
+    "hive-spoke key rotation v1",
+    `handle ${handle}`,
+    `from ${normalizeKey(rotation.from.publicKey)}`,
+    `to ${normalizeKey(rotation.to.publicKey)}`,
+    `at ${rotation.at}`,
+    `reason ${rotation.reason ?? ""}`,
+    "",
+  ].join("\n");
+}
+
+export async function signRotation(
+  handle: string,
+  from: string,
+  to: string,
+  reason: string | undefined,
+  keyPath: string
+): Promise<Rotation> {
+  const statement: Omit<Rotation, "signature"> = {
+    from: { publicKey: normalizeKey(from), fingerprint: parseSshPublicKey(from).fingerprint },
+    to: { publicKey: normalizeKey(to), fingerprint: parseSshPublicKey(to).fingerprint },
+    at: new Date().toISOString(),
+    ...(reason ? { reason } : {}),
+  };
+  const signature = await signData(
+    rotationPayload(handle, statement),
+    keyPath,
+    ROTATION_SIGNATURE_NAMESPACE
+  );
+  return { ...statement, signature };
+}
+
+// One public key or SHA256 fingerprint per line; `#` starts a comment
+export function parseRevokedKeys(content: string): RevocationList {
+  const list: RevocationList = { keys: [], fingerprints: new Set() };
+  for (const raw of content.split("\n")) {
+    const entry = raw.replace(/#.*/, "").trim();
+    if (!entry) continue;
+    if (entry.startsWith("SHA256:")) {
+      list.fingerprints.add(entry);
+    } else {
+      list.keys.push(normalizeKey(entry));
+    }
+  }
+  return list;
+}
+
+export function loadRevokedKeys(path: string): RevocationList {
+  return parseRevokedKeys(existsSync(path) ? readFileSync(path, "utf-8") : "");
+}
+
+export function isRevoked(list: RevocationList, publicKey: string): boolean {
+  if (list.keys.some((key) => sameKey(key, publicKey))) return true;
+  const fingerprint = sshFingerprint(publicKey);
+  return fingerprint !== null && list.fingerprints.has(fingerprint);
+}
+
+// Follows rotations back from `currentKey` until a registered key, which
+// must itself be a valid anchor for `handle`. Every link must verify against
+// its `from` key, and a revoked key can never endorse a successor.
+export async function resolveRotationChain(
+  doc: Rotations,
+  handle: string,
+  currentKey: string,
+  anchorFor: (publicKey: string) => RotationAnchor | null,
+  revoked: RevocationList
+): Promise<RotationChain> {
+  const rejected = (steps: number, error: string): RotationChain => ({
+    accepted: false,
+    principal: null,
+    steps,
+    error,
+  });
+  if (doc.handle !== handle) {
+    return rejected(0, `rotations.yaml is bound to "${doc.handle}", not "${handle}"`);
+  }
+
+  let key = currentKey;
+  for (let steps = 1; steps <= doc.rotations.length; steps++) {
+    const link = [...doc.rotations].reverse().find((r) => sameKey(r.to.publicKey, key));
+    if (!link) {
+      return steps === 1
+        ? { accepted: false, principal: null, steps: 0, error: null }
+        : rejected(steps - 1, `No rotation statement endorses ${normalizeKey(key).slice(0, 30)}…`);
+    }
+    if (isRevoked(revoked, link.from.publicKey)) {
+      return rejected(steps, `Rotation at ${link.at} is signed by revoked key ${link.from.fingerprint}`);
+    }
+    const valid = await verifyWithKey(
+      rotationPayload(handle, link),
+      link.signature,
+      link.from.publicKey,
+      ROTATION_SIGNATURE_NAMESPACE
+    );
+    if (!valid) {
+      return rejected(steps, `Rotation at ${link.at} does not verify against ${link.from.fingerprint}`);
+    }
+    const anchor = anchorFor(link.from.publicKey);
+    if (anchor && anchor.problems.length > 0) {
+      return rejected(steps, `Registered key ${link.from.fingerprint} cannot anchor the chain: ${anchor.problems.join("; ")}`);
+    }
+    if (anchor) {
+      return { accepted: true, principal: anchor.principal, steps, error: null };
+    }
+    key = link.from.publicKey;
+  }
+  return rejected(doc.rotations.length, "Rotation chain does not reach a key in allowed-signers");
+}
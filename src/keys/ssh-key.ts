@@ -0,0 +1,80 @@
+// OpenSSH public keys, handled without ssh-keygen: parsing and validating
+// the wire-format blob and computing fingerprints needs only the public half,
+// so agent-only keys and `key::` literals work the same as key files.
+
+import { createHash } from "crypto";
+
+export const ED25519 = "ssh-ed25519";
+
+// git's user.signingKey prefix for a literal public key
+export const KEY_LITERAL_PREFIX = "key::";
+
+export interface SshPublicKey {
+  type: string;
+  /** base64 wire-format blob */
+  blob: string;
+  comment: string | null;
+  /** SHA256 fingerprint, as `ssh-keygen -l` prints it */
+  fingerprint: string;
+}
+
+// Reads the uint32-length-prefixed strings of an SSH wire-format blob
+function wireStrings(blob: Buffer): Buffer[] {
+  const fields: Buffer[] = [];
+  let offset = 0;
+  while (offset < blob.length) {
+    if (offset + 4 > blob.length) throw new Error("truncated key blob");
+    const length = blob.readUInt32BE(offset);
+    offset += 4;
+    if (offset + length > blob.length) throw new Error("truncated key blob");
+    fields.push(blob.subarray(offset, offset + length));
+    offset += length;
+  }
+  return fields;
+}
+
+// Parses "type base64 [comment]", optionally as a `key::` literal. The
+// blob's embedded type must match the text one, and Ed25519 keys must
+// carry exactly one 32-byte point.
+export function parseSshPublicKey(text: string): SshPublicKey {
+  const line = text.trim().startsWith(KEY_LITERAL_PREFIX)
+    ? text.trim().slice(KEY_LITERAL_PREFIX.length)
+    : text.trim();
+  const [type, blob, ...comment] = line.split(/\s+/);
+  if (!type || !blob) throw new Error("Expected \"<type> <base64> [comment]\"");
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(blob)) throw new Error("Key data is not base64");
+
+  const bytes = Buffer.from(blob, "base64");
+  const fields = wireStrings(bytes);
+  if (fields[0]?.toString("latin1") !== type) {
+    throw new Error(`Key data is not a ${type} key`);
+  }
+  if (type === ED25519 && (fields.length !== 2 || fields[1].length !== 32)) {
+    throw new Error("Ed25519 key must hold a 32-byte public key");
+  }
+
+  const digest = createHash("sha256").update(bytes).digest("base64");
+  return {
+    type,
+    blob,
+    comment: comment.length > 0 ? comment.join(" ") : null,
+    fingerprint: `SHA256:${digest.replace(/=+$/, "")}`,
+  };
+}
+
+export function tryParseSshPublicKey(text: string): SshPublicKey | null {
+  try {
+    return parseSshPublicKey(text);
+  } catch {
+    return null;
+  }
+}
+
+// Fingerprint of a public key line; null when it does not parse
+export function sshFingerprint(publicKey: string): string | null {
+  return tryParseSshPublicKey(publicKey)?.fingerprint ?? null;
+}
+
+export function formatSshPublicKey(key: SshPublicKey): string {
+  return [key.type, key.blob, ...(key.comment ? [key.comment] : [])].join(" ");
+}
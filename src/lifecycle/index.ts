@@ -0,0 +1,156 @@
+import { LIFECYCLE_PHASES, type SpokeStatus } from "../schemas/status";
+import type { Manifest } from "../schemas/manifest";
+import { findPullRequest, publishBranch } from "../transport";
+
+export type Phase = (typeof LIFECYCLE_PHASES)[number];
+
+// Allowed moves per phase; the first entry is the forward step `advance` takes.
+// Later entries step back, e.g. review → build when changes are requested.
+export const TRANSITIONS: Record<Phase, readonly Phase[]> = {
+  specify: ["build"],
+  build: ["harden", "specify"],
+  harden: ["contrib-prep", "build"],
+  "contrib-prep": ["review", "harden"],
+  review: ["shipped", "build"],
+  shipped: ["evolving"],
+  evolving: ["build"],
+};
+
+export interface GateContext {
+  status: SpokeStatus;
+  manifest: Manifest;
+  /** PR URL for `branch` on `hub`, or null */
+  findPullRequest(hub: string, branch: string): Promise<string | null>;
+  publishBranch(project: string): string;
+}
+
+export interface Gate {
+  id: string;
+  description: string;
+  /** Returns null when the gate passes, otherwise why it does not */
+  check(ctx: GateContext): Promise<string | null>;
+}
+
+export interface GateResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  /** Why the gate failed; null when it passed */
+  detail: string | null;
+}
+
+export interface TransitionCheck {
+  from: Phase;
+  to: Phase;
+  /** Whether `to` is reachable from `from` in TRANSITIONS */
+  edge: boolean;
+  gates: GateResult[];
+  allowed: boolean;
+}
+
+// A test command that crashed or exited non-zero proves nothing, whatever
+// it counted; snapshots from before exitCode was recorded have none
+function testCommandFailed({ tests }: SpokeStatus): string | null {
+  if (tests.exitCode === undefined || tests.exitCode === 0) return null;
+  return `test command exited with ${tests.exitCode === null ? "a signal" : `code ${tests.exitCode}`}`;
+}
+
+const testsPassing: Gate = {
+  id: "tests-passing",
+  description: "At least one test passes",
+  check: async ({ status }) =>
+    testCommandFailed(status) ??
+    (status.tests.passing > 0 ? null : "no passing tests in status.yaml"),
+};
+
+const noFailingTests: Gate = {
+  id: "no-failing-tests",
+  description: "Zero failing tests",
+  check: async ({ status }) =>
+    status.tests.failing > 0
+      ? `${status.tests.failing} failing test(s)`
+      : testCommandFailed(status),
+};
+
+const signingActive: Gate = {
+  id: "signing-active",
+  description: "Signing reflex detected active",
+  check: async ({ status }) =>
+    status.reflexes?.signing ? null : "signing reflex not detected in status.yaml",
+};
+
+const prPublished: Gate = {
+  id: "pr-published",
+  description: "Spoke PR published to a hub",
+  check: async ({ manifest, findPullRequest, publishBranch }) => {
+    for (const target of manifest.hubs) {
+      if (await findPullRequest(target.hub, publishBranch(target.project))) return null;
+    }
+    return `no PR found on ${manifest.hubs.map((h) => h.hub).join(", ")} — run 'hive-spoke publish'`;
+  },
+};
+
+// Gates per forward transition; stepping back is never gated
+export const GATES: Partial<Record<`${Phase}->${Phase}`, Gate[]>> = {
+  "build->harden": [testsPassing],
+  "harden->contrib-prep": [noFailingTests, signingActive],
+  "contrib-prep->review": [noFailingTests, prPublished],
+  "review->shipped": [noFailingTests],
+};
+
+// Where every spoke starts; later phases are reached through checkTransition
+export const INITIAL_PHASE: Phase = "specify";
+
+// Phases a new spoke may declare: the initial one and its ungated steps
+export const STARTING_PHASES: readonly Phase[] = [
+  INITIAL_PHASE,
+  ...TRANSITIONS[INITIAL_PHASE].filter((to) => !GATES[`${INITIAL_PHASE}->${to}`]),
+];
+
+export function isPhase(value: string): value is Phase {
+  return (LIFECYCLE_PHASES as readonly string[]).includes(value);
+}
+
+export function nextPhase(from: Phase): Phase {
+  return TRANSITIONS[from][0];
+}
+
+export async function checkTransition(
+  from: Phase,
+  to: Phase,
+  ctx: GateContext
+): Promise<TransitionCheck> {
+  const edge = TRANSITIONS[from].includes(to);
+  const gates: GateResult[] = [];
+  for (const gate of GATES[`${from}->${to}`] ?? []) {
+    const failure = await gate.check(ctx);
+    gates.push({
+      id: gate.id,
+      description: gate.description,
+      passed: failure === null,
+      detail: failure,
+    });
+  }
+  return { from, to, edge, gates, allowed: edge && gates.every((g) => g.passed) };
+}
+
+export function gateContext(manifest: Manifest, status: SpokeStatus): GateContext {
+  return { manifest, status, findPullRequest, publishBranch };
+}
+
+// History entry for status.yaml; `fingerprint` is the key signing the snapshot
+export function transitionRecord(
+  check: TransitionCheck,
+  manifest: Manifest,
+  fingerprint: string | null,
+  forced = false
+): NonNullable<SpokeStatus["transitions"]>[number] {
+  return {
+    from: check.from,
+    to: check.to,
+    at: new Date().toISOString(),
+    by: { handle: manifest.identity.handle, fingerprint },
+    gates: check.gates.filter((g) => g.passed).map((g) => g.id),
+    ...(forced ? { forced: true } : {}),
+  };
+}
@@ -0,0 +1,141 @@
+// Hub policy: rules a hub publishes in .hive/policy.yaml and applies to
+// every spoke it lists. Hubs without a policy get DEFAULT_POLICY.
+
+import { existsSync, readFileSync } from "fs";
+import { load } from "js-yaml";
+import { ZodError } from "zod";
+import { POLICY_FILE, PolicySchema, type HubPolicy } from "../schemas/policy";
+import { LIFECYCLE_PHASES, type SpokeStatus } from "../schemas/status";
+import type { HubView, Manifest } from "../schemas/manifest";
+import type { Operator, TrustZone } from "../schemas/operator";
+import { REFLEX_NAMES } from "../schemas/reflexes";
+import { createSpokeSource, type TransportKind } from "../transport";
+import { SpokeError } from "../utils/errors";
+
+export const DEFAULT_POLICY: HubPolicy = PolicySchema.parse({ schemaVersion: "1.0" });
+
+export interface PolicySubject {
+  /** The manifest as seen by the hub applying the policy */
+  view: HubView;
+  manifest: Manifest;
+  status: SpokeStatus | null;
+  operator: Operator | null;
+}
+
+export interface PolicyViolation {
+  /** The policy field that was violated */
+  rule: "licenses" | "requiredReflexes" | "minListingPhase" | "requiredIdentityProviders";
+  code: string;
+  file: "manifest.yaml" | "status.yaml" | "operator.yaml";
+  path: string;
+  message: string;
+}
+
+export function parsePolicy(content: string, origin: string): HubPolicy {
+  try {
+    return PolicySchema.parse(load(content));
+  } catch (err) {
+    const detail =
+      err instanceof ZodError
+        ? err.issues.map((i) => `${i.path.join(".")} — ${i.message}`).join("; ")
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    throw new SpokeError(`Invalid hub policy in ${origin}: ${detail}`, "INVALID_POLICY");
+  }
+}
+
+// Reads a policy from disk; null when the file does not exist
+export function loadPolicy(path: string): HubPolicy | null {
+  if (!existsSync(path)) return null;
+  return parsePolicy(readFileSync(path, "utf-8"), path);
+}
+
+// Fetches the policy on the hub's default branch (or `branch`); null only
+// when the hub has no policy file, POLICY_UNAVAILABLE when it can't be read
+export async function fetchHubPolicy(
+  hub: string,
+  kind?: TransportKind,
+  branch?: string
+): Promise<HubPolicy | null> {
+  const source = createSpokeSource(hub, kind);
+  let content: string | null;
+  try {
+    content = await source.fetchFile(POLICY_FILE, branch);
+  } catch (err) {
+    throw new SpokeError(
+      `Could not fetch ${hub}/${POLICY_FILE}: ${err instanceof Error ? err.message : String(err)}`,
+      "POLICY_UNAVAILABLE"
+    );
+  } finally {
+    await source.dispose();
+  }
+  return content === null ? null : parsePolicy(content, `${hub}/${POLICY_FILE}`);
+}
+
+// Zone the operator holds on `hub`; operators without an entry are untrusted
+export function trustZone(operator: Operator | null, hub: string): TrustZone {
+  return operator?.hives.find((h) => h.hive === hub)?.trust_zone ?? "untrusted";
+}
+
+export function checkPolicy(policy: HubPolicy, subject: PolicySubject): PolicyViolation[] {
+  const { view, manifest, status, operator } = subject;
+  const violations: PolicyViolation[] = [];
+
+  if (!policy.licenses.includes(view.license)) {
+    violations.push({
+      rule: "licenses",
+      code: "POLICY_LICENSE_NOT_ALLOWED",
+      file: "manifest.yaml",
+      path: "license",
+      message: `License ${view.license} is not allowed by ${view.hub} (allowed: ${policy.licenses.join(", ")})`,
+    });
+  }
+
+  // A claim counts only if status.yaml did not probe it as inactive
+  const zone = trustZone(operator, view.hub);
+  for (const name of REFLEX_NAMES) {
+    if (!policy.requiredReflexes[zone].includes(name)) continue;
+    const claimed = manifest.security.reflexes[name];
+    const detected = status?.reflexes?.[name] ?? true;
+    if (claimed && detected) continue;
+    violations.push({
+      rule: "requiredReflexes",
+      code: "POLICY_REFLEX_REQUIRED",
+      file: "manifest.yaml",
+      path: `security.reflexes.${name}`,
+      message: claimed
+        ? `${name} is required for ${zone} operators on ${view.hub} but status.yaml does not detect it`
+        : `${name} is required for ${zone} operators on ${view.hub} but not claimed`,
+    });
+  }
+
+  if (
+    status &&
+    LIFECYCLE_PHASES.indexOf(status.phase) < LIFECYCLE_PHASES.indexOf(policy.minListingPhase)
+  ) {
+    violations.push({
+      rule: "minListingPhase",
+      code: "POLICY_PHASE_NOT_LISTED",
+      file: "status.yaml",
+      path: "phase",
+      message: `Phase ${status.phase} is below ${policy.minListingPhase}, the earliest phase ${view.hub} lists`,
+    });
+  }
+
+  for (const provider of policy.requiredIdentityProviders) {
+    const linked = operator?.identities.find((i) => i.provider === provider);
+    if (linked?.verified) continue;
+    violations.push({
+      rule: "requiredIdentityProviders",
+      code: "POLICY_IDENTITY_PROVIDER_MISSING",
+      file: "operator.yaml",
+      path: "identities",
+      message: linked
+        ? `${provider} identity ${linked.id} is linked but not verified, as ${view.hub} requires`
+        : `${view.hub} requires a verified ${provider} identity in operator.yaml`,
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,118 @@
+// What publish writes into a hub's projects/<project>/.collab/. Manifest and
+// operator are rebuilt from their parsed schemas, so only schema fields
+// reach the hub; status.yaml and rotations.yaml are signed and must travel
+// byte for byte.
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { load } from "js-yaml";
+import { ZodError } from "zod";
+import { parseDocument } from "../schemas/registry";
+import { OPERATOR_TIERS, type Operator } from "../schemas/operator";
+import type { HubView, Manifest } from "../schemas/manifest";
+import { STATUS_SIGNATURE_FILE } from "../utils/signing";
+import { dumpYaml } from "../utils/yaml";
+import { SpokeError } from "../utils/errors";
+import { ROTATIONS_FILE } from "../keys/rotation";
+
+export const PUBLISHED_FILES = [
+  "manifest.yaml",
+  "status.yaml",
+  STATUS_SIGNATURE_FILE,
+  "operator.yaml",
+  ROTATIONS_FILE,
+] as const;
+
+export type PublishedFile = (typeof PUBLISHED_FILES)[number];
+
+export interface TierExposure {
+  tier: 1 | 2;
+  /** Who sees these fields: all hives, or the one hive named */
+  audience: string;
+  fields: string[];
+}
+
+function projectionHeader(file: string): string {
+  return `# Projected by hive-spoke from the spoke's .collab/${file} — edit it there`;
+}
+
+// Tier 1 plus the one Tier 2 hives entry for `hub`
+export function projectOperator(operator: Operator, hub: string): Operator {
+  return { ...operator, hives: operator.hives.filter((h) => h.hive === hub) };
+}
+
+// Only the hubs entry for `hub`: a hub learns nothing of the others
+export function projectManifest(manifest: Manifest, hub: string): Manifest {
+  return { ...manifest, hubs: manifest.hubs.filter((h) => h.hub === hub) };
+}
+
+// Fields each tier carries to hubs: Tier 1 to all, each hives entry only
+// to the hive it names
+export function tierExposure(operator: Operator): TierExposure[] {
+  const present = (fields: readonly string[]) =>
+    fields.filter((field) => {
+      if (field === "schemaVersion") return false;
+      const value = operator[field as keyof Operator];
+      return value !== undefined && !(Array.isArray(value) && value.length === 0);
+    });
+  const [tier1] = OPERATOR_TIERS;
+  return [
+    { tier: 1, audience: tier1.audience, fields: present(tier1.fields) },
+    ...operator.hives.map((entry) => ({
+      tier: 2 as const,
+      audience: entry.hive,
+      fields: Object.keys(entry),
+    })),
+  ];
+}
+
+// status.yaml is signed, so it cannot be rebuilt like manifest and
+// operator — it is published only if the strict schema accepts it as is
+function checkStatus(content: string): void {
+  try {
+    parseDocument("status", load(content));
+  } catch (err) {
+    const detail =
+      err instanceof ZodError
+        ? err.issues.map((i) => `${i.path.join(".") || "(root)"} — ${i.message}`).join("; ")
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    throw new SpokeError(`.collab/status.yaml cannot be published: ${detail}`, "INVALID_STATUS");
+  }
+}
+
+// File contents to write for one hub; null for files the spoke lacks
+export function projectCollab(
+  collabDir: string,
+  view: HubView
+): Record<PublishedFile, string | null> {
+  const read = (file: string) => {
+    const path = join(collabDir, file);
+    return existsSync(path) ? readFileSync(path, "utf-8") : null;
+  };
+
+  const manifest = read("manifest.yaml");
+  const status = read("status.yaml");
+  const operator = read("operator.yaml");
+  if (status !== null) checkStatus(status);
+  return {
+    "manifest.yaml":
+      manifest === null
+        ? null
+        : dumpYaml(
+            projectManifest(parseDocument("manifest", load(manifest)).data, view.hub),
+            projectionHeader("manifest.yaml")
+          ),
+    "status.yaml": status,
+    [STATUS_SIGNATURE_FILE]: read(STATUS_SIGNATURE_FILE),
+    "operator.yaml":
+      operator === null
+        ? null
+        : dumpYaml(
+            projectOperator(parseDocument("operator", load(operator)).data, view.hub),
+            projectionHeader("operator.yaml")
+          ),
+    [ROTATIONS_FILE]: read(ROTATIONS_FILE),
+  };
+}
@@ -0,0 +1,162 @@
+import { $ } from "bun";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { getSigningConfig } from "../utils/git";
+import { REFLEX_NAMES, type ReflexName } from "../schemas/reflexes";
+
+export interface ReflexProbeResult {
+  detected: boolean;
+  /** Human-readable findings that led to the verdict */
+  evidence: string[];
+}
+
+export type ReflexProbe = (cwd: string) => Promise<ReflexProbeResult>;
+
+function readIfExists(path: string): string | null {
+  try {
+    return existsSync(path) ? readFileSync(path, "utf-8") : null;
+  } catch {
+    return null;
+  }
+}
+
+function listFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter((d) => d.isFile())
+      .map((d) => d.name);
+  } catch {
+    return [];
+  }
+}
+
+// Hook scripts that commonly run before commits or agent tool calls
+const HOOK_SCRIPTS = [
+  ".git/hooks/pre-commit",
+  ".husky/pre-commit",
+  ".pre-commit-config.yaml",
+  ".lefthook.yml",
+  "lefthook.yml",
+];
+
+// Directories where agent/session hook files live
+const HOOK_DIRS = [".claude/hooks", ".collab/hooks", ".hooks", "hooks"];
+
+// Agent settings files that declare hooks inline
+const HOOK_SETTINGS = [".claude/settings.json", ".claude/settings.local.json"];
+
+// Finds hook files (by name) or hook declarations (by content) matching `pattern`
+function findHooks(cwd: string, pattern: RegExp): string[] {
+  const evidence: string[] = [];
+
+  for (const dir of HOOK_DIRS) {
+    for (const file of listFiles(join(cwd, dir))) {
+      if (pattern.test(file)) evidence.push(`hook file ${dir}/${file}`);
+    }
+  }
+
+  for (const file of [...HOOK_SETTINGS, ...HOOK_SCRIPTS]) {
+    const content = readIfExists(join(cwd, file));
+    if (content && pattern.test(content)) {
+      evidence.push(`hook configured in ${file}`);
+    }
+  }
+
+  return evidence;
+}
+
+const probeSigning: ReflexProbe = async (cwd) => {
+  const evidence: string[] = [];
+  const signing = await getSigningConfig(cwd);
+
+  const configured =
+    signing.format === "ssh" && signing.gpgSign && signing.keyPath !== null;
+  if (configured) {
+    evidence.push("git config: gpg.format=ssh, commit.gpgSign=true, signing key set");
+  }
+
+  // %G? is "N" for unsigned commits; anything else carries a signature
+  let signedRecent = false;
+  try {
+    const log = await $`git log -n 10 --format=%G?`.cwd(cwd).quiet().text();
+    const marks = log.split("\n").filter(Boolean);
+    const signed = marks.filter((m) => m !== "N").length;
+    if (marks.length > 0) {
+      evidence.push(`${signed}/${marks.length} recent commits signed`);
+      signedRecent = signed === marks.length;
+    }
+  } catch {
+    // No commits yet
+  }
+
+  return { detected: configured && signedRecent, evidence };
+};
+
+const SECRET_SCANNERS = /gitleaks|trufflehog|detect-secrets|git-secrets/i;
+
+const probeSecretScanning: ReflexProbe = async (cwd) => {
+  const evidence: string[] = [];
+
+  for (const file of [
+    ".gitleaks.toml",
+    "gitleaks.toml",
+    ".gitleaksignore",
+    ".trufflehog.yml",
+    ".trufflehog.yaml",
+    ".secrets.baseline",
+  ]) {
+    if (existsSync(join(cwd, file))) evidence.push(`scanner config ${file}`);
+  }
+
+  for (const file of listFiles(join(cwd, ".github", "workflows"))) {
+    const content = readIfExists(join(cwd, ".github", "workflows", file));
+    if (content && SECRET_SCANNERS.test(content)) {
+      evidence.push(`CI workflow .github/workflows/${file}`);
+    }
+  }
+
+  evidence.push(...findHooks(cwd, SECRET_SCANNERS));
+
+  // Config alone does nothing — require a hook or CI job that runs it
+  const enforced = evidence.some(
+    (e) => e.startsWith("hook") || e.startsWith("CI workflow")
+  );
+  return { detected: enforced, evidence };
+};
+
+const probeSandboxEnforcer: ReflexProbe = async (cwd) => {
+  const evidence = findHooks(cwd, /sandbox[-_ ]?enforc/i);
+  return { detected: evidence.length > 0, evidence };
+};
+
+const probeContentFilter: ReflexProbe = async (cwd) => {
+  const evidence = findHooks(cwd, /content[-_ ]?filter/i);
+  return { detected: evidence.length > 0, evidence };
+};
+
+export const REFLEX_PROBES: Record<ReflexName, ReflexProbe> = {
+  signing: probeSigning,
+  secretScanning: probeSecretScanning,
+  sandboxEnforcer: probeSandboxEnforcer,
+  contentFilter: probeContentFilter,
+};
+
+export async function probeReflexes(
+  cwd: string
+): Promise<Record<ReflexName, ReflexProbeResult>> {
+  const results = {} as Record<ReflexName, ReflexProbeResult>;
+  for (const name of REFLEX_NAMES) {
+    results[name] = await REFLEX_PROBES[name](cwd);
+  }
+  return results;
+}
+
+export function detectedFlags(
+  results: Record<ReflexName, ReflexProbeResult>
+): Record<ReflexName, boolean> {
+  const flags = {} as Record<ReflexName, boolean>;
+  for (const name of REFLEX_NAMES) {
+    flags[name] = results[name].detected;
+  }
+  return flags;
+}
@@ -0,0 +1,241 @@
+// Pre-publish scan of .collab/ for secrets and PII. Everything publish
+// copies to a hub ends up in a public repo, so findings block publishing.
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { PUBLISHED_FILES } from "../projection";
+import { STATUS_SIGNATURE_FILE } from "../utils/signing";
+
+// Local-only: lists values the operator has accepted as safe to publish
+export const ALLOWLIST_FILE = "scan-allowlist";
+
+// Every file publish projects; the signature is not scanned
+export const SCANNED_FILES: string[] = PUBLISHED_FILES.filter(
+  (file) => file !== STATUS_SIGNATURE_FILE
+);
+
+export type FindingKind = "secret" | "pii";
+
+export interface ScanRule {
+  id: string;
+  kind: FindingKind;
+  description: string;
+  pattern: RegExp;
+}
+
+export interface ScanFinding {
+  file: string;
+  /** 1-based */
+  line: number;
+  column: number;
+  rule: string;
+  kind: FindingKind;
+  description: string;
+  /** The matched text, redacted for display */
+  match: string;
+}
+
+export interface Allowlist {
+  rules: Set<string>;
+  values: Set<string>;
+  patterns: RegExp[];
+}
+
+export const SCAN_RULES: ScanRule[] = [
+  {
+    id: "private-key",
+    kind: "secret",
+    description: "Private key block",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----/g,
+  },
+  {
+    id: "aws-access-key",
+    kind: "secret",
+    description: "AWS access key id",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: "github-token",
+    kind: "secret",
+    description: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    id: "gitlab-token",
+    kind: "secret",
+    description: "GitLab personal access token",
+    pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: "slack-token",
+    kind: "secret",
+    description: "Slack token",
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    id: "stripe-key",
+    kind: "secret",
+    description: "Stripe API key",
+    pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  },
+  {
+    id: "google-api-key",
+    kind: "secret",
+    description: "Google API key",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}/g,
+  },
+  {
+    id: "api-key",
+    kind: "secret",
+    description: "sk- prefixed API key (OpenAI, Anthropic, ...)",
+    pattern: /\bsk-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: "jwt",
+    kind: "secret",
+    description: "JSON Web Token",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: "email",
+    kind: "pii",
+    description: "Email address",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+];
+
+// Tokens at least this long are checked for entropy
+const ENTROPY_MIN_LENGTH = 24;
+// Bits per character; random base64 sits near 4.5+, hex (git SHAs) caps at 4
+const ENTROPY_THRESHOLD = 4.2;
+const ENTROPY_TOKEN = new RegExp(`[A-Za-z0-9+/=_-]{${ENTROPY_MIN_LENGTH},}`, "g");
+
+const HIGH_ENTROPY: Omit<ScanRule, "pattern"> = {
+  id: "high-entropy",
+  kind: "secret",
+  description: "High-entropy string (possible secret)",
+};
+
+// Public by design: SSH public keys (the comment too, as hubs publish key
+// principals in allowed-signers) and SHA256 key fingerprints
+const EXEMPT = [
+  /\b(?:ssh-(?:ed25519|rsa|dss)|ecdsa-sha2-nistp\d+|sk-ssh-ed25519@openssh\.com|sk-ecdsa-sha2-nistp256@openssh\.com) [A-Za-z0-9+/=]+(?: [^\s"']+)?/g,
+  /SHA256:[A-Za-z0-9+/=]+/g,
+];
+
+// Armored SSH signatures (rotation statements) are public too; only pure
+// base64 lines between the markers are skipped
+const SIGNATURE_BEGIN = "-----BEGIN SSH SIGNATURE-----";
+const SIGNATURE_END = "-----END SSH SIGNATURE-----";
+const ARMOR_LINE = /^\s*[A-Za-z0-9+/=]+\s*$/;
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export function redact(value: string): string {
+  if (value.length <= 8) return "*".repeat(value.length);
+  return `${value.slice(0, 4)}${"*".repeat(Math.min(value.length - 6, 16))}${value.slice(-2)}`;
+}
+
+// Blanks exempt spans, keeping columns of everything else intact
+function maskExempt(line: string): string {
+  let masked = line;
+  for (const pattern of EXEMPT) {
+    masked = masked.replace(pattern, (span) => " ".repeat(span.length));
+  }
+  return masked;
+}
+
+function isAllowed(allowlist: Allowlist, rule: string, value: string): boolean {
+  return (
+    allowlist.rules.has(rule) ||
+    allowlist.values.has(value) ||
+    allowlist.patterns.some((p) => p.test(value))
+  );
+}
+
+// One entry per line: `rule:<id>` turns a rule off, `/regex/` allows
+// matching values, anything else allows that exact value. `#` comments.
+export function parseAllowlist(content: string): Allowlist {
+  const allowlist: Allowlist = { rules: new Set(), values: new Set(), patterns: [] };
+  for (const raw of content.split("\n")) {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith("#")) continue;
+    if (entry.startsWith("rule:")) {
+      allowlist.rules.add(entry.slice("rule:".length).trim());
+    } else if (entry.length > 2 && entry.startsWith("/") && entry.endsWith("/")) {
+      allowlist.patterns.push(new RegExp(entry.slice(1, -1)));
+    } else {
+      allowlist.values.add(entry);
+    }
+  }
+  return allowlist;
+}
+
+export function loadAllowlist(collabDir: string): Allowlist {
+  const path = join(collabDir, ALLOWLIST_FILE);
+  return parseAllowlist(existsSync(path) ? readFileSync(path, "utf-8") : "");
+}
+
+export function scanText(
+  file: string,
+  content: string,
+  allowlist: Allowlist = parseAllowlist("")
+): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  let inSignature = false;
+  content.split("\n").forEach((text, index) => {
+    if (text.includes(SIGNATURE_BEGIN)) inSignature = true;
+    else if (text.includes(SIGNATURE_END)) inSignature = false;
+    else if (inSignature && ARMOR_LINE.test(text)) return;
+
+    const line = maskExempt(text);
+    const claimed: [number, number][] = [];
+    // First rule to match a span reports it
+    const add = (rule: Omit<ScanRule, "pattern">, match: RegExpMatchArray) => {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (claimed.some(([s, e]) => start < e && end > s)) return;
+      claimed.push([start, end]);
+      if (isAllowed(allowlist, rule.id, match[0])) return;
+      findings.push({
+        file,
+        line: index + 1,
+        column: start + 1,
+        rule: rule.id,
+        kind: rule.kind,
+        description: rule.description,
+        match: redact(match[0]),
+      });
+    };
+
+    for (const rule of SCAN_RULES) {
+      for (const match of line.matchAll(rule.pattern)) add(rule, match);
+    }
+    // Entropy last, so known token formats are reported by name
+    for (const match of line.matchAll(ENTROPY_TOKEN)) {
+      const token = match[0];
+      if (!/\d/.test(token) || !/[A-Za-z]/.test(token)) continue;
+      if (shannonEntropy(token) < ENTROPY_THRESHOLD) continue;
+      add(HIGH_ENTROPY, match);
+    }
+  });
+  return findings;
+}
+
+// Scans the files publish would copy; missing files are skipped
+export function scanCollab(collabDir: string): ScanFinding[] {
+  const allowlist = loadAllowlist(collabDir);
+  return SCANNED_FILES.flatMap((file) => {
+    const path = join(collabDir, file);
+    return existsSync(path) ? scanText(file, readFileSync(path, "utf-8"), allowlist) : [];
+  });
+}
@@ -1,7 +1,22 @@
-export { ManifestSchema, ACCEPTED_LICENSES, type Manifest } from "./manifest";
+export {
+  ManifestSchema,
+  ManifestV1_0Schema,
+  HubTargetSchema,
+  ACCEPTED_LICENSES,
+  TEST_RESULT_FORMATS,
+  hubView,
+  type Manifest,
+  type ManifestV1_0,
+  type HubTarget,
+  type HubView,
+} from "./manifest";
 export {
   StatusSchema,
   LIFECYCLE_PHASES,
+  HEALTH_STATES,
+  type HealthState,
   type SpokeStatus,
 } from "./status";
-export { OperatorSchema, type Operator } from "./operator";
+export { OperatorSchema, TRUST_ZONES, type Operator, type TrustZone } from "./operator";
+export { PolicySchema, POLICY_FILE, type HubPolicy } from "./policy";
+export { RotationsSchema, RotationSchema, type Rotation, type Rotations } from "./rotations";
@@ -0,0 +1,37 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { SCHEMA_VERSIONS, type SchemaKind } from "./registry";
+
+// Where exported schemas are published (the repo's schemas/ directory)
+export const SCHEMA_ID_BASE =
+  "https://raw.githubusercontent.com/mellanon/hive-spoke/main/schemas";
+
+export function schemaFileName(kind: SchemaKind, version: string): string {
+  return `${kind}-${version}.schema.json`;
+}
+
+export function schemaId(kind: SchemaKind, version: string): string {
+  return `${SCHEMA_ID_BASE}/${schemaFileName(kind, version)}`;
+}
+
+// JSON Schema (draft-07) for one registered version of a .collab file.
+// Validates the file as written: defaults are optional, refinements dropped.
+export function toJsonSchema(kind: SchemaKind, version: string): Record<string, unknown> {
+  const entry = SCHEMA_VERSIONS[kind].find((v) => v.version === version);
+  if (!entry) {
+    throw new Error(`Unknown ${kind} schema version: ${version}`);
+  }
+  const { $schema, ...schema } = zodToJsonSchema(entry.schema, {
+    $refStrategy: "none",
+    effectStrategy: "input",
+    pipeStrategy: "input",
+    // Mirror zod: only .strict() objects reject unknown keys
+    removeAdditionalStrategy: "strict",
+  }) as Record<string, unknown>;
+
+  return {
+    $schema,
+    $id: schemaId(kind, version),
+    title: `hive-spoke ${kind} ${version}`,
+    ...schema,
+  };
+}
@@ -9,54 +9,227 @@ export const ACCEPTED_LICENSES = [
   "AGPL-3.0",
 ] as const;
 
-export const ManifestSchema = z.object({
-  schemaVersion: z.literal("1.0"),
-  name: z.string().min(1, "Project name is required"),
-  hub: z
-    .string()
-    .regex(/^[\w-]+\/[\w.-]+$/, "Hub must be in org/repo format"),
-  project: z.string().min(1, "Project identifier is required"),
-  maintainer: z
-    .string()
-    .regex(/^[a-zA-Z0-9-]+$/, "Maintainer must be a valid GitHub handle"),
-  license: z.enum(ACCEPTED_LICENSES, {
-    errorMap: () => ({
-      message: `License must be one of: ${ACCEPTED_LICENSES.join(", ")}`,
-    }),
-  }),
+// How `status` reads the test command's results:
+//   junit — JUnit XML (bun test --reporter=junit, jest-junit, pytest --junitxml)
+//   tap   — TAP 13/14 (node --test, tap, prove)
+//   json  — Jest/Vitest JSON reporter (--json / --reporter=json)
+//   regex — custom patterns over stdout/stderr
+export const TEST_RESULT_FORMATS = ["junit", "tap", "json", "regex"] as const;
 
-  identity: z.object({
-    handle: z.string().min(1, "Identity handle is required"),
-    publicKey: z
-      .string()
-      .startsWith("ssh-ed25519 ", "Public key must be an Ed25519 SSH key"),
-    fingerprint: z
-      .string()
-      .regex(/^SHA256:[A-Za-z0-9+/=]+$/, "Fingerprint must be SHA256 format")
-      .optional(),
-  }),
+const HubSchema = z
+  .string()
+  .regex(/^[\w-]+\/[\w.-]+$/, "Hub must be in org/repo format");
+
+const ProjectSchema = z.string().min(1, "Project identifier is required");
+
+const NameSchema = z.string().min(1, "Project name is required");
+
+const MaintainerSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9-]+$/, "Maintainer must be a valid GitHub handle");
 
-  security: z
-    .object({
-      reflexes: z
-        .object({
-          signing: z.boolean().optional().default(false),
-          secretScanning: z.boolean().optional().default(false),
-          sandboxEnforcer: z.boolean().optional().default(false),
-          contentFilter: z.boolean().optional().default(false),
-        })
-        .optional()
-        .default({}),
-    })
-    .optional()
-    .default({}),
-
-  status: z
-    .object({
-      test: z.string().min(1).optional(),
-      healthCheck: z.string().min(1).optional(),
-    })
-    .optional(),
+const LicenseSchema = z.enum(ACCEPTED_LICENSES, {
+  errorMap: () => ({
+    message: `License must be one of: ${ACCEPTED_LICENSES.join(", ")}`,
+  }),
 });
 
+export const HubTargetSchema = z
+  .object({
+    hub: HubSchema.describe("Hub repository to project to (org/repo)"),
+    project: ProjectSchema.describe("Project identifier on this hub (projects/<project>/)"),
+    overrides: z
+      .object({
+        name: NameSchema.optional().describe("Project name shown on this hub"),
+        maintainer: MaintainerSchema.optional().describe("Maintainer handle on this hub"),
+        license: LicenseSchema.optional().describe("License declared to this hub"),
+      })
+      .strict()
+      .optional()
+      .describe("Top-level fields that differ on this hub"),
+  })
+  .describe("One hub this spoke projects to");
+
+export type HubTarget = z.infer<typeof HubTargetSchema>;
+
+// Fields shared by every manifest version
+const ManifestBaseSchema = z
+  .object({
+    name: NameSchema.describe("Human-readable project name"),
+    maintainer: MaintainerSchema.describe("GitHub handle of the maintainer"),
+    license: LicenseSchema.describe("SPDX license identifier accepted by the hub"),
+
+    identity: z
+      .object({
+        handle: z
+          .string()
+          .min(1, "Identity handle is required")
+          .describe("Operator handle; must match operator.yaml"),
+        publicKey: z
+          .string()
+          .startsWith("ssh-ed25519 ", "Public key must be an Ed25519 SSH key")
+          .describe("OpenSSH Ed25519 public key used for signing"),
+        fingerprint: z
+          .string()
+          .regex(/^SHA256:[A-Za-z0-9+/=]+$/, "Fingerprint must be SHA256 format")
+          .optional()
+          .describe("SHA256 fingerprint of publicKey"),
+      })
+      .describe("Signing identity of the operator (Layer 1: Provable)"),
+
+    security: z
+      .object({
+        reflexes: z
+          .object({
+            signing: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe("Commits are signed with the identity key"),
+            secretScanning: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe("Secrets are scanned before commit or in CI"),
+            sandboxEnforcer: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe("Agent tool calls run behind a sandbox enforcer hook"),
+            contentFilter: z
+              .boolean()
+              .optional()
+              .default(false)
+              .describe("Inbound content passes a content filter hook"),
+          })
+          .optional()
+          .default({})
+          .describe("Claimed security reflexes (Layer 3: Attested)"),
+      })
+      .optional()
+      .default({})
+      .describe("Security posture claims"),
+
+    status: z
+      .object({
+        test: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Shell command that runs the test suite"),
+        healthCheck: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Shell command whose exit code reports project health"),
+        healthTimeout: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Seconds before the health check is killed and reported failing"),
+        results: z
+          .object({
+            format: z
+              .enum(TEST_RESULT_FORMATS, {
+                errorMap: () => ({
+                  message: `Test result format must be one of: ${TEST_RESULT_FORMATS.join(", ")}`,
+                }),
+              })
+              .describe("Format of the test results"),
+            path: z
+              .string()
+              .min(1)
+              .optional()
+              .describe("Report file written by the test command; stdout when omitted"),
+            patterns: z
+              .object({
+                passing: z
+                  .string()
+                  .min(1)
+                  .describe("Regex whose first group is the passing count"),
+                failing: z
+                  .string()
+                  .min(1)
+                  .describe("Regex whose first group is the failing count"),
+                skipped: z
+                  .string()
+                  .min(1)
+                  .optional()
+                  .describe("Regex whose first group is the skipped count"),
+              })
+              .optional()
+              .describe("Count patterns for the regex format"),
+          })
+          .refine((r) => r.format !== "regex" || r.patterns, {
+            message: "regex test results require patterns.passing and patterns.failing",
+            path: ["patterns"],
+          })
+          .optional()
+          .describe("How to read structured test results"),
+      })
+      .optional()
+      .describe("Commands `hive-spoke status` runs to build status.yaml"),
+  });
+
+// 1.0: a single hub target
+export const ManifestV1_0Schema = z
+  .object({
+    schemaVersion: z.literal("1.0").describe("Manifest schema version"),
+    name: ManifestBaseSchema.shape.name,
+    hub: HubSchema.describe("Hub repository this spoke projects to (org/repo)"),
+    project: ProjectSchema.describe("Project identifier on the hub (projects/<project>/)"),
+  })
+  .merge(ManifestBaseSchema.omit({ name: true }))
+  .describe("Spoke manifest 1.0 (.collab/manifest.yaml): identity, security reflexes, hub projection");
+
+export type ManifestV1_0 = z.infer<typeof ManifestV1_0Schema>;
+
+export const ManifestSchema = z
+  .object({
+    schemaVersion: z.literal("1.1").describe("Manifest schema version"),
+    name: ManifestBaseSchema.shape.name,
+    hubs: z
+      .array(HubTargetSchema)
+      .min(1, "At least one hub is required")
+      .refine((hubs) => new Set(hubs.map((h) => h.hub)).size === hubs.length, {
+        message: "Each hub may appear only once",
+      })
+      .describe("Hubs this spoke projects to; publish opens one PR per hub"),
+  })
+  .merge(ManifestBaseSchema.omit({ name: true }))
+  .describe("Spoke manifest (.collab/manifest.yaml): identity, security reflexes, hub projection");
+
 export type Manifest = z.infer<typeof ManifestSchema>;
+
+// 1.0 → 1.1: the single hub/project pair becomes the only hubs entry
+export function upgradeManifestV1_0(doc: Record<string, unknown>): Record<string, unknown> {
+  const { hub, project, ...rest } = doc;
+  const { schemaVersion, name, ...tail } = rest;
+  return { schemaVersion, name, hubs: [{ hub, project }], ...tail };
+}
+
+// The manifest as one hub sees it, with that hub's overrides applied
+export interface HubView {
+  hub: string;
+  project: string;
+  name: string;
+  maintainer: string;
+  license: Manifest["license"];
+}
+
+export function hubView(manifest: Manifest, target: HubTarget): HubView {
+  return {
+    hub: target.hub,
+    project: target.project,
+    name: target.overrides?.name ?? manifest.name,
+    maintainer: target.overrides?.maintainer ?? manifest.maintainer,
+    license: target.overrides?.license ?? manifest.license,
+  };
+}
+
+// The hubs entry a hub sees, matched by its project directory; single-hub
+// manifests match regardless of the directory name
+export function hubTargetForProject(manifest: Manifest, project: string): HubTarget {
+  return manifest.hubs.find((h) => h.project === project) ?? manifest.hubs[0];
+}
@@ -1,57 +1,103 @@
 import { z } from "zod";
 
+export const TRUST_ZONES = ["untrusted", "trusted", "maintainer"] as const;
+
+export type TrustZone = (typeof TRUST_ZONES)[number];
+
+// Tier 3 (private) data has no field here: unknown keys are rejected rather
+// than stripped, so nothing private reaches a hub by accident
+const PRIVATE_FIELD =
+  "Unknown field — Tier 3 (private) data stays in the local blackboard, not operator.yaml";
+
 const IdentityEntrySchema = z.object({
-  provider: z.string().min(1),
-  id: z.string().min(1),
-  verified: z.boolean(),
+  provider: z.string().min(1).describe("Identity provider, e.g. github"),
+  id: z.string().min(1).describe("Account id at the provider"),
+  verified: z.boolean().describe("Whether the account link was verified"),
   verified_at: z
     .string()
     .refine((val) => !isNaN(Date.parse(val)), "Must be valid ISO 8601")
-    .optional(),
-});
+    .optional()
+    .describe("When the link was verified (ISO 8601)"),
+}).strict(PRIVATE_FIELD);
 
 const HiveEntrySchema = z.object({
   hive: z
     .string()
-    .regex(/^[\w-]+\/[\w.-]+$/, "Hive must be in org/repo format"),
-  role: z.enum(["contributor", "reviewer", "maintainer"]).optional(),
-  trust_zone: z.enum(["untrusted", "trusted", "maintainer"]).optional(),
-  identity_provider: z.string().optional(),
+    .regex(/^[\w-]+\/[\w.-]+$/, "Hive must be in org/repo format")
+    .describe("Hive (hub) repository, org/repo"),
+  role: z
+    .enum(["contributor", "reviewer", "maintainer"])
+    .optional()
+    .describe("Role within the hive"),
+  trust_zone: z
+    .enum(TRUST_ZONES)
+    .optional()
+    .describe("Trust zone granted by the hive"),
+  identity_provider: z
+    .string()
+    .optional()
+    .describe("Provider used to authenticate to the hive"),
   joined: z
     .string()
     .refine((val) => !isNaN(Date.parse(val)), "Must be valid ISO 8601")
-    .optional(),
-  contributions: z.number().int().nonnegative().optional(),
-  reviews: z.number().int().nonnegative().optional(),
-  swarms: z.number().int().nonnegative().optional(),
-});
+    .optional()
+    .describe("When the operator joined (ISO 8601)"),
+  contributions: z.number().int().nonnegative().optional().describe("Merged contributions"),
+  reviews: z.number().int().nonnegative().optional().describe("Reviews given"),
+  swarms: z.number().int().nonnegative().optional().describe("Swarms participated in"),
+}).strict(PRIVATE_FIELD);
 
 // Tier 1: Public Identity (visible to all hives)
 const OperatorTier1Schema = z.object({
-  schemaVersion: z.literal("1.0"),
-  handle: z.string().min(1, "Handle is required"),
-  name: z.string().optional(),
-
-  signing: z.object({
-    publicKey: z
-      .string()
-      .startsWith("ssh-ed25519 ", "Must be an Ed25519 SSH key"),
-    fingerprint: z
-      .string()
-      .regex(/^SHA256:[A-Za-z0-9+/=]+$/, "Must be SHA256 format")
-      .optional(),
-  }),
-
-  identities: z.array(IdentityEntrySchema).optional().default([]),
-  skills: z.array(z.string()).optional().default([]),
-  availability: z.enum(["open", "busy", "offline"]).optional().default("open"),
+  schemaVersion: z.literal("1.0").describe("Operator schema version"),
+  handle: z.string().min(1, "Handle is required").describe("Tier 1: operator handle"),
+  name: z.string().optional().describe("Tier 1: display name"),
+
+  signing: z
+    .object({
+      publicKey: z
+        .string()
+        .startsWith("ssh-ed25519 ", "Must be an Ed25519 SSH key")
+        .describe("OpenSSH Ed25519 public key"),
+      fingerprint: z
+        .string()
+        .regex(/^SHA256:[A-Za-z0-9+/=]+$/, "Must be SHA256 format")
+        .optional()
+        .describe("SHA256 fingerprint of publicKey"),
+    })
+    .strict(PRIVATE_FIELD)
+    .describe("Tier 1: signing key; must match manifest.identity"),
+
+  identities: z
+    .array(IdentityEntrySchema)
+    .optional()
+    .default([])
+    .describe("Tier 1: linked external identities"),
+  skills: z.array(z.string()).optional().default([]).describe("Tier 1: declared skills"),
+  availability: z
+    .enum(["open", "busy", "offline"])
+    .optional()
+    .default("open")
+    .describe("Tier 1: availability for new work"),
 });
 
 // Tier 2: Hive-Scoped (visible within joined hives)
 const OperatorTier2Schema = z.object({
-  hives: z.array(HiveEntrySchema).optional().default([]),
+  hives: z
+    .array(HiveEntrySchema)
+    .optional()
+    .default([])
+    .describe("Tier 2: hive memberships; each hive sees only its own entry"),
 });
 
-export const OperatorSchema = OperatorTier1Schema.merge(OperatorTier2Schema);
+export const OperatorSchema = OperatorTier1Schema.merge(OperatorTier2Schema)
+  .strict(PRIVATE_FIELD)
+  .describe("Operator profile (.collab/operator.yaml)");
+
+// Who sees each tier once publish projects operator.yaml to a hub
+export const OPERATOR_TIERS = [
+  { tier: 1, audience: "public, all hives", fields: Object.keys(OperatorTier1Schema.shape) },
+  { tier: 2, audience: "hive-scoped", fields: Object.keys(OperatorTier2Schema.shape) },
+] as const;
 
 export type Operator = z.infer<typeof OperatorSchema>;
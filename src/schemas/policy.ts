@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { ACCEPTED_LICENSES } from "./manifest";
+import { PhaseSchema } from "./status";
+import { TRUST_ZONES, type TrustZone } from "./operator";
+import { REFLEX_NAMES } from "./reflexes";
+
+// Where a hub publishes its policy, relative to the hub repo root
+export const POLICY_FILE = ".hive/policy.yaml";
+
+const ReflexListSchema = z.array(z.enum(REFLEX_NAMES)).optional().default([]);
+
+export const PolicySchema = z
+  .object({
+    schemaVersion: z.literal("1.0").describe("Policy schema version"),
+    licenses: z
+      .array(z.enum(ACCEPTED_LICENSES))
+      .min(1, "At least one license must be allowed")
+      .optional()
+      .default([...ACCEPTED_LICENSES])
+      .describe("Licenses the hub lists; narrows the protocol's accepted set"),
+    maxStalenessDays: z
+      .number()
+      .positive()
+      .optional()
+      .default(7)
+      .describe("Days after which a status.yaml snapshot counts as stale"),
+    minListingPhase: PhaseSchema.optional()
+      .default("specify")
+      .describe(
+        "Earliest lifecycle phase the hub lists a spoke in; pull and dashboard leave out spokes in earlier phases"
+      ),
+    requiredReflexes: z
+      .object(
+        Object.fromEntries(
+          TRUST_ZONES.map((zone) => [
+            zone,
+            ReflexListSchema.describe(`Reflexes required of ${zone} operators`),
+          ])
+        ) as Record<TrustZone, typeof ReflexListSchema>
+      )
+      .strict()
+      .optional()
+      .default({})
+      .describe("Security reflexes required per trust zone (operator.yaml hives[].trust_zone)"),
+    requiredIdentityProviders: z
+      .array(z.string().min(1))
+      .optional()
+      .default([])
+      .describe("Identity providers every operator must have linked, e.g. github"),
+  })
+  .strict()
+  .describe("Hub policy (.hive/policy.yaml)");
+
+export type HubPolicy = z.infer<typeof PolicySchema>;
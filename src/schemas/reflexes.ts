@@ -0,0 +1,11 @@
+// Reflex names shared by the manifest, hub policy and the local probes.
+// Kept free of runtime imports so the SDK can load it outside Bun.
+
+export const REFLEX_NAMES = [
+  "signing",
+  "secretScanning",
+  "sandboxEnforcer",
+  "contentFilter",
+] as const;
+
+export type ReflexName = (typeof REFLEX_NAMES)[number];
@@ -0,0 +1,134 @@
+import type { z } from "zod";
+import {
+  ManifestSchema,
+  ManifestV1_0Schema,
+  upgradeManifestV1_0,
+  type Manifest,
+} from "./manifest";
+import { StatusSchema, type SpokeStatus } from "./status";
+import { OperatorSchema, type Operator } from "./operator";
+import { RotationsSchema, type Rotations } from "./rotations";
+import { SpokeError } from "../utils/errors";
+
+export const SCHEMA_KINDS = ["manifest", "status", "operator", "rotations"] as const;
+
+export type SchemaKind = (typeof SCHEMA_KINDS)[number];
+
+interface SchemaTypes {
+  manifest: Manifest;
+  status: SpokeStatus;
+  operator: Operator;
+  rotations: Rotations;
+}
+
+export type RawDocument = Record<string, unknown>;
+
+export interface SchemaVersion {
+  version: string;
+  schema: z.ZodTypeAny;
+  /** Still accepted, but `migrate` should be run */
+  deprecated?: boolean;
+  /** Rewrites a document of this version into the next version in the list */
+  upgrade?: (doc: RawDocument) => RawDocument;
+}
+
+// Every supported version per file, oldest first; the last entry is current.
+// Add a version by appending it and giving its predecessor an `upgrade`.
+export const SCHEMA_VERSIONS: Record<SchemaKind, SchemaVersion[]> = {
+  manifest: [
+    {
+      version: "1.0",
+      schema: ManifestV1_0Schema,
+      deprecated: true,
+      upgrade: upgradeManifestV1_0,
+    },
+    { version: "1.1", schema: ManifestSchema },
+  ],
+  status: [{ version: "1.0", schema: StatusSchema }],
+  operator: [{ version: "1.0", schema: OperatorSchema }],
+  rotations: [{ version: "1.0", schema: RotationsSchema }],
+};
+
+export interface ParsedDocument<T> {
+  data: T;
+  /** schemaVersion as found in the file */
+  version: string;
+  deprecated: boolean;
+  /** Whether `data` was upgraded from an older version */
+  migrated: boolean;
+}
+
+export interface MigrationResult {
+  from: string;
+  to: string;
+  /** The document rewritten to the current version (unknown keys kept) */
+  document: RawDocument;
+}
+
+export function currentVersion(
+  kind: SchemaKind,
+  versions: SchemaVersion[] = SCHEMA_VERSIONS[kind]
+): string {
+  return versions[versions.length - 1].version;
+}
+
+function versionIndex(kind: SchemaKind, raw: unknown, versions: SchemaVersion[]): number {
+  const declared =
+    raw && typeof raw === "object" ? (raw as RawDocument).schemaVersion : undefined;
+  const index = versions.findIndex((v) => v.version === String(declared));
+  if (declared === undefined || index === -1) {
+    throw new SpokeError(
+      `Unsupported ${kind} schemaVersion ${declared === undefined ? "(missing)" : `"${declared}"`}. Supported: ${versions.map((v) => v.version).join(", ")}`,
+      "UNSUPPORTED_SCHEMA_VERSION"
+    );
+  }
+  return index;
+}
+
+// Upgrades a raw document step by step to the current version. The input is
+// validated against its own version first so broken files are not rewritten.
+export function migrateDocument(
+  kind: SchemaKind,
+  raw: unknown,
+  versions: SchemaVersion[] = SCHEMA_VERSIONS[kind]
+): MigrationResult {
+  const start = versionIndex(kind, raw, versions);
+  versions[start].schema.parse(raw);
+
+  let document = raw as RawDocument;
+  for (let i = start; i < versions.length - 1; i++) {
+    const upgrade = versions[i].upgrade;
+    if (!upgrade) {
+      throw new Error(
+        `No migration from ${kind} ${versions[i].version} to ${versions[i + 1].version}`
+      );
+    }
+    document = { ...upgrade(document), schemaVersion: versions[i + 1].version };
+  }
+
+  return {
+    from: versions[start].version,
+    to: currentVersion(kind, versions),
+    document,
+  };
+}
+
+// Parses any supported version into the current shape
+export function parseDocument<K extends SchemaKind>(
+  kind: K,
+  raw: unknown,
+  versions: SchemaVersion[] = SCHEMA_VERSIONS[kind]
+): ParsedDocument<SchemaTypes[K]> {
+  const { from, to, document } = migrateDocument(kind, raw, versions);
+  const entry = versions.find((v) => v.version === from)!;
+  return {
+    data: versions[versions.length - 1].schema.parse(document) as SchemaTypes[K],
+    version: from,
+    deprecated: entry.deprecated ?? false,
+    migrated: from !== to,
+  };
+}
+
+export function deprecationWarning(kind: SchemaKind, version: string): string {
+  return `${kind} schemaVersion ${version} is deprecated — run 'hive-spoke migrate' (current: ${currentVersion(kind)})`;
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+const KeyRefSchema = z.object({
+  publicKey: z
+    .string()
+    .startsWith("ssh-ed25519 ", "Must be an Ed25519 SSH key")
+    .describe("OpenSSH Ed25519 public key"),
+  fingerprint: z
+    .string()
+    .regex(/^SHA256:[A-Za-z0-9+/=]+$/, "Must be SHA256 format")
+    .describe("SHA256 fingerprint of publicKey"),
+});
+
+export const RotationSchema = z
+  .object({
+    from: KeyRefSchema.describe("Key being retired; it signs this statement"),
+    to: KeyRefSchema.describe("Key taking over identity.publicKey"),
+    at: z
+      .string()
+      .refine((val) => !isNaN(Date.parse(val)), "Must be valid ISO 8601")
+      .describe("When the rotation was made (ISO 8601)"),
+    reason: z.string().optional().describe("Why the key was rotated"),
+    signature: z
+      .string()
+      .startsWith("-----BEGIN SSH SIGNATURE-----", "Must be an armored SSH signature")
+      .describe("Signature by `from` over the statement (namespace hive-spoke-rotation)"),
+  })
+  .describe("One key rotation statement");
+
+export const RotationsSchema = z
+  .object({
+    schemaVersion: z.literal("1.0").describe("Rotations schema version"),
+    handle: z.string().min(1).describe("Operator handle the statements are bound to"),
+    rotations: z
+      .array(RotationSchema)
+      .describe("Rotation statements, oldest first; each `from` is the previous `to`"),
+  })
+  .describe("Signed key rotation history (.collab/rotations.yaml)");
+
+export type Rotation = z.infer<typeof RotationSchema>;
+export type Rotations = z.infer<typeof RotationsSchema>;
@@ -10,34 +10,157 @@ export const LIFECYCLE_PHASES = [
   "evolving",
 ] as const;
 
-export const StatusSchema = z.object({
-  schemaVersion: z.literal("1.0"),
-  generatedAt: z.string().refine(
-    (val) => !isNaN(Date.parse(val)),
-    "generatedAt must be a valid ISO 8601 timestamp"
-  ),
-  generatedBy: z.string().min(1, "generatedBy is required"),
-
-  phase: z.enum(LIFECYCLE_PHASES, {
-    errorMap: () => ({
-      message: `Phase must be one of: ${LIFECYCLE_PHASES.join(", ")}`,
-    }),
-  }),
+// healthy: check passed; degraded: passed but slow; failing: failed or timed out
+export const HEALTH_STATES = ["healthy", "degraded", "failing"] as const;
 
-  tests: z.object({
-    passing: z.number().int().nonnegative(),
-    failing: z.number().int().nonnegative(),
-  }),
+export type HealthState = (typeof HEALTH_STATES)[number];
 
-  git: z.object({
-    branch: z.string().min(1, "Branch name is required"),
-    lastCommit: z.string().refine(
-      (val) => !isNaN(Date.parse(val)),
-      "lastCommit must be a valid date"
-    ),
-    dirty: z.boolean(),
-    behindRemote: z.number().int().nonnegative(),
+export const PhaseSchema = z.enum(LIFECYCLE_PHASES, {
+  errorMap: () => ({
+    message: `Phase must be one of: ${LIFECYCLE_PHASES.join(", ")}`,
   }),
 });
 
+export const StatusSchema = z
+  .object({
+    schemaVersion: z.literal("1.0").describe("Status schema version"),
+    generatedAt: z
+      .string()
+      .refine(
+        (val) => !isNaN(Date.parse(val)),
+        "generatedAt must be a valid ISO 8601 timestamp"
+      )
+      .describe("When the snapshot was generated (ISO 8601)"),
+    generatedBy: z
+      .string()
+      .min(1, "generatedBy is required")
+      .describe("Tool and version that generated the snapshot"),
+
+    phase: PhaseSchema.describe("Lifecycle phase of the project"),
+
+    transitions: z
+      .array(
+        z
+          .object({
+            from: PhaseSchema.describe("Phase before the transition"),
+            to: PhaseSchema.describe("Phase after the transition"),
+            at: z
+              .string()
+              .refine((val) => !isNaN(Date.parse(val)), "at must be a valid ISO 8601 timestamp")
+              .describe("When the transition happened (ISO 8601)"),
+            by: z
+              .object({
+                handle: z.string().min(1).describe("Operator handle from manifest.identity"),
+                fingerprint: z
+                  .string()
+                  .nullable()
+                  .describe("Fingerprint of the key that signed status.yaml; null if unsigned"),
+              })
+              .strict()
+              .describe("Who made the transition"),
+            gates: z
+              .array(z.string())
+              .describe("Gates that passed for this transition"),
+            forced: z
+              .boolean()
+              .optional()
+              .describe("Recorded with --force despite failing gates or no graph edge"),
+          })
+          .strict()
+          .describe("One phase transition")
+      )
+      .optional()
+      .describe("Phase transition history, oldest first (`hive-spoke phase`)"),
+
+    tests: z
+      .object({
+        passing: z.number().int().nonnegative().describe("Passing tests"),
+        failing: z.number().int().nonnegative().describe("Failing tests"),
+        skipped: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Skipped or todo tests"),
+        durationMs: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Wall-clock duration of the test command"),
+        exitCode: z
+          .number()
+          .int()
+          .nullable()
+          .optional()
+          .describe("Exit code of the test command; null when killed by a signal"),
+        failures: z
+          .array(z.string())
+          .optional()
+          .describe("Names of failing tests, when the result format reports them"),
+      })
+      .strict()
+      .describe("Test results at generation time"),
+
+    git: z
+      .object({
+        branch: z
+          .string()
+          .min(1, "Branch name is required")
+          .describe("Checked-out branch"),
+        lastCommit: z
+          .string()
+          .refine(
+            (val) => !isNaN(Date.parse(val)),
+            "lastCommit must be a valid date"
+          )
+          .describe("Date of the last commit"),
+        dirty: z.boolean().describe("Uncommitted changes present"),
+        behindRemote: z
+          .number()
+          .int()
+          .nonnegative()
+          .describe("Commits the branch is behind its upstream"),
+      })
+      .strict()
+      .describe("Git working tree state"),
+
+    health: z
+      .object({
+        state: z.enum(HEALTH_STATES).describe("Health verdict"),
+        exitCode: z
+          .number()
+          .int()
+          .nullable()
+          .describe("Exit code of the health check; null when killed"),
+        durationMs: z
+          .number()
+          .int()
+          .nonnegative()
+          .describe("Wall-clock duration of the health check"),
+        timedOut: z.boolean().describe("Whether the check hit its timeout"),
+        output: z.string().describe("Tail of the check's combined output"),
+      })
+      .strict()
+      .optional()
+      .describe("Result of manifest.status.healthCheck at generation time"),
+
+    reflexes: z
+      .object({
+        signing: z.boolean().describe("Commit signing detected"),
+        secretScanning: z.boolean().describe("Secret scanning hook or CI detected"),
+        sandboxEnforcer: z.boolean().describe("Sandbox enforcer hook detected"),
+        contentFilter: z.boolean().describe("Content filter hook detected"),
+      })
+      .strict()
+      .optional()
+      .describe(
+        "Reflexes detected by probes (Layer 2: Detected), as opposed to the claims in manifest.security.reflexes"
+      ),
+  })
+  // status.yaml is published byte for byte, so fields outside the contract
+  // must be rejected rather than stripped
+  .strict()
+  .describe("Spoke status snapshot (.collab/status.yaml), generated by `hive-spoke status`");
+
 export type SpokeStatus = z.infer<typeof StatusSchema>;
@@ -0,0 +1,147 @@
+// Library entry point (`hive-spoke/sdk`): spoke-contract schemas and
+// validation for other tools. Must not import commander or CLI output.
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { load } from "js-yaml";
+import { ZodError } from "zod";
+import {
+  deprecationWarning,
+  parseDocument,
+  type ParsedDocument,
+  type SchemaKind,
+} from "./schemas/registry";
+import type { Manifest } from "./schemas/manifest";
+import type { SpokeStatus } from "./schemas/status";
+import type { Operator } from "./schemas/operator";
+import type { Rotations } from "./schemas/rotations";
+
+export {
+  ManifestSchema,
+  ManifestV1_0Schema,
+  HubTargetSchema,
+  StatusSchema,
+  OperatorSchema,
+  PolicySchema,
+  RotationsSchema,
+  ACCEPTED_LICENSES,
+  LIFECYCLE_PHASES,
+  HEALTH_STATES,
+  TEST_RESULT_FORMATS,
+  TRUST_ZONES,
+  POLICY_FILE,
+  hubView,
+  type Manifest,
+  type ManifestV1_0,
+  type HubTarget,
+  type HubView,
+  type SpokeStatus,
+  type Operator,
+  type TrustZone,
+  type HubPolicy,
+  type Rotation,
+  type Rotations,
+  type HealthState,
+} from "./schemas";
+export {
+  currentVersion,
+  deprecationWarning,
+  migrateDocument,
+  parseDocument,
+  SCHEMA_KINDS,
+  SCHEMA_VERSIONS,
+  type MigrationResult,
+  type ParsedDocument,
+  type SchemaKind,
+  type SchemaVersion,
+} from "./schemas/registry";
+export { schemaId, toJsonSchema } from "./schemas/json-schema";
+
+interface DocumentTypes {
+  manifest: Manifest;
+  status: SpokeStatus;
+  operator: Operator;
+  rotations: Rotations;
+}
+
+export interface ContractIssue {
+  /** Dotted path to the offending field; empty for document-level issues */
+  path: string;
+  message: string;
+}
+
+export type ContractResult<T> =
+  | ({ ok: true; warnings: string[] } & ParsedDocument<T>)
+  | { ok: false; issues: ContractIssue[] };
+
+// Validates an already-parsed document; never throws
+export function validateDocument<K extends SchemaKind>(
+  kind: K,
+  raw: unknown
+): ContractResult<DocumentTypes[K]> {
+  try {
+    const parsed = parseDocument(kind, raw);
+    const warnings = parsed.deprecated ? [deprecationWarning(kind, parsed.version)] : [];
+    return { ok: true, warnings, ...parsed };
+  } catch (err) {
+    if (err instanceof ZodError) {
+      return {
+        ok: false,
+        issues: err.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      };
+    }
+    return {
+      ok: false,
+      issues: [{ path: "", message: err instanceof Error ? err.message : String(err) }],
+    };
+  }
+}
+
+// Validates YAML text, e.g. a file fetched from a spoke repo
+export function validateYaml<K extends SchemaKind>(
+  kind: K,
+  yaml: string
+): ContractResult<DocumentTypes[K]> {
+  let raw: unknown;
+  try {
+    raw = load(yaml);
+  } catch (err) {
+    return {
+      ok: false,
+      issues: [{ path: "", message: err instanceof Error ? err.message : String(err) }],
+    };
+  }
+  return validateDocument(kind, raw);
+}
+
+// Loads and parses a .collab file; throws on missing or invalid files
+export function loadDocument<K extends SchemaKind>(
+  kind: K,
+  filePath: string
+): DocumentTypes[K] {
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return parseDocument(kind, load(readFileSync(filePath, "utf-8"))).data;
+}
+
+export interface CollabFiles {
+  manifest: Manifest;
+  status: SpokeStatus | null;
+  operator: Operator | null;
+  rotations: Rotations | null;
+}
+
+// Loads a spoke's .collab/ directory; only manifest.yaml is required
+export function loadCollab(collabDir: string): CollabFiles {
+  const optional = <K extends SchemaKind>(kind: K) => {
+    const path = join(collabDir, `${kind}.yaml`);
+    return existsSync(path) ? loadDocument(kind, path) : null;
+  };
+  return {
+    manifest: loadDocument("manifest", join(collabDir, "manifest.yaml")),
+    status: optional("status"),
+    operator: optional("operator"),
+    rotations: optional("rotations"),
+  };
+}
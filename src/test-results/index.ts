@@ -0,0 +1,219 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { isAbsolute, join } from "path";
+import type { Manifest } from "../schemas/manifest";
+
+type ResultsConfig = NonNullable<NonNullable<Manifest["status"]>["results"]>;
+
+export interface TestCounts {
+  passing: number;
+  failing: number;
+  skipped: number;
+  /** Failing test names, in report order */
+  failures: string[];
+}
+
+export interface TestRun extends TestCounts {
+  durationMs: number;
+  exitCode: number | null;
+  /** Set when the declared report could not be used */
+  warning?: string;
+}
+
+// Keeps status.yaml readable when a whole suite breaks
+export const MAX_REPORTED_FAILURES = 50;
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, key, value] of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attrs[key] = decodeXml(value);
+  }
+  return attrs;
+}
+
+// Counts <testcase> elements; suite-level totals are ignored because
+// reporters disagree on whether errors and skips are included in them.
+export function parseJunit(xml: string): TestCounts {
+  const counts: TestCounts = { passing: 0, failing: 0, skipped: 0, failures: [] };
+  const testcase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const [, attrText, body = ""] of xml.matchAll(testcase)) {
+    const attrs = xmlAttributes(attrText);
+    if (/<(failure|error)\b/.test(body)) {
+      counts.failing++;
+      const name = attrs.name ?? "unnamed test";
+      counts.failures.push(attrs.classname ? `${attrs.classname} > ${name}` : name);
+    } else if (/<skipped\b/.test(body)) {
+      counts.skipped++;
+    } else {
+      counts.passing++;
+    }
+  }
+  return counts;
+}
+
+// Top-level TAP test points only; indented subtests roll up into their parent
+export function parseTap(tap: string): TestCounts {
+  const counts: TestCounts = { passing: 0, failing: 0, skipped: 0, failures: [] };
+  const point = /^(not ok|ok)\b\s*\d*\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+).*)?$/;
+
+  for (const line of tap.split("\n")) {
+    const match = line.match(point);
+    if (!match) continue;
+    const [, result, description, directive = ""] = match;
+    if (/^(skip|todo)$/i.test(directive)) {
+      counts.skipped++;
+    } else if (result === "ok") {
+      counts.passing++;
+    } else {
+      counts.failing++;
+      counts.failures.push(description || "unnamed test");
+    }
+  }
+  return counts;
+}
+
+interface JestAssertion {
+  status: string;
+  title?: string;
+  fullName?: string;
+  ancestorTitles?: string[];
+}
+
+interface JestReport {
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numPendingTests?: number;
+  numTodoTests?: number;
+  testResults?: { assertionResults?: JestAssertion[] }[];
+}
+
+// Jest --json / Vitest --reporter=json (same report shape)
+export function parseJsonReport(json: string): TestCounts {
+  // Reporters writing to stdout may be preceded by other output
+  const start = json.indexOf("{");
+  const report = JSON.parse(start > 0 ? json.slice(start) : json) as JestReport;
+  if (typeof report.numPassedTests !== "number") {
+    throw new Error("not a Jest/Vitest JSON report (numPassedTests missing)");
+  }
+
+  const failures = (report.testResults ?? []).flatMap((file) =>
+    (file.assertionResults ?? [])
+      .filter((a) => a.status === "failed")
+      .map(
+        (a) =>
+          a.fullName ?? [...(a.ancestorTitles ?? []), a.title ?? "unnamed test"].join(" > ")
+      )
+  );
+
+  return {
+    passing: report.numPassedTests,
+    failing: report.numFailedTests ?? 0,
+    skipped: (report.numPendingTests ?? 0) + (report.numTodoTests ?? 0),
+    failures,
+  };
+}
+
+function countFrom(output: string, pattern: string | undefined): number {
+  if (!pattern) return 0;
+  return parseInt(output.match(new RegExp(pattern))?.[1] ?? "0", 10);
+}
+
+export function parseRegex(
+  output: string,
+  patterns: { passing: string; failing: string; skipped?: string }
+): TestCounts {
+  return {
+    passing: countFrom(output, patterns.passing),
+    failing: countFrom(output, patterns.failing),
+    skipped: countFrom(output, patterns.skipped),
+    failures: [],
+  };
+}
+
+// Fallback when no results format is declared: bun ("42 pass") and
+// jest/vitest ("5 passed") summary lines
+const DEFAULT_PATTERNS = {
+  passing: "(\\d+)\\s+pass(?:ed)?\\b",
+  failing: "(\\d+)\\s+fail(?:ed)?\\b",
+  skipped: "(\\d+)\\s+skip(?:ped)?\\b",
+};
+
+export function parseTestResults(
+  content: string,
+  config: ResultsConfig | undefined
+): TestCounts {
+  switch (config?.format) {
+    case "junit":
+      return parseJunit(content);
+    case "tap":
+      return parseTap(content);
+    case "json":
+      return parseJsonReport(content);
+    case "regex":
+      return parseRegex(content, config.patterns ?? DEFAULT_PATTERNS);
+    default:
+      return parseRegex(content, DEFAULT_PATTERNS);
+  }
+}
+
+// Runs the manifest's test command and reads its results in the declared
+// format. A report file older than this run is treated as missing.
+export async function runTests(
+  command: string,
+  config: ResultsConfig | undefined,
+  cwd: string
+): Promise<TestRun> {
+  const started = Date.now();
+  const proc = Bun.spawn(["sh", "-c", command], {
+    cwd,
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [stdout, stderr] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  await proc.exited;
+  const durationMs = Date.now() - started;
+  const exitCode = proc.signalCode ? null : proc.exitCode;
+
+  // Structured reporters own stdout; summary lines may be on either stream
+  let content: string | null =
+    config && config.format !== "regex" ? stdout : stdout + stderr;
+  let warning: string | undefined;
+  if (config?.path) {
+    const reportPath = isAbsolute(config.path) ? config.path : join(cwd, config.path);
+    if (existsSync(reportPath) && statSync(reportPath).mtimeMs >= started - 1000) {
+      content = readFileSync(reportPath, "utf-8");
+    } else {
+      content = null;
+      warning = `No fresh test report at ${config.path}`;
+    }
+  }
+
+  let counts = parseRegex(stdout + stderr, DEFAULT_PATTERNS);
+  if (content !== null) {
+    try {
+      counts = parseTestResults(content, config);
+    } catch (err) {
+      warning = `Could not parse ${config?.format} test results — ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  return {
+    ...counts,
+    failures: counts.failures.slice(0, MAX_REPORTED_FAILURES),
+    durationMs,
+    exitCode,
+    ...(warning ? { warning } : {}),
+  };
+}
@@ -0,0 +1,173 @@
+import { $ } from "bun";
+import { rmSync } from "fs";
+import { join } from "path";
+import type {
+  HubCheckout,
+  HubTransport,
+  SpokeSource,
+  SubmitResult,
+} from "./types";
+
+export function tempDir(purpose: string): string {
+  const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return join(process.env.TMPDIR ?? "/tmp", `hive-spoke-${purpose}-${suffix}`);
+}
+
+// Shallow-clones `url` into `dir` and checks out `branch`, creating it
+// when the remote does not have it yet. Returns whether it already existed.
+export async function cloneOnBranch(
+  url: string,
+  dir: string,
+  branch: string
+): Promise<boolean> {
+  const clone = await $`git clone --quiet --depth 1 ${url} ${dir}`
+    .quiet()
+    .nothrow();
+  if (clone.exitCode !== 0) {
+    throw new Error(`Failed to clone hub repo: ${url}`);
+  }
+  return checkoutBranch(dir, branch);
+}
+
+export async function checkoutBranch(
+  dir: string,
+  branch: string
+): Promise<boolean> {
+  const heads = await $`git ls-remote --heads origin ${branch}`
+    .cwd(dir)
+    .quiet()
+    .nothrow()
+    .text();
+
+  if (heads.includes(`refs/heads/${branch}`)) {
+    // Shallow clones only carry the default branch — fetch the PR branch too
+    await $`git fetch --quiet --depth 1 origin ${branch}`.cwd(dir).quiet();
+    await $`git checkout --quiet -B ${branch} FETCH_HEAD`.cwd(dir).quiet();
+    return true;
+  }
+
+  await $`git checkout --quiet -b ${branch}`.cwd(dir).quiet();
+  return false;
+}
+
+export class GitCheckout implements HubCheckout {
+  constructor(
+    readonly dir: string,
+    readonly branch: string,
+    readonly branchExisted: boolean
+  ) {}
+
+  async commit(paths: string[], message: string): Promise<void> {
+    await $`git add ${paths}`.cwd(this.dir).quiet();
+    const commit = await $`git commit --quiet -m ${message}`
+      .cwd(this.dir)
+      .quiet()
+      .nothrow();
+    if (commit.exitCode !== 0) {
+      throw new Error(`Failed to commit to hub: ${commit.stderr.toString().trim()}`);
+    }
+  }
+
+  async push(): Promise<void> {
+    const push = await $`git push --quiet -u origin ${this.branch}`
+      .cwd(this.dir)
+      .quiet()
+      .nothrow();
+    if (push.exitCode !== 0) {
+      throw new Error("Failed to push branch to hub.");
+    }
+  }
+
+  async submit(_pr: { title: string; body: string }): Promise<SubmitResult> {
+    // Plain git remotes have no PR concept — the pushed branch is the request
+    await this.push();
+    return { outcome: "pushed", ref: this.branch };
+  }
+
+  async dispose(): Promise<void> {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+export class GitRemoteTransport implements HubTransport {
+  readonly kind = "git" as const;
+
+  constructor(readonly location: string) {}
+
+  async checkout(branch: string): Promise<HubCheckout> {
+    const dir = tempDir("publish");
+    const existed = await cloneOnBranch(this.location, dir, branch);
+    return new GitCheckout(dir, branch, existed);
+  }
+}
+
+export class GitSpokeSource implements SpokeSource {
+  readonly kind = "git" as const;
+  private repoDir: string | null = null;
+  private branches = new Map<string, boolean>();
+
+  constructor(readonly location: string) {}
+
+  // Local ref a fetched branch is stored under; the default branch is
+  // fetched through the remote's HEAD
+  private localRef(branch: string | undefined): string {
+    return branch ? `refs/heads/${branch}` : "refs/hive-spoke/default";
+  }
+
+  private async fetchBranch(
+    branch: string | undefined,
+    depth: number = 1
+  ): Promise<string | null> {
+    if (!this.repoDir) {
+      this.repoDir = tempDir("source");
+      await $`git init --quiet --bare ${this.repoDir}`.quiet();
+    }
+
+    const key = `${branch ?? "HEAD"}@${depth}`;
+    if (!this.branches.has(key)) {
+      const remoteRef = branch ? `refs/heads/${branch}` : "HEAD";
+      const fetch =
+        await $`git fetch --quiet --depth ${depth} ${this.location} +${remoteRef}:${this.localRef(branch)}`
+          .cwd(this.repoDir)
+          .quiet()
+          .nothrow();
+      if (fetch.exitCode !== 0) {
+        const stderr = fetch.stderr.toString();
+        // A reachable repo without the branch — anything else is a failure
+        if (!/couldn't find remote ref/i.test(stderr)) {
+          const reason = stderr.match(/^fatal: (.*)$/m)?.[1] ?? stderr.trim();
+          throw new Error(`Failed to fetch ${this.location}: ${reason}`);
+        }
+      }
+      this.branches.set(key, fetch.exitCode === 0);
+    }
+
+    return this.branches.get(key) ? this.repoDir : null;
+  }
+
+  async fetchFile(path: string, branch?: string): Promise<string | null> {
+    const repoDir = await this.fetchBranch(branch);
+    if (!repoDir) return null;
+
+    const show = await $`git show ${`${this.localRef(branch)}:${path}`}`
+      .cwd(repoDir)
+      .quiet()
+      .nothrow();
+    return show.exitCode === 0 ? show.stdout.toString() : null;
+  }
+
+  async history(branch: string, depth: number): Promise<string | null> {
+    try {
+      return await this.fetchBranch(branch, depth);
+    } catch {
+      return null;
+    }
+  }
+
+  async dispose(): Promise<void> {
+    if (this.repoDir) {
+      rmSync(this.repoDir, { recursive: true, force: true });
+      this.repoDir = null;
+    }
+  }
+}
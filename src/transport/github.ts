@@ -0,0 +1,205 @@
+import { $ } from "bun";
+import { rmSync } from "fs";
+import { GitCheckout, checkoutBranch, tempDir } from "./git";
+import { HttpCache } from "./http-cache";
+import { RetryableError, withRetry } from "../utils/concurrency";
+import type {
+  HubCheckout,
+  HubTransport,
+  SpokeSource,
+  SubmitResult,
+} from "./types";
+
+class GitHubCheckout extends GitCheckout {
+  constructor(
+    dir: string,
+    branch: string,
+    branchExisted: boolean,
+    private readonly repo: string
+  ) {
+    super(dir, branch, branchExisted);
+  }
+
+  async submit(pr: { title: string; body: string }): Promise<SubmitResult> {
+    await this.push();
+
+    const existing =
+      await $`gh pr list --repo ${this.repo} --head ${this.branch} --json number --jq .[0].number`
+        .cwd(this.dir)
+        .quiet()
+        .nothrow()
+        .text();
+    const number = existing.trim();
+    if (number && number !== "null") {
+      // PR exists — it's been updated by the push
+      return { outcome: "pr-updated", ref: number };
+    }
+
+    const created =
+      await $`gh pr create --repo ${this.repo} --title ${pr.title} --body ${pr.body} --head ${this.branch}`
+        .cwd(this.dir)
+        .quiet()
+        .nothrow();
+    if (created.exitCode !== 0) {
+      throw new Error("Failed to create PR on hub.");
+    }
+    return { outcome: "pr-created", ref: created.stdout.toString().trim() };
+  }
+}
+
+// URL of a PR (open, merged or closed) from `branch` on a GitHub hub, or
+// null when there is none or gh cannot tell
+export async function findPullRequest(repo: string, branch: string): Promise<string | null> {
+  const out =
+    await $`gh pr list --repo ${repo} --head ${branch} --state all --json url --jq .[0].url`
+      .quiet()
+      .nothrow();
+  const url = out.stdout.toString().trim();
+  return out.exitCode === 0 && url && url !== "null" ? url : null;
+}
+
+export class GitHubTransport implements HubTransport {
+  readonly kind = "github" as const;
+
+  constructor(readonly location: string) {}
+
+  async checkout(branch: string): Promise<HubCheckout> {
+    const dir = tempDir("publish");
+    const clone = await $`gh repo clone ${this.location} ${dir} -- --depth 1`
+      .quiet()
+      .nothrow();
+    if (clone.exitCode !== 0) {
+      throw new Error(
+        `Failed to clone hub repo: ${this.location}. Is 'gh' authenticated?`
+      );
+    }
+    const existed = await checkoutBranch(dir, branch);
+    return new GitHubCheckout(dir, branch, existed, this.location);
+  }
+}
+
+export interface ApiResponse {
+  status: number;
+  headers: Map<string, string>;
+  body: string;
+}
+
+// Parses `gh api -i` output: status line, headers, blank line, body.
+// status is 0 when gh failed before getting a response (e.g. not logged in).
+export function parseApiResponse(raw: string): ApiResponse {
+  const normalized = raw.replace(/\r\n/g, "\n");
+  const split = normalized.indexOf("\n\n");
+  const head = split === -1 ? normalized : normalized.slice(0, split);
+  const body = split === -1 ? "" : normalized.slice(split + 2);
+  const [statusLine, ...lines] = head.split("\n");
+  const status = Number(statusLine.match(/^HTTP\/[\d.]+ (\d{3})/)?.[1] ?? 0);
+
+  const headers = new Map<string, string>();
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+    }
+  }
+  return { status, headers, body };
+}
+
+export function isRateLimited(response: ApiResponse): boolean {
+  const { status, headers, body } = response;
+  return (
+    status === 429 ||
+    (status === 403 &&
+      (headers.get("x-ratelimit-remaining") === "0" || /rate limit/i.test(body)))
+  );
+}
+
+// Server hint for when to retry (Retry-After, then X-RateLimit-Reset), or
+// null to fall back to exponential backoff
+export function retryAfterMs(
+  response: ApiResponse,
+  now: number = Date.now()
+): number | null {
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (retryAfter > 0) return retryAfter * 1000;
+  const reset = Number(response.headers.get("x-ratelimit-reset"));
+  if (reset > 0) return Math.max(0, reset * 1000 - now);
+  return null;
+}
+
+export class GitHubSpokeSource implements SpokeSource {
+  readonly kind = "github" as const;
+  private clones: string[] = [];
+  private readonly cache: HttpCache | null;
+
+  constructor(readonly location: string, httpCacheDir?: string) {
+    this.cache = httpCacheDir ? new HttpCache(httpCacheDir) : null;
+  }
+
+  private async request(endpoint: string, etag: string | null): Promise<ApiResponse> {
+    const headers = etag ? ["-H", `If-None-Match: ${etag}`] : [];
+    return withRetry(async () => {
+      const out = await $`gh api -i ${headers} ${endpoint}`.quiet().nothrow();
+      const response = parseApiResponse(out.stdout.toString());
+      if (isRateLimited(response)) {
+        throw new RetryableError(
+          `GitHub API rate limit exceeded (${this.location})`,
+          retryAfterMs(response)
+        );
+      }
+      if (response.status >= 500) {
+        throw new RetryableError(`GitHub API error ${response.status} (${this.location})`);
+      }
+      return response;
+    });
+  }
+
+  async fetchFile(path: string, branch?: string): Promise<string | null> {
+    // Without a ref the contents API reads the repo's default branch
+    const ref = branch ? `?ref=${branch}` : "";
+    const endpoint = `repos/${this.location}/contents/${path}${ref}`;
+    const cached = this.cache?.get(endpoint) ?? null;
+    const response = await this.request(endpoint, cached?.etag ?? null);
+
+    // Unchanged since the cached ETag — free against the rate limit
+    if (response.status === 304 && cached) return cached.body;
+    // Missing file, branch or repo
+    if (response.status === 404) return null;
+    if (response.status !== 200) {
+      throw new Error(
+        response.status === 0
+          ? `Could not reach the GitHub API for ${this.location}. Is 'gh' installed and authenticated?`
+          : `GitHub API error ${response.status} (${this.location})`
+      );
+    }
+
+    let base64: string;
+    try {
+      base64 = (JSON.parse(response.body) as { content?: string }).content ?? "";
+    } catch {
+      return null;
+    }
+    if (!base64) return null;
+    const content = Buffer.from(base64, "base64").toString("utf-8");
+
+    const etag = response.headers.get("etag");
+    if (this.cache && etag) this.cache.set(endpoint, { etag, body: content });
+    return content;
+  }
+
+  async history(branch: string, depth: number): Promise<string | null> {
+    const dir = tempDir("history");
+    this.clones.push(dir);
+    const clone =
+      await $`gh repo clone ${this.location} ${dir} -- --quiet --bare --depth ${depth} --branch ${branch}`
+        .quiet()
+        .nothrow();
+    return clone.exitCode === 0 ? dir : null;
+  }
+
+  async dispose(): Promise<void> {
+    for (const dir of this.clones) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    this.clones = [];
+  }
+}
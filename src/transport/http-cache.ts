@@ -0,0 +1,34 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export interface CachedResponse {
+  etag: string;
+  body: string;
+}
+
+// ETag store for conditional GitHub API requests. A 304 reply costs no
+// rate-limit quota, so re-pulling unchanged spokes is nearly free.
+export class HttpCache {
+  constructor(private readonly dir: string) {}
+
+  private pathFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    return join(this.dir, `${hash}.json`);
+  }
+
+  get(key: string): CachedResponse | null {
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return null;
+    try {
+      return JSON.parse(readFileSync(path, "utf-8")) as CachedResponse;
+    } catch {
+      return null;
+    }
+  }
+
+  set(key: string, response: CachedResponse): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.pathFor(key), JSON.stringify(response), "utf-8");
+  }
+}
@@ -0,0 +1,81 @@
+import { GitHubSpokeSource, GitHubTransport } from "./github";
+import { GitRemoteTransport, GitSpokeSource } from "./git";
+import { LocalSpokeSource, LocalTransport } from "./local";
+import {
+  TRANSPORT_KINDS,
+  type HubTransport,
+  type SpokeSource,
+  type SpokeSourceOptions,
+  type TransportKind,
+} from "./types";
+
+export {
+  TRANSPORT_KINDS,
+  type HubCheckout,
+  type HubTransport,
+  type SpokeSource,
+  type SpokeSourceOptions,
+  type SubmitResult,
+  type TransportKind,
+} from "./types";
+export { findPullRequest } from "./github";
+
+// Branch that `publish` opens a spoke's hub PR from
+export function publishBranch(project: string): string {
+  return `spoke/${project}/status-update`;
+}
+
+// Infer the backend from a location string:
+//   file://, https://, ssh://, git@host:path, *.git  → git
+//   /abs, ./rel, ../rel, ~/home                     → local
+//   org/repo                                        → github
+export function detectTransportKind(location: string): TransportKind {
+  if (/^(file|https?|ssh|git):\/\//.test(location)) return "git";
+  if (/^[\w.-]+@[\w.-]+:/.test(location)) return "git";
+  if (location.endsWith(".git")) return "git";
+  if (/^(\/|\.\.?\/|~\/)/.test(location)) return "local";
+  if (/^[\w-]+\/[\w.-]+$/.test(location)) return "github";
+
+  throw new Error(
+    `Cannot determine transport for "${location}". Use org/repo, a git URL, or a ./path.`
+  );
+}
+
+export function parseTransportKind(kind: string | undefined): TransportKind | undefined {
+  if (kind === undefined) return undefined;
+  if (!(TRANSPORT_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(
+      `Invalid transport: "${kind}". Must be one of: ${TRANSPORT_KINDS.join(", ")}`
+    );
+  }
+  return kind as TransportKind;
+}
+
+export function createSpokeSource(
+  location: string,
+  kind: TransportKind = detectTransportKind(location),
+  options: SpokeSourceOptions = {}
+): SpokeSource {
+  switch (kind) {
+    case "github":
+      return new GitHubSpokeSource(location, options.httpCacheDir);
+    case "git":
+      return new GitSpokeSource(location);
+    case "local":
+      return new LocalSpokeSource(location);
+  }
+}
+
+export function createHubTransport(
+  location: string,
+  kind: TransportKind = detectTransportKind(location)
+): HubTransport {
+  switch (kind) {
+    case "github":
+      return new GitHubTransport(location);
+    case "git":
+      return new GitRemoteTransport(location);
+    case "local":
+      return new LocalTransport(location);
+  }
+}
@@ -0,0 +1,72 @@
+import { $ } from "bun";
+import { existsSync, readFileSync, statSync } from "fs";
+import { join, resolve } from "path";
+import type {
+  HubCheckout,
+  HubTransport,
+  SpokeSource,
+  SubmitResult,
+} from "./types";
+
+// Plain directories have no branches: files are read and written in place
+
+class LocalCheckout implements HubCheckout {
+  readonly branchExisted = false;
+
+  constructor(readonly dir: string) {}
+
+  async commit(_paths: string[], _message: string): Promise<void> {}
+
+  async submit(_pr: { title: string; body: string }): Promise<SubmitResult> {
+    return { outcome: "written", ref: this.dir };
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+function expandPath(location: string): string {
+  return resolve(location.replace(/^~(?=\/)/, process.env.HOME ?? "~"));
+}
+
+function resolveDirectory(location: string): string {
+  const dir = expandPath(location);
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`Local directory not found: ${location}`);
+  }
+  return dir;
+}
+
+export class LocalTransport implements HubTransport {
+  readonly kind = "local" as const;
+
+  constructor(readonly location: string) {}
+
+  async checkout(_branch: string): Promise<HubCheckout> {
+    return new LocalCheckout(resolveDirectory(this.location));
+  }
+}
+
+export class LocalSpokeSource implements SpokeSource {
+  readonly kind = "local" as const;
+
+  constructor(readonly location: string) {}
+
+  async fetchFile(path: string, _branch?: string): Promise<string | null> {
+    const file = join(resolveDirectory(this.location), path);
+    if (!existsSync(file)) return null;
+    return readFileSync(file, "utf-8");
+  }
+
+  async history(branch: string, _depth: number): Promise<string | null> {
+    // A local spoke is its own clone — use its object store directly
+    const dir = expandPath(this.location);
+    if (!existsSync(dir)) return null;
+    const ref = await $`git rev-parse --verify --quiet refs/heads/${branch}`
+      .cwd(dir)
+      .quiet()
+      .nothrow();
+    return ref.exitCode === 0 ? dir : null;
+  }
+
+  async dispose(): Promise<void> {}
+}
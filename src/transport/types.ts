@@ -0,0 +1,54 @@
+export const TRANSPORT_KINDS = ["github", "git", "local"] as const;
+
+export type TransportKind = (typeof TRANSPORT_KINDS)[number];
+
+export interface SpokeSourceOptions {
+  /** Directory for ETags of conditional API requests (github only) */
+  httpCacheDir?: string;
+}
+
+// Read-only access to a spoke repo's files (used by hub-side commands)
+export interface SpokeSource {
+  readonly kind: TransportKind;
+  readonly location: string;
+  /**
+   * Returns file contents at `path` on `branch` (the default branch when
+   * omitted), or null if the file or branch does not exist. Throws when the
+   * source cannot be read at all (unreachable, unauthenticated, rate-limited).
+   */
+  fetchFile(path: string, branch?: string): Promise<string | null>;
+  /**
+   * Returns a local git directory holding the last `depth` commits of
+   * `branch` as refs/heads/<branch>, or null if the history is unavailable.
+   */
+  history(branch: string, depth: number): Promise<string | null>;
+  /** Releases any temporary clones held by the source. */
+  dispose(): Promise<void>;
+}
+
+export type SubmitOutcome = "pr-created" | "pr-updated" | "pushed" | "written";
+
+export interface SubmitResult {
+  outcome: SubmitOutcome;
+  /** PR number/URL, pushed branch, or written directory */
+  ref: string;
+}
+
+// A working copy of the hub that publish writes projected files into
+export interface HubCheckout {
+  readonly dir: string;
+  /** Whether the publish branch already existed on the hub */
+  readonly branchExisted: boolean;
+  /** Records changes under `paths` (no-op for plain directories). */
+  commit(paths: string[], message: string): Promise<void>;
+  /** Delivers committed changes to the hub. */
+  submit(pr: { title: string; body: string }): Promise<SubmitResult>;
+  dispose(): Promise<void>;
+}
+
+// Write access to a hub (used by spoke-side publish)
+export interface HubTransport {
+  readonly kind: TransportKind;
+  readonly location: string;
+  checkout(branch: string): Promise<HubCheckout>;
+}
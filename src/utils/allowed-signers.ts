@@ -0,0 +1,262 @@
+// OpenSSH allowed_signers files (ssh-keygen(1), ALLOWED SIGNERS):
+//
+//   principals [options] keytype base64-key [comment]
+//
+// principals is a comma-separated list of patterns, optionally quoted;
+// options are cert-authority, namespaces="...", valid-after="..." and
+// valid-before="...". A principal may appear on several lines.
+
+import { existsSync, readFileSync } from "fs";
+
+export interface AllowedSigner {
+  /** Principal patterns (`*`, `?` and `!` negation, as in OpenSSH) */
+  principals: string[];
+  /** The key is a CA trusted to certify signer keys, not a signer itself */
+  certAuthority: boolean;
+  /** Namespaces the key may sign in; null when unrestricted */
+  namespaces: string[] | null;
+  validAfter: Date | null;
+  validBefore: Date | null;
+  keyType: string;
+  /** "type base64", without the comment */
+  publicKey: string;
+  comment: string | null;
+  /** 1-based line in the file; 0 for entries not read from a file */
+  line: number;
+}
+
+export interface AllowedSignersError {
+  line: number;
+  message: string;
+}
+
+export interface AllowedSigners {
+  signers: AllowedSigner[];
+  /** Lines OpenSSH would reject; they are skipped */
+  errors: AllowedSignersError[];
+}
+
+export interface SignerCheck {
+  namespace?: string;
+  at?: Date;
+}
+
+const KEY_TYPE = /^(ssh-(ed25519|rsa|dss)|ecdsa-sha2-nistp(256|384|521)|sk-(ssh-ed25519|ecdsa-sha2-nistp256)@openssh\.com)(-cert-v01@openssh\.com)?$/;
+
+// Reads one field from `pos`. Double quotes may wrap spaces; with `keepQuotes`
+// they stay in the value (options parse their own quoting).
+function readField(
+  line: string,
+  pos: number,
+  keepQuotes: boolean
+): { value: string; end: number } {
+  while (pos < line.length && /\s/.test(line[pos])) pos++;
+  let value = "";
+  let quoted = false;
+  for (; pos < line.length; pos++) {
+    const ch = line[pos];
+    if (ch === '"') {
+      quoted = !quoted;
+      if (keepQuotes) value += ch;
+      continue;
+    }
+    if (!quoted && /\s/.test(ch)) break;
+    value += ch;
+  }
+  if (quoted) throw new Error("Missing closing quote");
+  return { value, end: pos };
+}
+
+// Splits on commas outside double quotes
+function splitOptions(field: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const ch of field) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === "," && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// YYYYMMDD[HHMM[SS]][Z]; local time unless suffixed with Z
+export function parseSignerTime(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(Z)?$/);
+  if (!match) throw new Error(`Invalid time "${value}" (expected YYYYMMDD[HHMM[SS]][Z])`);
+  const [, y, mo, d, h = "0", mi = "0", s = "0", utc] = match;
+  const parts = [+y, +mo - 1, +d, +h, +mi, +s] as const;
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  if (isNaN(date.getTime())) throw new Error(`Invalid time "${value}"`);
+  return date;
+}
+
+// Always UTC, to the second
+export function formatSignerTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-T:]/g, "")}Z`;
+}
+
+function applyOptions(field: string, signer: AllowedSigner): void {
+  for (const option of splitOptions(field)) {
+    const eq = option.indexOf("=");
+    const name = (eq === -1 ? option : option.slice(0, eq)).toLowerCase();
+    const raw = eq === -1 ? null : option.slice(eq + 1);
+    if (name === "cert-authority" && raw === null) {
+      signer.certAuthority = true;
+      continue;
+    }
+    if (raw === null || !/^".*"$/.test(raw)) {
+      throw new Error(
+        raw === null ? `Unknown option "${option}"` : `Option ${name} needs a quoted value`
+      );
+    }
+    const value = raw.slice(1, -1);
+    switch (name) {
+      case "namespaces":
+        signer.namespaces = value.split(",").map((ns) => ns.trim()).filter(Boolean);
+        break;
+      case "valid-after":
+        signer.validAfter = parseSignerTime(value);
+        break;
+      case "valid-before":
+        signer.validBefore = parseSignerTime(value);
+        break;
+      default:
+        throw new Error(`Unknown option "${name}"`);
+    }
+  }
+}
+
+function parseLine(text: string, line: number): AllowedSigner {
+  const principals = readField(text, 0, false);
+  if (!principals.value) throw new Error("Missing principals");
+
+  let next = readField(text, principals.end, true);
+  const signer: AllowedSigner = {
+    principals: principals.value.split(",").filter(Boolean),
+    certAuthority: false,
+    namespaces: null,
+    validAfter: null,
+    validBefore: null,
+    keyType: "",
+    publicKey: "",
+    comment: null,
+    line,
+  };
+  if (!KEY_TYPE.test(next.value)) {
+    applyOptions(next.value, signer);
+    next = readField(text, next.end, false);
+  }
+  if (!KEY_TYPE.test(next.value)) {
+    throw new Error(next.value ? `Unknown key type "${next.value}"` : "Missing public key");
+  }
+  const key = readField(text, next.end, false);
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(key.value)) {
+    throw new Error("Missing or malformed base64 key");
+  }
+  signer.keyType = next.value;
+  signer.publicKey = `${next.value} ${key.value}`;
+  signer.comment = text.slice(key.end).trim() || null;
+  if (signer.principals.length === 0) throw new Error("Missing principals");
+  return signer;
+}
+
+export function parseAllowedSignersContent(content: string): AllowedSigners {
+  const result: AllowedSigners = { signers: [], errors: [] };
+  content.split("\n").forEach((raw, i) => {
+    const text = raw.trim();
+    if (!text || text.startsWith("#")) return;
+    try {
+      result.signers.push(parseLine(text, i + 1));
+    } catch (err) {
+      result.errors.push({ line: i + 1, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  return result;
+}
+
+export function parseAllowedSigners(filePath: string): AllowedSigners {
+  if (!existsSync(filePath)) return { signers: [], errors: [] };
+  return parseAllowedSignersContent(readFileSync(filePath, "utf-8"));
+}
+
+// One allowed_signers line; principals are quoted when they contain spaces
+export function formatAllowedSigner(signer: Omit<AllowedSigner, "line" | "keyType">): string {
+  const options = [
+    ...(signer.certAuthority ? ["cert-authority"] : []),
+    ...(signer.namespaces ? [`namespaces="${signer.namespaces.join(",")}"`] : []),
+    ...(signer.validAfter ? [`valid-after="${formatSignerTime(signer.validAfter)}"`] : []),
+    ...(signer.validBefore ? [`valid-before="${formatSignerTime(signer.validBefore)}"`] : []),
+  ];
+  const principals = signer.principals.join(",");
+  return [
+    /\s/.test(principals) ? `"${principals}"` : principals,
+    ...(options.length > 0 ? [options.join(",")] : []),
+    signer.publicKey.trim().split(/\s+/).slice(0, 2).join(" "),
+    ...(signer.comment ? [signer.comment] : []),
+  ].join(" ");
+}
+
+// OpenSSH match_pattern: `*` and `?` wildcards over the whole name
+function matchPattern(name: string, pattern: string): boolean {
+  const regex = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+// A negated pattern that matches always wins, as in match_pattern_list
+export function matchesPrincipal(signer: AllowedSigner, name: string): boolean {
+  let matched = false;
+  for (const pattern of signer.principals) {
+    if (pattern.startsWith("!")) {
+      if (matchPattern(name, pattern.slice(1))) return false;
+    } else if (matchPattern(name, pattern)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+export function isValidAt(signer: AllowedSigner, at: Date): boolean {
+  return (
+    (!signer.validAfter || at >= signer.validAfter) &&
+    (!signer.validBefore || at < signer.validBefore)
+  );
+}
+
+export function allowsNamespace(signer: AllowedSigner, namespace: string): boolean {
+  return !signer.namespaces || signer.namespaces.some((pattern) => matchPattern(namespace, pattern));
+}
+
+// Compares "type base64" and ignores trailing comments on either side
+export function sameKey(a: string, b: string): boolean {
+  const [aType, aKey] = a.trim().split(/\s+/);
+  const [bType, bKey] = b.trim().split(/\s+/);
+  return !!aType && !!aKey && aType === bType && aKey === bKey;
+}
+
+// Entries for `publicKey` itself; cert-authority lines only vouch for
+// certificates, never for the plain key
+export function signersForKey(signers: AllowedSigners, publicKey: string): AllowedSigner[] {
+  return signers.signers.filter(
+    (signer) => !signer.certAuthority && sameKey(signer.publicKey, publicKey)
+  );
+}
+
+// Principals to pass to `ssh-keygen -Y verify -I` for this key, limited to
+// entries usable for `check.namespace` at `check.at`
+export function principalsForKey(
+  signers: AllowedSigners,
+  publicKey: string,
+  check: SignerCheck = {}
+): string[] {
+  const principals = signersForKey(signers, publicKey)
+    .filter((signer) => !check.namespace || allowsNamespace(signer, check.namespace))
+    .filter((signer) => !check.at || isValidAt(signer, check.at))
+    .flatMap((signer) => signer.principals.filter((p) => !p.startsWith("!")));
+  return [...new Set(principals)];
+}
@@ -0,0 +1,98 @@
+import { $ } from "bun";
+
+export type CommitSignatureState =
+  | "manifest-key" // good signature by the key the manifest declares
+  | "other-signer" // good signature by a different allowed-signers key
+  | "unknown-signer" // signed, but by a key outside allowed-signers
+  | "invalid" // signature present but does not verify
+  | "unsigned";
+
+export interface AuditedCommit {
+  sha: string;
+  state: CommitSignatureState;
+  fingerprint: string | null;
+}
+
+export interface CommitAudit {
+  branch: string;
+  total: number;
+  signedByManifestKey: number;
+  otherSigner: number;
+  unknownSigner: number;
+  invalid: number;
+  unsigned: number;
+  /** Fraction of audited commits signed by the manifest key (0–1) */
+  manifestKeyShare: number;
+  commits: AuditedCommit[];
+}
+
+async function verifyCommit(
+  gitDir: string,
+  sha: string,
+  allowedSignersPath: string
+): Promise<{ state: Exclude<CommitSignatureState, "manifest-key">; fingerprint: string | null }> {
+  const result =
+    await $`git -c gpg.format=ssh -c gpg.ssh.allowedSignersFile=${allowedSignersPath} verify-commit --raw ${sha}`
+      .cwd(gitDir)
+      .quiet()
+      .nothrow();
+  const output = result.stderr.toString();
+  const fingerprint = output.match(/key (SHA256:[A-Za-z0-9+/=]+)/)?.[1] ?? null;
+
+  if (result.exitCode === 0) {
+    return { state: "other-signer", fingerprint };
+  }
+  if (output.includes("No principal matched")) {
+    return { state: "unknown-signer", fingerprint };
+  }
+  if (!output.trim() || /no signature found/i.test(output)) {
+    return { state: "unsigned", fingerprint: null };
+  }
+  return { state: "invalid", fingerprint };
+}
+
+// Runs `git verify-commit` against the hub's allowed-signers for the last
+// `depth` commits of `branch`. This turns the manifest's "signing" reflex
+// from a claim (Layer 3) into something the hub can prove (Layer 1).
+export async function auditCommits(
+  gitDir: string,
+  branch: string,
+  depth: number,
+  allowedSignersPath: string,
+  manifestFingerprint: string | null
+): Promise<CommitAudit> {
+  const revList =
+    await $`git rev-list --max-count=${depth} refs/heads/${branch}`
+      .cwd(gitDir)
+      .quiet()
+      .text();
+  const shas = revList.split("\n").filter(Boolean);
+
+  const commits: AuditedCommit[] = [];
+  for (const sha of shas) {
+    const verified = await verifyCommit(gitDir, sha, allowedSignersPath);
+    const state: CommitSignatureState =
+      verified.state === "other-signer" &&
+      manifestFingerprint !== null &&
+      verified.fingerprint === manifestFingerprint
+        ? "manifest-key"
+        : verified.state;
+    commits.push({ sha, state, fingerprint: verified.fingerprint });
+  }
+
+  const count = (state: CommitSignatureState) =>
+    commits.filter((c) => c.state === state).length;
+  const signedByManifestKey = count("manifest-key");
+
+  return {
+    branch,
+    total: commits.length,
+    signedByManifestKey,
+    otherSigner: count("other-signer"),
+    unknownSigner: count("unknown-signer"),
+    invalid: count("invalid"),
+    unsigned: count("unsigned"),
+    manifestKeyShare: commits.length > 0 ? signedByManifestKey / commits.length : 0,
+    commits,
+  };
+}
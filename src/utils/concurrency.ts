@@ -0,0 +1,77 @@
+// Parallel spoke fetches. Low enough to stay under GitHub's secondary
+// rate limits, high enough that a 100-spoke hub pulls in seconds.
+export const DEFAULT_CONCURRENCY = 8;
+
+export function parseConcurrency(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid concurrency: "${value}". Must be a positive integer.`);
+  }
+  return n;
+}
+
+// Maps `items` through `fn` with at most `limit` calls in flight.
+// Results keep the input order regardless of completion order.
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  onSettled?: (done: number, total: number, item: T) => void
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+      done++;
+      onSettled?.(done, items.length, items[index]);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+export class RetryableError extends Error {
+  constructor(
+    message: string,
+    /** Server-provided wait (e.g. Retry-After), overrides backoff */
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retries `fn` while it throws RetryableError, with exponential backoff
+// plus jitter. Any other error is rethrown immediately.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 60_000 }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!(err instanceof RetryableError) || attempt >= retries) throw err;
+      const backoff = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      await sleep(Math.min(err.retryAfterMs ?? backoff, maxDelayMs));
+    }
+  }
+}
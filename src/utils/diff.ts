@@ -0,0 +1,61 @@
+export interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+// Line diff via longest common subsequence; fine for .collab-sized files
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: "-", text: a[i++] });
+    } else {
+      lines.push({ op: "+", text: b[j++] });
+    }
+  }
+  return lines;
+}
+
+// Changed lines with `context` unchanged lines around each hunk
+export function formatDiff(lines: DiffLine[], context: number = 2): string[] {
+  const keep = lines.map((line, i) =>
+    lines
+      .slice(Math.max(0, i - context), i + context + 1)
+      .some((l) => l.op !== " ")
+  );
+
+  const out: string[] = [];
+  let skipped = false;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      skipped = true;
+      return;
+    }
+    if (skipped && out.length > 0) out.push("  ...");
+    skipped = false;
+    out.push(`${line.op} ${line.text}`);
+  });
+  return out;
+}
+
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((l) => l.op !== " ");
+}
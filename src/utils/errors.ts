@@ -20,7 +20,8 @@ export function withErrorHandling(
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       if (jsonMode()) {
-        console.log(formatJson({ error: message }, false));
+        const code = err instanceof SpokeError ? err.code : undefined;
+        console.log(formatJson({ error: message, ...(code ? { code } : {}) }, false));
       } else {
         console.error(`Error: ${message}`);
       }
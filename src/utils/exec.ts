@@ -0,0 +1,22 @@
+export interface CommandResult {
+  stdout: string;
+  exitCode: number;
+}
+
+export async function runCommand(
+  cmd: string,
+  cwd: string
+): Promise<CommandResult> {
+  try {
+    const proc = Bun.spawn(["sh", "-c", cmd], {
+      cwd,
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const stdout = await new Response(proc.stdout).text();
+    await proc.exited;
+    return { stdout: stdout.trim(), exitCode: proc.exitCode ?? 1 };
+  } catch {
+    return { stdout: "", exitCode: 1 };
+  }
+}
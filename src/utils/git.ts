@@ -1,4 +1,12 @@
 import { $ } from "bun";
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  formatSshPublicKey,
+  KEY_LITERAL_PREFIX,
+  tryParseSshPublicKey,
+  type SshPublicKey,
+} from "../keys/ssh-key";
 
 export interface GitState {
   branch: string;
@@ -67,8 +75,13 @@ export async function getGitUserEmail(cwd?: string): Promise<string | null> {
 
 export interface SigningConfig {
   format: string | null;
+  /** user.signingKey as configured */
   signingKey: string | null;
   gpgSign: boolean;
+  /** Where the key comes from: a key file, a literal in user.signingKey, or gpg.ssh.defaultKeyCommand */
+  source: "file" | "literal" | "agent" | null;
+  /** What to pass to signData: a key file path, or `key::<public key>` for agent-held keys */
+  keyPath: string | null;
   publicKey: string | null;
   fingerprint: string | null;
 }
@@ -82,50 +95,79 @@ export async function getGitHubHandle(): Promise<string | null> {
   }
 }
 
+// Points git commit signing at an SSH key: gpg.format, user.signingKey and
+// commit.gpgSign, in the repo config or the global one
+export async function configureSshSigning(
+  cwd: string,
+  publicKeyPath: string,
+  global: boolean
+): Promise<void> {
+  const scope = global ? "--global" : "--local";
+  for (const [key, value] of [
+    ["gpg.format", "ssh"],
+    ["user.signingKey", publicKeyPath],
+    ["commit.gpgSign", "true"],
+  ]) {
+    const result = await $`git config ${scope} ${key} ${value}`.cwd(cwd).quiet().nothrow();
+    if (result.exitCode !== 0) {
+      throw new Error(`git config ${scope} ${key} failed: ${result.stderr.toString().trim()}`);
+    }
+  }
+}
+
+// Resolves the signing key the way git does, reading only public keys:
+// user.signingKey is a path (with ~ expanded by git), a `key::` literal or a
+// bare public key (1Password and other agents); without it,
+// gpg.ssh.defaultKeyCommand names the agent key.
 export async function getSigningConfig(
   cwd?: string
 ): Promise<SigningConfig> {
   const dir = cwd ?? process.cwd();
 
-  const getConfig = async (key: string): Promise<string | null> => {
-    try {
-      const result = await $`git config ${key}`.cwd(dir).quiet().text();
-      return result.trim() || null;
-    } catch {
-      return null;
-    }
+  const getConfig = async (key: string, type?: "path"): Promise<string | null> => {
+    const args = type ? [`--type=${type}`, key] : [key];
+    const result = await $`git config ${args}`.cwd(dir).quiet().nothrow();
+    return result.exitCode === 0 ? result.stdout.toString().trim() || null : null;
   };
 
   const format = await getConfig("gpg.format");
   const signingKey = await getConfig("user.signingKey");
   const gpgSign = (await getConfig("commit.gpgSign")) === "true";
 
-  let publicKey: string | null = null;
-  let fingerprint: string | null = null;
-
-  if (signingKey) {
-    // Resolve the actual key file path
-    const keyPath = signingKey.replace("~", process.env.HOME ?? "");
-    try {
-      const keyContent = await Bun.file(keyPath).text();
-      publicKey = keyContent.trim();
-    } catch {
-      // Key file not readable
-    }
-
-    // Get fingerprint
-    try {
-      const privKeyPath = keyPath.replace(".pub", "");
-      const result =
-        await $`ssh-keygen -l -f ${privKeyPath}`.quiet().text();
-      const match = result.match(/(SHA256:[A-Za-z0-9+/=]+)/);
-      if (match) {
-        fingerprint = match[1];
-      }
-    } catch {
-      // Can't compute fingerprint
+  let source: SigningConfig["source"] = null;
+  let keyPath: string | null = null;
+  let key: SshPublicKey | null = null;
+
+  if (signingKey && (signingKey.startsWith(KEY_LITERAL_PREFIX) || tryParseSshPublicKey(signingKey))) {
+    source = "literal";
+    key = tryParseSshPublicKey(signingKey);
+  } else if (signingKey) {
+    source = "file";
+    keyPath = resolve(dir, (await getConfig("user.signingKey", "path")) ?? signingKey);
+    // A private key path signs via its .pub sibling; the private half is never read
+    const pubPath = keyPath.endsWith(".pub") ? keyPath : `${keyPath}.pub`;
+    key = existsSync(pubPath) ? tryParseSshPublicKey(readFileSync(pubPath, "utf-8")) : null;
+  } else {
+    const command = await getConfig("gpg.ssh.defaultKeyCommand");
+    if (command) {
+      const result = await $`sh -c ${command}`.cwd(dir).quiet().nothrow();
+      const first = result.stdout.toString().split("\n").find((line) => line.trim());
+      key = result.exitCode === 0 && first ? tryParseSshPublicKey(first) : null;
+      if (key) source = "agent";
     }
   }
 
-  return { format, signingKey, gpgSign, publicKey, fingerprint };
+  const publicKey = key ? formatSshPublicKey(key) : null;
+  if (source !== "file" && publicKey) {
+    keyPath = `${KEY_LITERAL_PREFIX}${publicKey}`;
+  }
+  return {
+    format,
+    signingKey,
+    gpgSign,
+    source,
+    keyPath,
+    publicKey,
+    fingerprint: key?.fingerprint ?? null,
+  };
 }
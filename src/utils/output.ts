@@ -1,5 +1,21 @@
 // Output formatting following ivy-blackboard patterns
 
+// In JSON mode (and other machine formats) stdout carries only the
+// document, so human output (progress, checkmarks) moves to stderr
+let humanToStderr = false;
+
+export function setMachineOutput(enabled: boolean): void {
+  humanToStderr = enabled;
+}
+
+export function log(message: string = ""): void {
+  if (humanToStderr) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
 export function formatJson<T>(data: T, ok: boolean = true): string {
   const timestamp = new Date().toISOString();
 
@@ -15,21 +31,33 @@ export function formatJson<T>(data: T, ok: boolean = true): string {
 }
 
 export function success(message: string): void {
-  console.log(`  \u2713 ${message}`);
+  log(`  \u2713 ${message}`);
 }
 
 export function warning(message: string): void {
-  console.log(`  \u26A0 ${message}`);
+  log(`  \u26A0 ${message}`);
 }
 
 export function fail(message: string): void {
-  console.log(`  \u2717 ${message}`);
+  log(`  \u2717 ${message}`);
 }
 
 export function header(title: string): void {
-  console.log(`\n${title}`);
+  log(`\n${title}`);
 }
 
 export function result(passed: boolean, message: string): void {
-  console.log(`\nRESULT: ${passed ? "\u2713" : "\u2717"} ${message}`);
+  log(`\nRESULT: ${passed ? "\u2713" : "\u2717"} ${message}`);
+}
+
+// Single-line progress on stderr, so stdout (and --json) stays clean.
+// Silent when stderr is not a terminal.
+export function progress(done: number, total: number, label: string): void {
+  if (!process.stderr.isTTY) return;
+  process.stderr.write(`\r\x1b[K  [${done}/${total}] ${label}`);
+}
+
+export function clearProgress(): void {
+  if (!process.stderr.isTTY) return;
+  process.stderr.write("\r\x1b[K");
 }
@@ -0,0 +1,63 @@
+import { createInterface, type Interface } from "readline/promises";
+import type { Readable, Writable } from "stream";
+
+export interface Prompter {
+  /** Free text; an empty answer returns `fallback` */
+  ask(question: string, fallback?: string): Promise<string>;
+  confirm(question: string, fallback: boolean): Promise<boolean>;
+  /** Pick one of `choices` by number or by name */
+  choose<T extends string>(question: string, choices: readonly T[], fallback: T): Promise<T>;
+  close(): void;
+}
+
+export function createPrompter(
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Prompter {
+  const rl: Interface = createInterface({ input, output, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+
+  // Reads a line ourselves rather than rl.question(), so piped input that
+  // arrives before the prompt is not lost
+  const readLine = async (prompt: string): Promise<string> => {
+    output.write(prompt);
+    const next = await lines.next();
+    if (next.done) throw new Error("Input closed before all questions were answered");
+    return next.value.trim();
+  };
+
+  return {
+    async ask(question, fallback = "") {
+      const answer = await readLine(`${question}${fallback ? ` [${fallback}]` : ""}: `);
+      return answer || fallback;
+    },
+
+    async confirm(question, fallback) {
+      for (;;) {
+        const answer = (await readLine(`${question} ${fallback ? "[Y/n]" : "[y/N]"}: `)).toLowerCase();
+        if (!answer) return fallback;
+        if (["y", "yes"].includes(answer)) return true;
+        if (["n", "no"].includes(answer)) return false;
+        output.write("  Please answer y or n.\n");
+      }
+    },
+
+    async choose(question, choices, fallback) {
+      output.write(`${question}\n`);
+      choices.forEach((choice, i) => output.write(`  ${i + 1}) ${choice}\n`));
+      for (;;) {
+        const answer = await readLine(`Choice [${fallback}]: `);
+        if (!answer) return fallback;
+        const byIndex = choices[Number(answer) - 1];
+        if (/^\d+$/.test(answer) && byIndex) return byIndex;
+        const byName = choices.find((c) => c.toLowerCase() === answer.toLowerCase());
+        if (byName) return byName;
+        output.write(`  Pick 1-${choices.length} or one of: ${choices.join(", ")}\n`);
+      }
+    },
+
+    close() {
+      rl.close();
+    },
+  };
+}
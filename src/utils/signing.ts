@@ -0,0 +1,162 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import { principalsForKey, type AllowedSigners } from "./allowed-signers";
+import { KEY_LITERAL_PREFIX } from "../keys/ssh-key";
+
+// ssh-keygen -Y namespace for status.yaml attestations. Distinct from "git"
+// so a commit signature can never be replayed as a status signature.
+export const STATUS_SIGNATURE_NAMESPACE = "hive-spoke-status";
+
+export const STATUS_SIGNATURE_FILE = "status.yaml.sig";
+
+// Namespace for key rotation statements in .collab/rotations.yaml
+export const ROTATION_SIGNATURE_NAMESPACE = "hive-spoke-rotation";
+
+export type AttestationState =
+  | "verified" // signed by the manifest key, which is in allowed-signers
+  | "unsigned" // no status.yaml.sig alongside status.yaml
+  | "forged" // signature present but does not verify for the manifest key
+  | "unregistered" // no allowed-signers entry for the manifest key that is valid for status signatures now
+  | "unchecked"; // no allowed-signers file available
+
+async function sshKeygen(
+  args: string[],
+  stdin: string
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const proc = Bun.spawn(["ssh-keygen", ...args], {
+    stdin: new TextEncoder().encode(stdin),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  await proc.exited;
+  return { stdout, stderr, exitCode: proc.exitCode ?? 1 };
+}
+
+// Creates an Ed25519 key pair at `keyPath` (private) and `keyPath.pub`, and
+// returns the public key line. An existing key is reused, never overwritten.
+// With `askPassphrase` ssh-keygen prompts on the terminal; otherwise the key
+// has no passphrase.
+export async function generateSigningKey(
+  keyPath: string,
+  comment: string,
+  askPassphrase: boolean
+): Promise<{ publicKey: string; created: boolean }> {
+  const pubPath = `${keyPath}.pub`;
+  if (existsSync(keyPath)) {
+    if (!existsSync(pubPath)) {
+      throw new Error(`${keyPath} exists but ${pubPath} is missing`);
+    }
+    return { publicKey: readFileSync(pubPath, "utf-8").trim(), created: false };
+  }
+
+  mkdirSync(dirname(keyPath), { recursive: true, mode: 0o700 });
+  const args = ["-t", "ed25519", "-f", keyPath, "-C", comment, "-q"];
+  const proc = Bun.spawn(["ssh-keygen", ...args, ...(askPassphrase ? [] : ["-N", ""])], {
+    stdin: askPassphrase ? "inherit" : "ignore",
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+  await proc.exited;
+  if (proc.exitCode !== 0 || !existsSync(pubPath)) {
+    throw new Error(`ssh-keygen failed to create ${keyPath}`);
+  }
+  return { publicKey: readFileSync(pubPath, "utf-8").trim(), created: true };
+}
+
+// Detached signature over `data`. `keyPath` follows git's user.signingKey
+// semantics: a private key, a public key whose private half is in the agent,
+// or a `key::` literal for an agent-held key.
+export async function signData(
+  data: string,
+  keyPath: string,
+  namespace: string
+): Promise<string> {
+  const literal = keyPath.startsWith(KEY_LITERAL_PREFIX);
+  const dir = literal ? mkdtempSync(join(tmpdir(), "hive-spoke-sign-")) : null;
+  try {
+    const keyFile = dir ? join(dir, "key.pub") : keyPath;
+    if (dir) writeFileSync(keyFile, `${keyPath.slice(KEY_LITERAL_PREFIX.length)}\n`, "utf-8");
+    const result = await sshKeygen(["-Y", "sign", "-f", keyFile, "-n", namespace], data);
+    if (result.exitCode !== 0 || !result.stdout.includes("BEGIN SSH SIGNATURE")) {
+      throw new Error(`ssh-keygen sign failed: ${result.stderr.trim() || "no signature produced"}`);
+    }
+    return result.stdout;
+  } finally {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function verifyData(
+  data: string,
+  signature: string,
+  allowedSignersPath: string,
+  principal: string,
+  namespace: string
+): Promise<boolean> {
+  const dir = mkdtempSync(join(tmpdir(), "hive-spoke-verify-"));
+  try {
+    const sigPath = join(dir, "data.sig");
+    writeFileSync(sigPath, signature, "utf-8");
+    const result = await sshKeygen(
+      ["-Y", "verify", "-f", allowedSignersPath, "-I", principal, "-n", namespace, "-s", sigPath],
+      data
+    );
+    return result.exitCode === 0;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Verifies against one known key rather than a hub's allowed-signers
+export async function verifyWithKey(
+  data: string,
+  signature: string,
+  publicKey: string,
+  namespace: string
+): Promise<boolean> {
+  const dir = mkdtempSync(join(tmpdir(), "hive-spoke-key-"));
+  try {
+    const signersPath = join(dir, "allowed_signers");
+    writeFileSync(signersPath, `key ${publicKey.trim()}\n`, "utf-8");
+    return await verifyData(data, signature, signersPath, "key", namespace);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Checks that status.yaml was signed by the manifest's key, using the hub's
+// allowed-signers entry for that key (never the key the spoke claims alone).
+export async function checkStatusAttestation(
+  statusContent: string,
+  signature: string | null,
+  publicKey: string,
+  signers: AllowedSigners,
+  allowedSignersPath: string | null
+): Promise<AttestationState> {
+  if (!signature) return "unsigned";
+  if (!allowedSignersPath) return "unchecked";
+
+  const principals = principalsForKey(signers, publicKey, {
+    namespace: STATUS_SIGNATURE_NAMESPACE,
+    at: new Date(),
+  });
+  if (principals.length === 0) return "unregistered";
+
+  for (const principal of principals) {
+    if (
+      await verifyData(
+        statusContent,
+        signature,
+        allowedSignersPath,
+        principal,
+        STATUS_SIGNATURE_NAMESPACE
+      )
+    ) {
+      return "verified";
+    }
+  }
+  return "forged";
+}
@@ -0,0 +1,40 @@
+import { readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { writeYaml } from "./yaml";
+import { signData, STATUS_SIGNATURE_FILE, STATUS_SIGNATURE_NAMESPACE } from "./signing";
+
+const STATUS_HEADER =
+  "# Spoke status snapshot — auto-generated by hive-spoke\n# Regenerate with: hive-spoke status";
+
+export interface StatusWriteResult {
+  signed: boolean;
+  /** Why signing failed; null when signed or not attempted */
+  signError: string | null;
+}
+
+// Writes .collab/status.yaml and signs it with `keyPath` when given. A stale
+// signature would read as forged on the hub, so the old one is always
+// replaced or removed together with status.yaml.
+export async function writeStatusFile(
+  collabDir: string,
+  data: unknown,
+  keyPath: string | null
+): Promise<StatusWriteResult> {
+  const statusPath = join(collabDir, "status.yaml");
+  const sigPath = join(collabDir, STATUS_SIGNATURE_FILE);
+  writeYaml(statusPath, data, STATUS_HEADER);
+  rmSync(sigPath, { force: true });
+  if (!keyPath) return { signed: false, signError: null };
+
+  try {
+    const signature = await signData(
+      readFileSync(statusPath, "utf-8"),
+      keyPath,
+      STATUS_SIGNATURE_NAMESPACE
+    );
+    writeFileSync(sigPath, signature, "utf-8");
+    return { signed: true, signError: null };
+  } catch (err) {
+    return { signed: false, signError: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -1,4 +1,5 @@
 import * as jsYaml from "js-yaml";
+import { isMap, isScalar, isSeq, LineCounter, parseDocument, type Node } from "yaml";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
 import { dirname } from "path";
 
@@ -10,11 +11,67 @@ export function loadYaml<T = unknown>(filePath: string): T {
   return jsYaml.load(content) as T;
 }
 
-export function writeYaml(filePath: string, data: unknown, header?: string): void {
-  const dir = dirname(filePath);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
+export interface SourcePosition {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export interface YamlSource<T = unknown> {
+  data: T;
+  content: string;
+  /** Where a field path sits in the source, or the nearest existing ancestor */
+  positionOf(path: (string | number)[]): SourcePosition;
+}
+
+// js-yaml stays the parser for data; the `yaml` CST is only used to map
+// field paths back to line/column for diagnostics
+export function parseYamlWithPositions<T = unknown>(content: string): YamlSource<T> {
+  const data = jsYaml.load(content) as T;
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, keepSourceTokens: false });
+  const at = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  return {
+    data,
+    content,
+    positionOf(path) {
+      let node: unknown = doc.contents;
+      let offset = (doc.contents as Node | null)?.range?.[0] ?? 0;
+      for (const segment of path) {
+        if (isMap(node)) {
+          const pair = node.items.find(
+            (p) => (isScalar(p.key) ? String(p.key.value) : String(p.key)) === String(segment)
+          );
+          if (!pair) break;
+          offset = (pair.key as Node | null)?.range?.[0] ?? offset;
+          node = pair.value;
+        } else if (isSeq(node)) {
+          const item = node.items[Number(segment)] as Node | undefined;
+          if (!item) break;
+          offset = item.range?.[0] ?? offset;
+          node = item;
+        } else {
+          break;
+        }
+      }
+      return at(offset);
+    },
+  };
+}
+
+export function loadYamlWithPositions<T = unknown>(filePath: string): YamlSource<T> {
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
   }
+  return parseYamlWithPositions<T>(readFileSync(filePath, "utf-8"));
+}
+
+export function dumpYaml(data: unknown, header?: string): string {
   const yamlStr = jsYaml.dump(data, {
     indent: 2,
     lineWidth: -1,
@@ -22,8 +79,25 @@ export function writeYaml(filePath: string, data: unknown, header?: string): voi
     sortKeys: false,
     quotingType: '"',
   });
-  const content = header ? `${header}\n${yamlStr}` : yamlStr;
-  writeFileSync(filePath, content, "utf-8");
+  return header ? `${header}\n${yamlStr}` : yamlStr;
+}
+
+export function writeYaml(filePath: string, data: unknown, header?: string): void {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(filePath, dumpYaml(data, header), "utf-8");
+}
+
+// The comment block at the top of a YAML file, so rewrites can keep it
+export function leadingComments(content: string): string | undefined {
+  const lines: string[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.startsWith("#")) break;
+    lines.push(line);
+  }
+  return lines.length > 0 ? lines.join("\n") : undefined;
 }
 
 export function yamlExists(filePath: string): boolean {
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import {
+  allowsNamespace,
+  formatAllowedSigner,
+  isValidAt,
+  matchesPrincipal,
+  parseAllowedSignersContent,
+  principalsForKey,
+} from "../src/utils/allowed-signers";
+
+const KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIDFKA/foVoKiSwkXzACTwR6J6RoXJeKzmb/FKOXi0haA";
+const OTHER = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIGbJ6AXV1kpDvO0jl5ERJ5FkYa3+Y6aKx9e0r6aIv9Bz";
+
+describe("allowed-signers parser", () => {
+  test("reads principals, options and comments", () => {
+    const { signers, errors } = parseAllowedSignersContent(
+      [
+        "# hub operators",
+        `alice@example.com,alice namespaces="git,hive-spoke-status",valid-after="20260101",valid-before="20270101Z" ${KEY} alice laptop`,
+        `"bob smith",*@ops.example.com,!eve@ops.example.com ${OTHER}`,
+        `*@example.com cert-authority ${OTHER}`,
+      ].join("\n")
+    );
+    expect(errors).toEqual([]);
+    const [alice, bob, ca] = signers;
+    expect(alice.principals).toEqual(["alice@example.com", "alice"]);
+    expect(alice.namespaces).toEqual(["git", "hive-spoke-status"]);
+    expect(alice.validAfter?.getFullYear()).toBe(2026);
+    expect(alice.validBefore?.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+    expect([alice.publicKey, alice.comment, alice.line]).toEqual([KEY, "alice laptop", 2]);
+    expect(bob.principals).toEqual(["bob smith", "*@ops.example.com", "!eve@ops.example.com"]);
+    expect(ca.certAuthority).toBe(true);
+  });
+
+  test("keeps duplicate principals and reports bad lines", () => {
+    const { signers, errors } = parseAllowedSignersContent(
+      [
+        `alice ${KEY}`,
+        `alice ${OTHER}`,
+        `bob validity="x" ${KEY}`,
+        `carol namespaces=git ${KEY}`,
+        "dave ssh-ed25519",
+      ].join("\n")
+    );
+    expect(signers.map((s) => s.publicKey)).toEqual([KEY, OTHER]);
+    expect(errors.map((e) => e.line)).toEqual([3, 4, 5]);
+    expect(errors[1].message).toMatch(/quoted value/);
+  });
+
+  test("matches patterns, namespaces and validity windows", () => {
+    const { signers } = parseAllowedSignersContent(
+      `*@ops.example.com,!eve@ops.example.com namespaces="git",valid-before="20260601Z" ${KEY}\n*@example.com cert-authority ${KEY}`
+    );
+    const [ops] = signers;
+    expect(matchesPrincipal(ops, "bob@ops.example.com")).toBe(true);
+    expect(matchesPrincipal(ops, "eve@ops.example.com")).toBe(false);
+    expect([allowsNamespace(ops, "git"), allowsNamespace(ops, "hive-spoke-status")]).toEqual([true, false]);
+    expect(isValidAt(ops, new Date("2026-05-31T23:59:59Z"))).toBe(true);
+    expect(isValidAt(ops, new Date("2026-06-01T00:00:00Z"))).toBe(false);
+
+    // cert-authority lines never vouch for the plain key
+    const all = parseAllowedSignersContent(`${signers.map(formatAllowedSigner).join("\n")}`);
+    expect(principalsForKey(all, KEY)).toEqual(["*@ops.example.com"]);
+    expect(principalsForKey(all, KEY, { namespace: "hive-spoke-status" })).toEqual([]);
+  });
+
+  test("round-trips through the writer", () => {
+    const line = formatAllowedSigner({
+      principals: ["alice@example.com", "alice"],
+      certAuthority: false,
+      namespaces: ["git"],
+      validAfter: new Date("2026-01-02T03:04:05Z"),
+      validBefore: null,
+      publicKey: `${KEY} ignored-comment`,
+      comment: "laptop",
+    });
+    expect(line).toBe(`alice@example.com,alice namespaces="git",valid-after="20260102030405Z" ${KEY} laptop`);
+    const [parsed] = parseAllowedSignersContent(line).signers;
+    expect(parsed.validAfter?.toISOString()).toBe("2026-01-02T03:04:05.000Z");
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { load } from "js-yaml";
+import { checkAnchorBinding, checkIdentityBinding } from "../src/keys/binding";
+import { sshFingerprint } from "../src/keys/ssh-key";
+import { parseDocument } from "../src/schemas/registry";
+import { parseAllowedSignersContent } from "../src/utils/allowed-signers";
+import { generateSigningKey } from "../src/utils/signing";
+
+let dir: string;
+let key: string;
+let other: string;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "binding-"));
+  key = (await generateSigningKey(join(dir, "alice"), "alice@example.com", false)).publicKey;
+  other = (await generateSigningKey(join(dir, "other"), "other@example.com", false)).publicKey;
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function manifest(publicKey: string, fingerprint: string | null, handle = "alice") {
+  return parseDocument(
+    "manifest",
+    load(`schemaVersion: "1.1"
+name: Demo
+hubs:
+  - hub: org/hive
+    project: demo
+maintainer: ${handle}
+license: MIT
+identity:
+  handle: ${handle}
+  publicKey: ${publicKey}
+${fingerprint ? `  fingerprint: "${fingerprint}"\n` : ""}`)
+  ).data;
+}
+
+const codes = (binding: ReturnType<typeof checkIdentityBinding>) => binding.issues.map((i) => i.code);
+
+describe("identity binding", () => {
+  test("binds a key registered under the handle", () => {
+    const signers = parseAllowedSignersContent(`alice@example.com,alice ${key}`);
+    const binding = checkIdentityBinding(manifest(key, sshFingerprint(key)), signers);
+    expect(binding.issues).toEqual([]);
+    expect(binding.signer?.principals).toEqual(["alice@example.com", "alice"]);
+  });
+
+  test("rejects a registered key claimed under another handle", () => {
+    const signers = parseAllowedSignersContent(`alice ${key}`);
+    const binding = checkIdentityBinding(manifest(key, sshFingerprint(key), "mallory"), signers);
+    expect(codes(binding)).toEqual(["PRINCIPAL_MISMATCH"]);
+  });
+
+  test("checks the claimed fingerprint against the key", () => {
+    const signers = parseAllowedSignersContent(`alice ${key}`);
+    expect(codes(checkIdentityBinding(manifest(key, sshFingerprint(other)), signers))).toEqual([
+      "FINGERPRINT_MISMATCH",
+    ]);
+    expect(codes(checkIdentityBinding(manifest(key, null), signers))).toEqual(["FINGERPRINT_MISSING"]);
+  });
+
+  test("one key per handle, valid now and for git", () => {
+    const signers = parseAllowedSignersContent(
+      `alice namespaces="file",valid-before="20200101Z" ${key}\nalice ${other}`
+    );
+    expect(codes(checkIdentityBinding(manifest(key, sshFingerprint(key)), signers))).toEqual([
+      "SIGNER_EXPIRED",
+      "SIGNER_NAMESPACE",
+      "HANDLE_MULTIPLE_KEYS",
+    ]);
+  });
+
+  test("a rotation anchor gets the same entry checks", () => {
+    // The manifest now carries the rotated key; `key` is the registered one
+    const rotated = manifest(other, sshFingerprint(other));
+    expect(checkAnchorBinding(rotated, parseAllowedSignersContent(`alice ${key}`), key)?.issues).toEqual([]);
+    expect(checkAnchorBinding(rotated, parseAllowedSignersContent(`bob ${other}`), key)).toBeNull();
+
+    const anchor = checkAnchorBinding(
+      rotated,
+      parseAllowedSignersContent(`mallory namespaces="file",valid-before="20200101Z" ${key}`),
+      key
+    );
+    expect(anchor?.issues.map((i) => i.code)).toEqual([
+      "SIGNER_EXPIRED",
+      "SIGNER_NAMESPACE",
+      "PRINCIPAL_MISMATCH",
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import { expect, test, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { diffEntries, historyEvents, HubCache, type PulledSpoke } from "../src/hub/cache";
+import type { SpokeEntry } from "../src/hub/spokes";
+
+function entry(overrides: Partial<SpokeEntry>): SpokeEntry {
+  return {
+    project: "alpha",
+    repo: "org/alpha",
+    maintainer: "alice",
+    phase: "build",
+    tests: { passing: 5, failing: 0 },
+    dirty: false,
+    behindRemote: 0,
+    lastCommit: "2026-02-01T00:00:00Z",
+    generatedAt: "2026-02-01T00:00:00.000Z",
+    license: "MIT",
+    reflexes: {
+      signing: false,
+      secretScanning: false,
+      sandboxEnforcer: false,
+      contentFilter: false,
+    },
+    detectedReflexes: null,
+    stale: false,
+    attestation: "unsigned",
+    health: null,
+    ...overrides,
+  };
+}
+
+// Listed under projects/alpha unless the test says otherwise
+function pulled(overrides: Partial<SpokeEntry>, project = "alpha"): PulledSpoke {
+  return { project, entry: entry(overrides) };
+}
+
+describe("HubCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "hive-spoke-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("stores one snapshot per generatedAt and logs every pull", () => {
+    const cache = new HubCache(dir);
+    expect(cache.record([pulled({})], "2026-02-01T12:00:00.000Z")).toBe(1);
+    expect(cache.record([pulled({})], "2026-02-02T12:00:00.000Z")).toBe(0);
+    expect(
+      cache.record(
+        [pulled({ generatedAt: "2026-02-05T00:00:00.000Z", phase: "harden" })],
+        "2026-02-05T12:00:00.000Z"
+      )
+    ).toBe(1);
+
+    expect(cache.history("alpha")).toHaveLength(2);
+    expect(cache.pulls()).toHaveLength(3);
+    expect(cache.lastPull()?.pulledAt).toBe("2026-02-05T12:00:00.000Z");
+    expect(cache.snapshotAt("alpha", "2026-02-03T00:00:00.000Z")?.entry.phase).toBe(
+      "build"
+    );
+  });
+
+  test("derives phase transitions, test trends and staleness", () => {
+    const cache = new HubCache(dir);
+    cache.record([pulled({})], "2026-02-01T12:00:00.000Z");
+    cache.record(
+      [
+        pulled({
+          generatedAt: "2026-02-20T00:00:00.000Z",
+          phase: "harden",
+          tests: { passing: 9, failing: 1 },
+        }),
+      ],
+      "2026-02-20T12:00:00.000Z"
+    );
+
+    const events = historyEvents(
+      "alpha",
+      cache.history("alpha"),
+      new Date("2026-02-21T00:00:00.000Z")
+    );
+    expect(events.map((e) => e.change)).toEqual([
+      "first seen",
+      "went stale (no update for 7 days)",
+      "phase build → harden",
+      "tests 5P/0F → 9P/1F",
+    ]);
+  });
+
+  test("orders snapshots by when a pull first saw them", () => {
+    const cache = new HubCache(dir);
+    cache.record([pulled({ generatedAt: "never", phase: "specify" })], "2026-02-01T12:00:00.000Z");
+    cache.record([pulled({ generatedAt: "2026-02-02T00:00:00.000Z" })], "2026-02-02T12:00:00.000Z");
+
+    expect(cache.history("alpha").map((s) => s.entry.generatedAt)).toEqual([
+      "never",
+      "2026-02-02T00:00:00.000Z",
+    ]);
+    expect(cache.snapshotAt("alpha", "2026-02-03T00:00:00.000Z")?.entry.phase).toBe("build");
+    const events = historyEvents("alpha", cache.history("alpha"), new Date("2026-02-03T00:00:00.000Z"));
+    expect(events.map((e) => [e.at, e.change])).toEqual([
+      ["2026-02-01T12:00:00.000Z", "first seen"],
+      ["2026-02-02T00:00:00.000Z", "phase specify → build"],
+    ]);
+  });
+
+  test("keys history by hub directory, not the spoke's claimed project", () => {
+    const cache = new HubCache(dir);
+    cache.record([pulled({ project: "victim" }, "mallory")], "2026-02-01T12:00:00.000Z");
+    cache.record([pulled({}, "a/b"), pulled({}, "a_b")], "2026-02-01T12:00:00.000Z");
+
+    expect(cache.history("victim")).toEqual([]);
+    expect(cache.history("mallory")).toHaveLength(1);
+    expect(cache.history("a/b")).toHaveLength(1);
+    expect(cache.history("a_b")).toHaveLength(1);
+    expect(cache.history("..")).toEqual([]);
+  });
+
+  test("records each time a spoke loses its status.yaml", () => {
+    const cache = new HubCache(dir);
+    cache.record([pulled({ generatedAt: "never" })], "2026-02-01T12:00:00.000Z");
+    cache.record([pulled({ generatedAt: "never" })], "2026-02-02T12:00:00.000Z");
+    cache.record([pulled({})], "2026-02-03T12:00:00.000Z");
+    cache.record([pulled({ generatedAt: "never" })], "2026-02-04T12:00:00.000Z");
+
+    expect(cache.history("alpha").map((s) => [s.firstSeen, s.entry.generatedAt])).toEqual([
+      ["2026-02-01T12:00:00.000Z", "never"],
+      ["2026-02-03T12:00:00.000Z", "2026-02-01T00:00:00.000Z"],
+      ["2026-02-04T12:00:00.000Z", "never"],
+    ]);
+    expect(cache.snapshotAt("alpha", "2026-02-05T00:00:00.000Z")?.entry.generatedAt).toBe("never");
+  });
+
+  test("diffEntries reports new spokes and changes", () => {
+    expect(diffEntries(null, entry({}))).toEqual(["new spoke"]);
+    expect(diffEntries(entry({}), entry({}))).toEqual([]);
+    expect(
+      diffEntries(entry({}), entry({ stale: true, attestation: "verified" }))
+    ).toEqual(["went stale", "attestation unsigned → verified"]);
+    const failing = {
+      state: "failing" as const,
+      exitCode: 1,
+      durationMs: 40,
+      timedOut: false,
+      output: "db unreachable",
+    };
+    expect(diffEntries(entry({}), entry({ health: failing }))).toEqual([
+      "health unchecked → failing",
+    ]);
+  });
+});
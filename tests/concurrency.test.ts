@@ -0,0 +1,79 @@
+import { expect, test, describe } from "bun:test";
+import {
+  mapConcurrent,
+  parseConcurrency,
+  RetryableError,
+  sleep,
+  withRetry,
+} from "../src/utils/concurrency";
+
+describe("mapConcurrent", () => {
+  test("keeps input order and respects the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const settled: number[] = [];
+    const results = await mapConcurrent(
+      [30, 5, 20, 1, 10],
+      2,
+      async (ms) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await sleep(ms);
+        inFlight--;
+        return ms * 2;
+      },
+      (done) => settled.push(done)
+    );
+    expect(results).toEqual([60, 10, 40, 2, 20]);
+    expect(peak).toBe(2);
+    expect(settled).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("handles an empty list", async () => {
+    expect(await mapConcurrent([], 4, async (x) => x)).toEqual([]);
+  });
+
+  test("rejects invalid limits", () => {
+    expect(parseConcurrency("4")).toBe(4);
+    expect(() => parseConcurrency("0")).toThrow();
+    expect(() => parseConcurrency("two")).toThrow();
+  });
+});
+
+describe("withRetry", () => {
+  test("retries retryable errors until success", async () => {
+    let calls = 0;
+    const value = await withRetry(
+      async () => {
+        if (++calls < 3) throw new RetryableError("rate limited", 1);
+        return "ok";
+      },
+      { retries: 3, baseDelayMs: 1 }
+    );
+    expect(value).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  test("gives up after the retry budget and skips other errors", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw new RetryableError("still limited");
+        },
+        { retries: 2, baseDelayMs: 1 }
+      )
+    ).rejects.toThrow("still limited");
+    expect(calls).toBe(3);
+
+    calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls++;
+        throw new Error("not found");
+      })
+    ).rejects.toThrow("not found");
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect, test, describe } from "bun:test";
+import {
+  buildDashboardModel,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+} from "../src/hub/dashboard";
+import type { SpokeEntry } from "../src/hub/spokes";
+
+function spoke(overrides: Partial<SpokeEntry>): SpokeEntry {
+  return {
+    project: "alpha",
+    repo: "org/alpha",
+    maintainer: "alice",
+    phase: "build",
+    tests: { passing: 8, failing: 2 },
+    dirty: false,
+    behindRemote: 0,
+    lastCommit: "2026-02-07T00:00:00Z",
+    generatedAt: "2026-02-07T00:00:00Z",
+    license: "MIT",
+    reflexes: {
+      signing: true,
+      secretScanning: true,
+      sandboxEnforcer: false,
+      contentFilter: false,
+    },
+    detectedReflexes: {
+      signing: true,
+      secretScanning: false,
+      sandboxEnforcer: false,
+      contentFilter: false,
+    },
+    stale: false,
+    attestation: "verified",
+    health: null,
+    ...overrides,
+  };
+}
+
+describe("dashboard", () => {
+  const spokes = [
+    spoke({}),
+    spoke({ project: "beta", phase: "specify", stale: true }),
+    spoke({ project: "gamma", phase: "shipped", tests: { passing: 5, failing: 0 } }),
+  ];
+  const model = buildDashboardModel(
+    spokes,
+    { title: "Test Hive" },
+    new Date("2026-02-10T00:00:00Z")
+  );
+
+  test("groups spokes in lifecycle order", () => {
+    expect(model.groups.map((g) => g.phase)).toEqual(["specify", "build", "shipped"]);
+    expect(model.totals).toEqual({
+      spokes: 3,
+      stale: 1,
+      failing: 2,
+      passingTests: 21,
+      failingTests: 4,
+    });
+  });
+
+  test("renders markdown tables with badges, bars and links", () => {
+    const md = renderMarkdown(model);
+    expect(md).toContain("# Test Hive");
+    expect(md).toContain("## build (1)");
+    expect(md).toContain("[alpha](https://github.com/org/alpha)");
+    expect(md).toContain("[@alice](https://github.com/alice)");
+    expect(md).toContain("████████░░ 8/10");
+    expect(md).toContain("🔏 🔑?");
+    expect(md).toContain("**3d ago (stale)**");
+  });
+
+  test("escapes spoke-supplied text in markdown", () => {
+    const hostile = buildDashboardModel(
+      [
+        spoke({
+          project: "a|b_[x]",
+          repo: "/srv/a",
+          tests: { passing: 1, failing: 1, failures: ["breaks `out`\n| x | y |"] },
+        }),
+      ],
+      { title: "Test Hive" },
+      new Date("2026-02-10T00:00:00Z")
+    );
+    const md = renderMarkdown(hostile);
+    expect(md).toContain("| a\\|b\\_\\[x\\] |");
+    expect(md).toContain("- **a\\|b\\_\\[x\\]** failing: `breaks 'out' | x | y |`");
+    expect(md.split("\n").filter((line) => line.startsWith("|"))).toHaveLength(3);
+  });
+
+  test("fills hub-provided templates", () => {
+    const md = renderMarkdown(model, "BRAND {{title}}\n{{summary}}\n");
+    expect(md.startsWith("BRAND Test Hive\n**3** spoke(s)")).toBe(true);
+    const html = renderHtml(model, "<h1>{{title}}</h1>{{unknown}}");
+    expect(html).toBe("<h1>Test Hive</h1>{{unknown}}");
+  });
+
+  test("emits machine-readable hub status", () => {
+    const json = JSON.parse(renderJson(model));
+    expect(json.phases.build).toEqual(["alpha"]);
+    expect(json.spokes).toHaveLength(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { parseYamlWithPositions } from "../src/utils/yaml";
+import {
+  parseOutputFormat,
+  toGithubAnnotations,
+  toSarif,
+  type ValidationIssue,
+} from "../src/diagnostics";
+
+const MANIFEST = `# header
+schemaVersion: "1.0"
+name: demo
+identity:
+  handle: alice
+  publicKey: ssh-rsa AAAA
+hubs:
+  - hub: org/hive
+    project: demo
+`;
+
+describe("parseYamlWithPositions", () => {
+  const source = parseYamlWithPositions(MANIFEST);
+
+  test("loads data with js-yaml", () => {
+    expect(source.data).toMatchObject({ name: "demo", identity: { handle: "alice" } });
+  });
+
+  test("maps a nested path to its key", () => {
+    expect(source.positionOf(["identity", "publicKey"])).toEqual({ line: 6, column: 3 });
+  });
+
+  test("maps sequence indexes given as strings", () => {
+    expect(source.positionOf("hubs.0.project".split("."))).toEqual({ line: 9, column: 5 });
+  });
+
+  test("falls back to the nearest existing ancestor", () => {
+    expect(source.positionOf(["identity", "fingerprint"])).toEqual({ line: 4, column: 1 });
+    expect(source.positionOf([])).toEqual({ line: 2, column: 1 });
+  });
+});
+
+const ISSUES: ValidationIssue[] = [
+  {
+    file: "manifest.yaml",
+    path: "identity.publicKey",
+    code: "INVALID_STRING",
+    severity: "error",
+    message: "manifest.yaml: identity.publicKey — Must be an Ed25519 SSH key",
+    line: 6,
+    column: 3,
+  },
+  {
+    file: null,
+    path: "commit.gpgSign",
+    code: "AUTO_SIGN_DISABLED",
+    severity: "warning",
+    message: "commit.gpgSign is not true, 100% sure",
+  },
+];
+
+describe("toSarif", () => {
+  test("emits one result per issue with regions", () => {
+    const log = toSarif(ISSUES);
+    expect(log.version).toBe("2.1.0");
+    const run = log.runs[0];
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual([
+      "INVALID_STRING",
+      "AUTO_SIGN_DISABLED",
+    ]);
+    expect(run.results[0].locations?.[0].physicalLocation).toEqual({
+      artifactLocation: { uri: ".collab/manifest.yaml" },
+      region: { startLine: 6, startColumn: 3 },
+    });
+    expect(run.results[1].level).toBe("warning");
+    expect(run.results[1].locations).toBeUndefined();
+  });
+});
+
+describe("toGithubAnnotations", () => {
+  test("formats workflow commands with escaping", () => {
+    expect(toGithubAnnotations(ISSUES)).toEqual([
+      "::error file=.collab/manifest.yaml,line=6,col=3,title=INVALID_STRING::manifest.yaml: identity.publicKey — Must be an Ed25519 SSH key",
+      "::warning title=AUTO_SIGN_DISABLED::commit.gpgSign is not true, 100%25 sure",
+    ]);
+  });
+});
+
+describe("parseOutputFormat", () => {
+  test("rejects unknown formats", () => {
+    expect(parseOutputFormat("sarif")).toBe("sarif");
+    expect(() => parseOutputFormat("xml")).toThrow("Unknown format");
+  });
+});
@@ -0,0 +1,35 @@
+import { expect, test, describe } from "bun:test";
+import { tmpdir } from "os";
+import { classifyHealth, outputTail, runHealthCheck } from "../src/health";
+
+describe("health check", () => {
+  test("classifies by exit code and duration", () => {
+    expect(classifyHealth(0, 100, 30_000)).toBe("healthy");
+    expect(classifyHealth(0, 20_000, 30_000)).toBe("degraded");
+    expect(classifyHealth(2, 100, 30_000)).toBe("failing");
+    expect(classifyHealth(null, 100, 30_000)).toBe("failing");
+  });
+
+  test("keeps only the tail of long output", () => {
+    const output = Array.from({ length: 50 }, (_, i) => `line ${i}`).join("\n");
+    const tail = outputTail(`${output}\n\n`);
+    expect(tail.split("\n")).toHaveLength(20);
+    expect(tail.endsWith("line 49")).toBe(true);
+  });
+
+  test("captures exit code and output", async () => {
+    const result = await runHealthCheck("echo checking; echo 'db down' >&2; exit 3", tmpdir(), 5);
+    expect(result.state).toBe("failing");
+    expect(result.exitCode).toBe(3);
+    expect(result.timedOut).toBe(false);
+    expect(result.output).toContain("db down");
+  });
+
+  test("kills checks that exceed the timeout", async () => {
+    const result = await runHealthCheck("echo started; sleep 5", tmpdir(), 1);
+    expect(result.state).toBe("failing");
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    expect(result.durationMs).toBeLessThan(4000);
+  });
+});
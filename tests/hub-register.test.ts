@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { $ } from "bun";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { load } from "js-yaml";
+import {
+  addAllowedSigner,
+  commitRegistration,
+  fetchRegistration,
+  renderProjectYaml,
+} from "../src/hub/register";
+import { parseAllowedSigners } from "../src/utils/allowed-signers";
+
+const KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIDFKA/foVoKiSwkXzACTwR6J6RoXJeKzmb/FKOXi0haA";
+
+const FINGERPRINT = "SHA256:QLkX0cS9RZOVWgaiPRm7Z9g3g4vJ6ErNfJPLMbadbQg";
+
+function manifest(publicKey: string, hubs = "  - hub: org/hive\n    project: demo\n"): string {
+  return `schemaVersion: "1.1"
+name: Demo
+hubs:
+${hubs}maintainer: alice
+license: MIT
+identity:
+  handle: alice
+  publicKey: ${publicKey}
+`;
+}
+
+const dirs: string[] = [];
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+function spoke(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), "register-"));
+  dirs.push(dir);
+  mkdirSync(join(dir, ".collab"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, ".collab", name), content);
+  }
+  return dir;
+}
+
+describe("hub register", () => {
+  test("builds PROJECT.yaml and picks the key comment email as principal", async () => {
+    const repo = spoke({ "manifest.yaml": manifest(`${KEY} alice@example.com`) });
+    const reg = await fetchRegistration(repo, { branch: "main", transportKind: "local" });
+    expect(reg.principal).toBe("alice@example.com");
+    expect(reg.publicKey).toBe(KEY);
+    expect(load(renderProjectYaml(reg))).toEqual({
+      name: "Demo",
+      maintainer: "alice",
+      status: "active",
+      source: { repo, branch: "main" },
+    });
+  });
+
+  test("falls back to the handle and needs --hub for multi-hub spokes", async () => {
+    const hubs = "  - hub: org/hive\n    project: demo\n  - hub: org/other\n    project: demo-x\n";
+    const repo = spoke({ "manifest.yaml": manifest(KEY, hubs) });
+    await expect(fetchRegistration(repo, { branch: "main", transportKind: "local" })).rejects.toThrow(
+      /use --hub/
+    );
+    const reg = await fetchRegistration(repo, { branch: "main", transportKind: "local", hub: "org/other" });
+    expect([reg.principal, reg.view.project]).toEqual(["alice", "demo-x"]);
+  });
+
+  test("rejects placeholder keys and operator mismatches", async () => {
+    const placeholder = spoke({ "manifest.yaml": manifest("ssh-ed25519 <your-public-key-here>") });
+    await expect(
+      fetchRegistration(placeholder, { branch: "main", transportKind: "local" })
+    ).rejects.toThrow(/placeholder/);
+
+    const mismatch = spoke({
+      "manifest.yaml": manifest(KEY),
+      "operator.yaml": `schemaVersion: "1.0"\nhandle: mallory\nsigning:\n  publicKey: ${KEY}\n`,
+    });
+    await expect(
+      fetchRegistration(mismatch, { branch: "main", transportKind: "local" })
+    ).rejects.toThrow(/Handle mismatch/);
+  });
+
+  test("rejects keys that do not parse or do not match the claimed fingerprint", async () => {
+    const invalid = spoke({ "manifest.yaml": manifest("ssh-ed25519 AAAAC3NzaC1lZDI1NTE5") });
+    await expect(
+      fetchRegistration(invalid, { branch: "main", transportKind: "local" })
+    ).rejects.toMatchObject({ code: "INVALID_PUBLIC_KEY" });
+
+    const claimed = spoke({
+      "manifest.yaml": `${manifest(KEY)}  fingerprint: "SHA256:${"A".repeat(43)}"\n`,
+    });
+    await expect(
+      fetchRegistration(claimed, { branch: "main", transportKind: "local" })
+    ).rejects.toMatchObject({ code: "FINGERPRINT_MISMATCH" });
+  });
+
+  test("adds the key to allowed-signers once", async () => {
+    const repo = spoke({ "manifest.yaml": manifest(`${KEY} alice@example.com`) });
+    const reg = await fetchRegistration(repo, { branch: "main", transportKind: "local" });
+    const signers = join(repo, "hub", ".hive", "allowed-signers");
+
+    expect(addAllowedSigner(signers, reg)).toBe("added");
+    expect(addAllowedSigner(signers, reg)).toBe("present");
+    const [entry] = parseAllowedSigners(signers).signers;
+    expect([entry.principals, entry.publicKey]).toEqual([["alice@example.com", "alice"], KEY]);
+    expect(readFileSync(signers, "utf-8")).toContain("# @alice — demo");
+  });
+
+  test("--pr commits on its own branch and leaves the hub checkout where it was", async () => {
+    const repo = spoke({ "manifest.yaml": `${manifest(KEY)}  fingerprint: "${FINGERPRINT}"\n` });
+    const reg = await fetchRegistration(repo, { branch: "main", transportKind: "local" });
+    const hub = mkdtempSync(join(tmpdir(), "register-hub-"));
+    dirs.push(hub);
+    writeFileSync(join(hub, "gitconfig"), "[user]\n\tname = t\n\temail = t@example.com\n");
+    const env = { ...process.env, GIT_CONFIG_GLOBAL: join(hub, "gitconfig") };
+    const saved = process.env.GIT_CONFIG_GLOBAL;
+    process.env.GIT_CONFIG_GLOBAL = env.GIT_CONFIG_GLOBAL;
+    try {
+      await $`git init --quiet -b main && git commit --quiet --allow-empty -m init`.cwd(hub).env(env);
+      writeFileSync(join(hub, "allowed-signers"), "");
+      expect(addAllowedSigner(join(hub, "allowed-signers"), reg)).toBe("added");
+
+      // No origin to push to, so the PR step fails after the commit
+      await expect(
+        commitRegistration(hub, ["allowed-signers"], reg, false, "hub/register-demo")
+      ).rejects.toThrow(/git push failed/);
+      const branch = await $`git rev-parse --abbrev-ref HEAD`.cwd(hub).env(env).text();
+      const logged = await $`git log --format=%s -1 hub/register-demo`.cwd(hub).env(env).text();
+      expect(branch.trim()).toBe("main");
+      expect(logged.trim()).toBe("hub: register demo");
+    } finally {
+      if (saved === undefined) delete process.env.GIT_CONFIG_GLOBAL;
+      else process.env.GIT_CONFIG_GLOBAL = saved;
+    }
+  });
+});
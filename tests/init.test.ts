@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import { PassThrough, Readable } from "stream";
+import { createPrompter } from "../src/utils/prompt";
+import { applyPreset, defaultAnswers, InitPresetSchema, promptAnswers } from "../src/init";
+import {
+  adoptManifest,
+  adoptOperator,
+  documentsEqual,
+  PLACEHOLDER_PUBLIC_KEY,
+} from "../src/init/adopt";
+
+const DETECTED = {
+  signing: false,
+  secretScanning: true,
+  sandboxEnforcer: false,
+  contentFilter: false,
+};
+
+function prompterFor(lines: string[]) {
+  return createPrompter(Readable.from([lines.join("\n") + "\n"]), new PassThrough());
+}
+
+describe("init presets", () => {
+  test("omitted answers fall back to defaults", () => {
+    const answers = applyPreset(defaultAnswers(DETECTED), { license: "Apache-2.0" }, true);
+    expect(answers.license).toBe("Apache-2.0");
+    expect(answers.phase).toBe("specify");
+    expect(answers.test).toBe("bun test");
+    expect(answers.reflexes).toEqual(DETECTED);
+    expect(answers.signingKey).toBeNull();
+  });
+
+  test("key generation implies the signing reflex unless overridden", () => {
+    const defaults = defaultAnswers(DETECTED);
+    const generated = applyPreset(defaults, { signingKey: { generate: true } }, true);
+    expect(generated.signingKey).toEqual({ path: "~/.ssh/hive_spoke_ed25519", global: false });
+    expect(generated.reflexes.signing).toBe(true);
+
+    const existing = applyPreset(defaults, { signingKey: { generate: true } }, false);
+    expect(existing.signingKey).toBeNull();
+  });
+
+  test("rejects unknown keys and licenses", () => {
+    expect(InitPresetSchema.safeParse({ licence: "MIT" }).success).toBe(false);
+    expect(InitPresetSchema.safeParse({ license: "WTFPL" }).success).toBe(false);
+  });
+
+  test("cannot start a spoke past the gated phases", () => {
+    expect(InitPresetSchema.safeParse({ phase: "build" }).success).toBe(true);
+    const shipped = InitPresetSchema.safeParse({ phase: "shipped" });
+    expect(shipped.success).toBe(false);
+    if (!shipped.success) expect(shipped.error.issues[0].message).toMatch(/later phases are gated/);
+  });
+});
+
+describe("init wizard", () => {
+  test("collects answers from the prompter", async () => {
+    const prompter = prompterFor([
+      "2", // license: Apache-2.0
+      "build", // phase by name
+      "typescript, security",
+      "-", // no test command
+      "y", // generate a key
+      "", // default path
+      "n", // repository config
+      "", // signing: default (true after key generation)
+      "n",
+      "y",
+      "",
+    ]);
+    const answers = await promptAnswers(prompter, defaultAnswers(DETECTED), true);
+    prompter.close();
+
+    expect(answers).toEqual({
+      license: "Apache-2.0",
+      phase: "build",
+      skills: ["typescript", "security"],
+      test: null,
+      reflexes: { signing: true, secretScanning: false, sandboxEnforcer: true, contentFilter: false },
+      signingKey: { path: "~/.ssh/hive_spoke_ed25519", global: false },
+    });
+  });
+
+  test("re-asks invalid choices", async () => {
+    const prompter = prompterFor(["9", "nope", "BSD-3-Clause"]);
+    const choice = await prompter.choose("License", ["MIT", "BSD-3-Clause"] as const, "MIT");
+    prompter.close();
+    expect(choice).toBe("BSD-3-Clause");
+  });
+});
+
+describe("init --adopt", () => {
+  const KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIG alice";
+
+  test("keeps existing values and fills placeholders", () => {
+    const existing = {
+      license: "Apache-2.0",
+      identity: { handle: "alice", publicKey: PLACEHOLDER_PUBLIC_KEY, fingerprint: "SHA256:stale" },
+      security: { reflexes: { signing: false } },
+    };
+    const generated = {
+      license: "MIT",
+      project: "demo",
+      identity: { handle: "bob", publicKey: KEY, fingerprint: "SHA256:new" },
+      security: { reflexes: { signing: true, contentFilter: false } },
+    };
+    expect(adoptManifest(existing, generated)).toEqual({
+      license: "Apache-2.0",
+      identity: { handle: "alice", publicKey: KEY, fingerprint: "SHA256:new" },
+      security: { reflexes: { signing: false, contentFilter: false } },
+      project: "demo",
+    });
+  });
+
+  test("adds a hives entry for a second hub and new identities", () => {
+    const existing = {
+      skills: ["rust"],
+      identities: [{ provider: "github", id: "alice", verified: true }],
+      hives: [{ hive: "org/first", role: "maintainer" }],
+    };
+    const generated = {
+      skills: [],
+      identities: [
+        { provider: "github", id: "alice", verified: false },
+        { provider: "gitlab", id: "alice", verified: false },
+      ],
+      hives: [{ hive: "org/second", role: "contributor" }],
+    };
+    const merged = adoptOperator(existing, generated);
+    expect(merged.skills).toEqual(["rust"]);
+    expect(merged.identities).toEqual([
+      { provider: "github", id: "alice", verified: true },
+      { provider: "gitlab", id: "alice", verified: false },
+    ]);
+    expect(merged.hives).toEqual([
+      { hive: "org/first", role: "maintainer" },
+      { hive: "org/second", role: "contributor" },
+    ]);
+    expect(documentsEqual(adoptOperator(merged, generated), merged)).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { ManifestSchema } from "../src/schemas/manifest";
+import { StatusSchema, type SpokeStatus } from "../src/schemas/status";
+import {
+  checkTransition,
+  nextPhase,
+  transitionRecord,
+  type GateContext,
+} from "../src/lifecycle";
+
+const manifest = ManifestSchema.parse({
+  schemaVersion: "1.1",
+  name: "demo",
+  hubs: [{ hub: "org/hive", project: "demo" }],
+  maintainer: "alice",
+  license: "MIT",
+  identity: { handle: "alice", publicKey: "ssh-ed25519 AAAA_test_key" },
+});
+
+function status(overrides: Partial<SpokeStatus> = {}): SpokeStatus {
+  return {
+    schemaVersion: "1.0",
+    generatedAt: "2026-01-01T00:00:00Z",
+    generatedBy: "hive-spoke test",
+    phase: "harden",
+    tests: { passing: 10, failing: 0 },
+    git: { branch: "main", lastCommit: "2026-01-01T00:00:00Z", dirty: false, behindRemote: 0 },
+    reflexes: { signing: true, secretScanning: false, sandboxEnforcer: false, contentFilter: false },
+    ...overrides,
+  };
+}
+
+function ctx(s: SpokeStatus, prs: Record<string, string> = {}): GateContext {
+  return {
+    manifest,
+    status: s,
+    findPullRequest: async (hub, branch) => prs[`${hub}#${branch}`] ?? null,
+    publishBranch: (project) => `spoke/${project}/status-update`,
+  };
+}
+
+describe("lifecycle transitions", () => {
+  test("advance follows the forward edge", () => {
+    expect(nextPhase("specify")).toBe("build");
+    expect(nextPhase("harden")).toBe("contrib-prep");
+    expect(nextPhase("shipped")).toBe("evolving");
+  });
+
+  test("rejects jumps that are not in the graph", async () => {
+    const check = await checkTransition("specify", "shipped", ctx(status()));
+    expect(check.edge).toBe(false);
+    expect(check.allowed).toBe(false);
+  });
+
+  test("harden → contrib-prep needs green tests and active signing", async () => {
+    const ok = await checkTransition("harden", "contrib-prep", ctx(status()));
+    expect(ok.allowed).toBe(true);
+    expect(ok.gates.map((g) => g.id)).toEqual(["no-failing-tests", "signing-active"]);
+
+    const failing = await checkTransition(
+      "harden",
+      "contrib-prep",
+      ctx(
+        status({
+          tests: { passing: 9, failing: 1 },
+          reflexes: { signing: false, secretScanning: false, sandboxEnforcer: false, contentFilter: false },
+        })
+      )
+    );
+    expect(failing.allowed).toBe(false);
+    expect(failing.gates.map((g) => g.detail)).toEqual([
+      "1 failing test(s)",
+      "signing reflex not detected in status.yaml",
+    ]);
+  });
+
+  test("a failed test command fails the test gates", async () => {
+    const crashed = await checkTransition(
+      "build",
+      "harden",
+      ctx(status({ tests: { passing: 4, failing: 0, exitCode: 2 } }))
+    );
+    expect(crashed.gates.map((g) => g.detail)).toEqual(["test command exited with code 2"]);
+
+    const killed = await checkTransition(
+      "review",
+      "shipped",
+      ctx(status({ tests: { passing: 4, failing: 0, exitCode: null } }))
+    );
+    expect(killed.allowed).toBe(false);
+    expect(killed.gates[0].detail).toBe("test command exited with a signal");
+  });
+
+  test("review needs a published PR on a hub", async () => {
+    const blocked = await checkTransition("contrib-prep", "review", ctx(status()));
+    expect(blocked.gates.find((g) => g.id === "pr-published")?.passed).toBe(false);
+
+    const published = await checkTransition(
+      "contrib-prep",
+      "review",
+      ctx(status(), { "org/hive#spoke/demo/status-update": "https://github.com/org/hive/pull/7" })
+    );
+    expect(published.allowed).toBe(true);
+  });
+
+  test("stepping back is ungated", async () => {
+    const check = await checkTransition("review", "build", ctx(status({ tests: { passing: 0, failing: 3 } })));
+    expect(check).toMatchObject({ edge: true, allowed: true, gates: [] });
+  });
+
+  test("records the transition in a schema-valid history entry", async () => {
+    const check = await checkTransition("harden", "contrib-prep", ctx(status()));
+    const record = transitionRecord(check, manifest, "SHA256:abc");
+    expect(record).toMatchObject({
+      from: "harden",
+      to: "contrib-prep",
+      by: { handle: "alice", fingerprint: "SHA256:abc" },
+      gates: ["no-failing-tests", "signing-active"],
+    });
+    expect(() => StatusSchema.parse(status({ transitions: [record] }))).not.toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { formatJson, setMachineOutput, success, warning } from "../src/utils/output";
+
+describe("output routing", () => {
+  afterEach(() => setMachineOutput(false));
+
+  test("human output goes to stdout by default", () => {
+    const out = spyOn(console, "log").mockImplementation(() => {});
+    const err = spyOn(console, "error").mockImplementation(() => {});
+    success("done");
+    expect(out).toHaveBeenCalledWith("  ✓ done");
+    expect(err).not.toHaveBeenCalled();
+    out.mockRestore();
+    err.mockRestore();
+  });
+
+  test("JSON mode moves human output to stderr", () => {
+    setMachineOutput(true);
+    const out = spyOn(console, "log").mockImplementation(() => {});
+    const err = spyOn(console, "error").mockImplementation(() => {});
+    warning("careful");
+    expect(err).toHaveBeenCalledWith("  ⚠ careful");
+    expect(out).not.toHaveBeenCalled();
+    out.mockRestore();
+    err.mockRestore();
+  });
+
+  test("formatJson wraps objects with ok and timestamp", () => {
+    const doc = JSON.parse(formatJson({ errors: 1 }, false));
+    expect(doc.ok).toBe(false);
+    expect(doc.errors).toBe(1);
+    expect(typeof doc.timestamp).toBe("string");
+  });
+});
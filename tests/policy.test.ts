@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ManifestSchema, hubView } from "../src/schemas/manifest";
+import { OperatorSchema } from "../src/schemas/operator";
+import { StatusSchema } from "../src/schemas/status";
+import { PolicySchema } from "../src/schemas/policy";
+import { checkPolicy, DEFAULT_POLICY, fetchHubPolicy, parsePolicy, trustZone } from "../src/policy";
+import { fetchSpoke } from "../src/hub/spokes";
+import { dumpYaml } from "../src/utils/yaml";
+
+const manifest = ManifestSchema.parse({
+  schemaVersion: "1.1",
+  name: "demo",
+  hubs: [
+    { hub: "org/hive", project: "demo" },
+    { hub: "org/other", project: "demo", overrides: { license: "AGPL-3.0" } },
+  ],
+  maintainer: "alice",
+  license: "MIT",
+  identity: { handle: "alice", publicKey: "ssh-ed25519 AAAA_test_key" },
+  security: { reflexes: { signing: true, secretScanning: true } },
+});
+
+const status = StatusSchema.parse({
+  schemaVersion: "1.0",
+  generatedAt: "2026-01-01T00:00:00Z",
+  generatedBy: "hive-spoke test",
+  phase: "build",
+  tests: { passing: 3, failing: 0 },
+  git: { branch: "main", lastCommit: "2026-01-01T00:00:00Z", dirty: false, behindRemote: 0 },
+  reflexes: { signing: true, secretScanning: false, sandboxEnforcer: false, contentFilter: false },
+});
+
+const operator = OperatorSchema.parse({
+  schemaVersion: "1.0",
+  handle: "alice",
+  signing: { publicKey: "ssh-ed25519 AAAA_test_key" },
+  identities: [{ provider: "github", id: "alice", verified: false }],
+  hives: [{ hive: "org/hive", trust_zone: "trusted" }],
+});
+
+const view = (hub: string) => hubView(manifest, manifest.hubs.find((h) => h.hub === hub)!);
+
+describe("hub policy", () => {
+  test("defaults match the protocol's built-in rules", () => {
+    expect(DEFAULT_POLICY.maxStalenessDays).toBe(7);
+    expect(DEFAULT_POLICY.licenses).toContain("MIT");
+    expect(checkPolicy(DEFAULT_POLICY, { view: view("org/hive"), manifest, status, operator })).toEqual([]);
+  });
+
+  test("rejects unknown fields and licenses outside the protocol set", () => {
+    expect(() => parsePolicy('schemaVersion: "1.0"\nmaxStaleDays: 3\n', "policy.yaml")).toThrow(
+      /Invalid hub policy in policy.yaml/
+    );
+    expect(() => parsePolicy('schemaVersion: "1.0"\nlicenses: [GPL-2.0]\n', "policy.yaml")).toThrow();
+  });
+
+  test("checks the license the hub sees, including overrides", () => {
+    const policy = PolicySchema.parse({ schemaVersion: "1.0", licenses: ["MIT"] });
+    expect(checkPolicy(policy, { view: view("org/hive"), manifest, status, operator })).toEqual([]);
+    const [violation] = checkPolicy(policy, { view: view("org/other"), manifest, status, operator });
+    expect(violation).toMatchObject({ code: "POLICY_LICENSE_NOT_ALLOWED", path: "license" });
+  });
+
+  test("requires reflexes by the operator's trust zone on that hub", () => {
+    expect(trustZone(operator, "org/hive")).toBe("trusted");
+    expect(trustZone(operator, "org/other")).toBe("untrusted");
+    expect(trustZone(null, "org/hive")).toBe("untrusted");
+
+    const policy = PolicySchema.parse({
+      schemaVersion: "1.0",
+      requiredReflexes: { trusted: ["signing", "secretScanning"], untrusted: ["sandboxEnforcer"] },
+    });
+    // secretScanning is claimed but status.yaml probed it inactive
+    expect(
+      checkPolicy(policy, { view: view("org/hive"), manifest, status, operator }).map((v) => v.path)
+    ).toEqual(["security.reflexes.secretScanning"]);
+    expect(
+      checkPolicy(policy, { view: view("org/other"), manifest, status, operator })[0].message
+    ).toMatch(/sandboxEnforcer is required for untrusted operators on org\/other but not claimed/);
+  });
+
+  test("enforces the listing phase and verified identity providers", () => {
+    const policy = PolicySchema.parse({
+      schemaVersion: "1.0",
+      minListingPhase: "harden",
+      requiredIdentityProviders: ["github", "gitlab"],
+    });
+    const violations = checkPolicy(policy, { view: view("org/hive"), manifest, status, operator });
+    expect(violations.map((v) => [v.code, v.file])).toEqual([
+      ["POLICY_PHASE_NOT_LISTED", "status.yaml"],
+      ["POLICY_IDENTITY_PROVIDER_MISSING", "operator.yaml"],
+      ["POLICY_IDENTITY_PROVIDER_MISSING", "operator.yaml"],
+    ]);
+    expect(violations[1].message).toMatch(/linked but not verified/);
+  });
+
+  test("only a missing policy file falls back to the defaults", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    try {
+      expect(await fetchHubPolicy(dir, "local")).toBeNull();
+      await expect(fetchHubPolicy(`file://${join(dir, "missing.git")}`)).rejects.toMatchObject({
+        code: "POLICY_UNAVAILABLE",
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("hubs leave out spokes below the listing phase", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    try {
+      const spoke = join(dir, "spoke");
+      mkdirSync(join(spoke, ".collab"), { recursive: true });
+      writeFileSync(join(spoke, ".collab", "manifest.yaml"), dumpYaml(manifest));
+      writeFileSync(join(spoke, ".collab", "status.yaml"), dumpYaml(status));
+      mkdirSync(join(dir, "projects", "demo"), { recursive: true });
+      writeFileSync(
+        join(dir, "projects", "demo", "PROJECT.yaml"),
+        dumpYaml({ name: "demo", maintainer: "alice", status: "active", source: { repo: spoke } })
+      );
+
+      const ctx = {
+        projectsDir: join(dir, "projects"),
+        transportKind: "local" as const,
+        allowedSigners: { signers: [], errors: [] },
+        allowedSignersPath: null,
+      };
+      const listed = await fetchSpoke("demo", { ...ctx, policy: DEFAULT_POLICY });
+      expect(listed.kind).toBe("fetched");
+      const policy = PolicySchema.parse({ schemaVersion: "1.0", minListingPhase: "harden" });
+      expect(await fetchSpoke("demo", { ...ctx, policy })).toEqual({
+        kind: "unlisted",
+        project: "demo",
+        repo: spoke,
+        phase: "build",
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
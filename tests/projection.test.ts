@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { load } from "js-yaml";
+import { OperatorSchema } from "../src/schemas/operator";
+import { projectCollab, projectOperator, tierExposure } from "../src/projection";
+
+const OPERATOR = {
+  schemaVersion: "1.0",
+  handle: "alice",
+  signing: { publicKey: "ssh-ed25519 AAAA_test_key" },
+  identities: [{ provider: "github", id: "alice", verified: true }],
+  hives: [
+    { hive: "org/hive", trust_zone: "trusted" },
+    { hive: "org/other", role: "reviewer" },
+  ],
+};
+
+const MANIFEST = `schemaVersion: "1.1"
+name: demo
+hubs:
+  - hub: org/hive
+    project: demo
+  - hub: org/other
+    project: demo
+    overrides:
+      maintainer: alice-other
+maintainer: alice
+license: MIT
+identity:
+  handle: alice
+  publicKey: ssh-ed25519 AAAA_test_key
+private_notes: kept out of the hub
+`;
+
+const STATUS = `schemaVersion: "1.0"
+generatedAt: "2026-01-01T00:00:00Z"
+generatedBy: hive-spoke test
+phase: build
+tests:
+  passing: 1
+  failing: 0
+git:
+  branch: main
+  lastCommit: "2026-01-01T00:00:00Z"
+  dirty: false
+  behindRemote: 0
+`;
+
+const dirs: string[] = [];
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("operator tiers", () => {
+  test("rejects unknown keys as Tier 3 data at every level", () => {
+    const top = OperatorSchema.safeParse({ ...OPERATOR, salary: 1 });
+    expect(top.success).toBe(false);
+    if (!top.success) expect(top.error.issues[0].message).toMatch(/Tier 3 \(private\)/);
+
+    const nested = OperatorSchema.safeParse({
+      ...OPERATOR,
+      hives: [{ hive: "org/hive", notes: "private" }],
+    });
+    expect(nested.success).toBe(false);
+  });
+
+  test("each hive sees Tier 1 and only its own Tier 2 entry", () => {
+    const operator = OperatorSchema.parse(OPERATOR);
+    expect(projectOperator(operator, "org/hive").hives).toEqual([
+      { hive: "org/hive", trust_zone: "trusted" },
+    ]);
+    expect(tierExposure(operator)).toEqual([
+      {
+        tier: 1,
+        audience: "public, all hives",
+        fields: ["handle", "signing", "identities", "availability"],
+      },
+      { tier: 2, audience: "org/hive", fields: ["hive", "trust_zone"] },
+      { tier: 2, audience: "org/other", fields: ["hive", "role"] },
+    ]);
+  });
+
+  test("publish projects parsed documents and keeps status.yaml verbatim", () => {
+    const dir = mkdtempSync(join(tmpdir(), "projection-"));
+    dirs.push(dir);
+    const status = `# signed, do not touch\n${STATUS}`;
+    writeFileSync(join(dir, "manifest.yaml"), MANIFEST);
+    writeFileSync(join(dir, "operator.yaml"), JSON.stringify(OPERATOR));
+    writeFileSync(join(dir, "status.yaml"), status);
+
+    const view = { hub: "org/other", project: "demo", name: "demo", maintainer: "alice", license: "MIT" as const };
+    const files = projectCollab(dir, view);
+
+    expect(files["status.yaml"]).toBe(status);
+    expect(files["status.yaml.sig"]).toBeNull();
+    expect(files["manifest.yaml"]).toStartWith("# Projected by hive-spoke");
+    expect(files["manifest.yaml"]).not.toContain("private_notes");
+    const manifest = load(files["manifest.yaml"]!) as { hubs: { hub: string }[] };
+    expect(manifest.hubs.map((h) => h.hub)).toEqual(["org/other"]);
+    const operator = load(files["operator.yaml"]!) as { hives: { hive: string }[] };
+    expect(operator.hives.map((h) => h.hive)).toEqual(["org/other"]);
+  });
+
+  test("refuses to publish status.yaml fields outside the schema", () => {
+    const dir = mkdtempSync(join(tmpdir(), "projection-"));
+    dirs.push(dir);
+    writeFileSync(join(dir, "status.yaml"), `${STATUS}notes: call me on 555-0100\n`);
+
+    const view = { hub: "org/hive", project: "demo", name: "demo", maintainer: "alice", license: "MIT" as const };
+    expect(() => projectCollab(dir, view)).toThrow(/Unrecognized key\(s\) in object: 'notes'/);
+  });
+});
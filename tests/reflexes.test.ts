@@ -0,0 +1,46 @@
+import { expect, test, describe, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { REFLEX_PROBES } from "../src/reflexes";
+
+describe("reflex probes", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "hive-spoke-reflexes-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("secretScanning requires a hook or CI job, not just config", async () => {
+    writeFileSync(join(dir, ".gitleaks.toml"), "title = 'x'\n");
+    expect((await REFLEX_PROBES.secretScanning(dir)).detected).toBe(false);
+
+    writeFileSync(
+      join(dir, ".pre-commit-config.yaml"),
+      "repos:\n  - repo: https://github.com/gitleaks/gitleaks\n"
+    );
+    const result = await REFLEX_PROBES.secretScanning(dir);
+    expect(result.detected).toBe(true);
+    expect(result.evidence).toContain("hook configured in .pre-commit-config.yaml");
+  });
+
+  test("sandboxEnforcer detects a hook file", async () => {
+    expect((await REFLEX_PROBES.sandboxEnforcer(dir)).detected).toBe(false);
+    mkdirSync(join(dir, ".claude", "hooks"), { recursive: true });
+    writeFileSync(join(dir, ".claude", "hooks", "sandbox-enforcer.ts"), "");
+    expect((await REFLEX_PROBES.sandboxEnforcer(dir)).detected).toBe(true);
+  });
+
+  test("contentFilter detects a hook declared in agent settings", async () => {
+    mkdirSync(join(dir, ".claude"), { recursive: true });
+    writeFileSync(
+      join(dir, ".claude", "settings.json"),
+      JSON.stringify({ hooks: { PreToolUse: [{ command: "bun content-filter.ts" }] } })
+    );
+    expect((await REFLEX_PROBES.contentFilter(dir)).detected).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { expect, test, describe } from "bun:test";
+import { z } from "zod";
+import {
+  currentVersion,
+  migrateDocument,
+  parseDocument,
+  type SchemaVersion,
+} from "../src/schemas/registry";
+import { diffLines, formatDiff } from "../src/utils/diff";
+
+// A two-version history: 1.1 renamed `tests` to `suite`
+const versions: SchemaVersion[] = [
+  {
+    version: "1.0",
+    schema: z.object({ schemaVersion: z.literal("1.0"), tests: z.number() }),
+    deprecated: true,
+    upgrade: ({ tests, ...rest }) => ({ ...rest, suite: { count: tests } }),
+  },
+  {
+    version: "1.1",
+    schema: z.object({
+      schemaVersion: z.literal("1.1"),
+      suite: z.object({ count: z.number() }),
+    }),
+  },
+];
+
+describe("schema registry", () => {
+  test("dispatches on schemaVersion and upgrades old documents", () => {
+    const parsed = parseDocument("status", { schemaVersion: "1.0", tests: 3 }, versions);
+    expect(parsed.version).toBe("1.0");
+    expect(parsed.deprecated).toBe(true);
+    expect(parsed.migrated).toBe(true);
+    expect(parsed.data).toEqual({ schemaVersion: "1.1", suite: { count: 3 } } as never);
+  });
+
+  test("parses current documents unchanged", () => {
+    const parsed = parseDocument(
+      "status",
+      { schemaVersion: "1.1", suite: { count: 1 } },
+      versions
+    );
+    expect(parsed.migrated).toBe(false);
+    expect(parsed.deprecated).toBe(false);
+  });
+
+  test("keeps unknown keys when migrating raw documents", () => {
+    const { from, to, document } = migrateDocument(
+      "status",
+      { schemaVersion: "1.0", tests: 2, note: "kept" },
+      versions
+    );
+    expect([from, to]).toEqual(["1.0", "1.1"]);
+    expect(document).toEqual({ schemaVersion: "1.1", suite: { count: 2 }, note: "kept" });
+  });
+
+  test("rejects unsupported and invalid documents", () => {
+    expect(() => parseDocument("status", { schemaVersion: "9.9" }, versions)).toThrow(
+      /Supported: 1.0, 1.1/
+    );
+    expect(() => parseDocument("status", {}, versions)).toThrow(/missing/);
+    expect(() =>
+      migrateDocument("status", { schemaVersion: "1.0", tests: "x" }, versions)
+    ).toThrow();
+  });
+
+  test("built-in schemas are at their current versions", () => {
+    expect(currentVersion("manifest")).toBe("1.1");
+    expect(currentVersion("status")).toBe("1.0");
+    expect(currentVersion("operator")).toBe("1.0");
+  });
+
+  test("upgrades a 1.0 manifest to a single hubs entry", () => {
+    const v1 = {
+      schemaVersion: "1.0",
+      name: "demo",
+      hub: "org/hive",
+      project: "demo-id",
+      maintainer: "alice",
+      license: "MIT",
+      identity: { handle: "alice", publicKey: "ssh-ed25519 AAAA" },
+    };
+    const { from, to, document } = migrateDocument("manifest", v1);
+    expect([from, to]).toEqual(["1.0", "1.1"]);
+    expect(document.hubs).toEqual([{ hub: "org/hive", project: "demo-id" }]);
+    expect(document).not.toHaveProperty("hub");
+    expect(Object.keys(document).slice(0, 3)).toEqual(["schemaVersion", "name", "hubs"]);
+
+    const parsed = parseDocument("manifest", v1);
+    expect(parsed).toMatchObject({ version: "1.0", deprecated: true, migrated: true });
+    expect(parsed.data.hubs).toEqual([{ hub: "org/hive", project: "demo-id" }]);
+  });
+});
+
+describe("diffLines", () => {
+  test("marks added and removed lines with context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g"].join("\n");
+    const after = ["a", "b", "c", "D", "e", "f", "g"].join("\n");
+    expect(formatDiff(diffLines(before, after), 1)).toEqual([
+      "  c",
+      "- d",
+      "+ D",
+      "  e",
+    ]);
+  });
+});
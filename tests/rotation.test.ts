@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  isRevoked,
+  parseRevokedKeys,
+  resolveRotationChain,
+  signRotation,
+} from "../src/keys/rotation";
+import { generateSigningKey } from "../src/utils/signing";
+import { sameKey } from "../src/utils/allowed-signers";
+import type { Rotations } from "../src/schemas/rotations";
+
+let dir: string;
+const keys: { path: string; publicKey: string }[] = [];
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "rotation-"));
+  for (const name of ["a", "b", "c"]) {
+    const path = join(dir, name);
+    const { publicKey } = await generateSigningKey(path, `${name}@example.com`, false);
+    keys.push({ path, publicKey });
+  }
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const none = parseRevokedKeys("");
+
+// Keys a..c, with only `a` registered on the hub
+const registered = (key: string) =>
+  sameKey(key, keys[0].publicKey) ? { principal: "alice@example.com", problems: [] } : null;
+
+async function chain(): Promise<Rotations> {
+  const [a, b, c] = keys;
+  return {
+    schemaVersion: "1.0",
+    handle: "alice",
+    rotations: [
+      await signRotation("alice", a.publicKey, b.publicKey, "yearly", a.path),
+      await signRotation("alice", b.publicKey, c.publicKey, undefined, b.path),
+    ],
+  };
+}
+
+describe("key rotation", () => {
+  test("follows a chain of signed rotations back to a registered key", async () => {
+    const result = await resolveRotationChain(await chain(), "alice", keys[2].publicKey, registered, none);
+    expect(result).toEqual({ accepted: true, principal: "alice@example.com", steps: 2, error: null });
+  });
+
+  test("rejects tampered statements and other handles", async () => {
+    const doc = await chain();
+    doc.rotations[1].reason = "edited";
+    const tampered = await resolveRotationChain(doc, "alice", keys[2].publicKey, registered, none);
+    expect(tampered.accepted).toBe(false);
+    expect(tampered.error).toMatch(/does not verify/);
+
+    const other = await resolveRotationChain(await chain(), "mallory", keys[2].publicKey, registered, none);
+    expect(other.error).toMatch(/bound to "alice"/);
+  });
+
+  test("the registered key must be a valid anchor", async () => {
+    const expired = (key: string) =>
+      sameKey(key, keys[0].publicKey)
+        ? { principal: "alice@example.com", problems: ["allowed-signers entry expired"] }
+        : null;
+    const result = await resolveRotationChain(await chain(), "alice", keys[2].publicKey, expired, none);
+    expect(result.accepted).toBe(false);
+    expect(result.error).toMatch(/cannot anchor the chain: allowed-signers entry expired/);
+  });
+
+  test("a revoked key cannot endorse a successor", async () => {
+    const revoked = parseRevokedKeys(`# compromised\n${keys[1].publicKey} b@example.com\n`);
+    const result = await resolveRotationChain(await chain(), "alice", keys[2].publicKey, registered, revoked);
+    expect(result.accepted).toBe(false);
+    expect(result.error).toMatch(/revoked key/);
+  });
+
+  test("no statement for the key is not a rotation at all", async () => {
+    const result = await resolveRotationChain(await chain(), "alice", keys[0].publicKey, registered, none);
+    expect(result).toEqual({ accepted: false, principal: null, steps: 0, error: null });
+  });
+
+  test("revoked-keys matches keys and fingerprints", async () => {
+    const doc = await chain();
+    const byFingerprint = parseRevokedKeys(`${doc.rotations[0].from.fingerprint}  # old laptop`);
+    expect(isRevoked(byFingerprint, keys[0].publicKey)).toBe(true);
+    expect(isRevoked(byFingerprint, keys[1].publicKey)).toBe(false);
+    expect(isRevoked(parseRevokedKeys(keys[1].publicKey), `${keys[1].publicKey} x@y`)).toBe(true);
+  });
+});
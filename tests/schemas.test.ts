@@ -1,9 +1,14 @@
 import { expect, test, describe } from "bun:test";
-import { ManifestSchema } from "../src/schemas/manifest";
+import {
+  hubTargetForProject,
+  hubView,
+  ManifestSchema,
+  ManifestV1_0Schema,
+} from "../src/schemas/manifest";
 import { StatusSchema } from "../src/schemas/status";
 import { OperatorSchema } from "../src/schemas/operator";
 
-describe("ManifestSchema", () => {
+describe("ManifestSchema 1.0", () => {
   const validManifest = {
     schemaVersion: "1.0",
     name: "the-hive",
@@ -32,7 +37,7 @@ describe("ManifestSchema", () => {
   };
 
   test("accepts valid manifest", () => {
-    expect(() => ManifestSchema.parse(validManifest)).not.toThrow();
+    expect(() => ManifestV1_0Schema.parse(validManifest)).not.toThrow();
   });
 
   test("accepts minimal manifest (no optional fields)", () => {
@@ -48,27 +53,39 @@ describe("ManifestSchema", () => {
         publicKey: "ssh-ed25519 AAAA_test_key",
       },
     };
-    expect(() => ManifestSchema.parse(minimal)).not.toThrow();
+    expect(() => ManifestV1_0Schema.parse(minimal)).not.toThrow();
   });
 
   test("accepts AGPL-3.0 license", () => {
     const agpl = { ...validManifest, license: "AGPL-3.0" };
-    expect(() => ManifestSchema.parse(agpl)).not.toThrow();
+    expect(() => ManifestV1_0Schema.parse(agpl)).not.toThrow();
   });
 
   test("rejects missing hub", () => {
     const { hub, ...noHub } = validManifest;
-    expect(() => ManifestSchema.parse(noHub)).toThrow();
+    expect(() => ManifestV1_0Schema.parse(noHub)).toThrow();
   });
 
   test("rejects invalid hub format", () => {
     const bad = { ...validManifest, hub: "not-a-valid-hub" };
-    expect(() => ManifestSchema.parse(bad)).toThrow();
+    expect(() => ManifestV1_0Schema.parse(bad)).toThrow();
   });
 
   test("rejects invalid license", () => {
     const bad = { ...validManifest, license: "GPL-3.0" };
-    expect(() => ManifestSchema.parse(bad)).toThrow();
+    expect(() => ManifestV1_0Schema.parse(bad)).toThrow();
+  });
+
+  test("regex test results require patterns", () => {
+    const withResults = (results: object) => ({
+      ...validManifest,
+      status: { ...validManifest.status, results },
+    });
+    expect(() =>
+      ManifestV1_0Schema.parse(withResults({ format: "junit", path: "junit.xml" }))
+    ).not.toThrow();
+    expect(() => ManifestV1_0Schema.parse(withResults({ format: "regex" }))).toThrow();
+    expect(() => ManifestV1_0Schema.parse(withResults({ format: "xunit" }))).toThrow();
   });
 
   test("rejects non-Ed25519 key", () => {
@@ -76,7 +93,56 @@ describe("ManifestSchema", () => {
       ...validManifest,
       identity: { ...validManifest.identity, publicKey: "ssh-rsa AAAA..." },
     };
-    expect(() => ManifestSchema.parse(bad)).toThrow();
+    expect(() => ManifestV1_0Schema.parse(bad)).toThrow();
+  });
+});
+
+describe("ManifestSchema 1.1", () => {
+  const manifest = {
+    schemaVersion: "1.1",
+    name: "the-hive",
+    hubs: [
+      { hub: "mellanon/pai-collab", project: "the-hive" },
+      {
+        hub: "other/hive",
+        project: "hive-spoke",
+        overrides: { name: "Hive Spoke", license: "Apache-2.0" },
+      },
+    ],
+    maintainer: "mellanon",
+    license: "CC-BY-4.0",
+    identity: {
+      handle: "mellanon",
+      publicKey: "ssh-ed25519 AAAA_test_key",
+    },
+  };
+
+  test("accepts several hubs with overrides", () => {
+    expect(() => ManifestSchema.parse(manifest)).not.toThrow();
+  });
+
+  test("rejects an empty or duplicated hub list", () => {
+    expect(() => ManifestSchema.parse({ ...manifest, hubs: [] })).toThrow();
+    expect(() =>
+      ManifestSchema.parse({ ...manifest, hubs: [manifest.hubs[0], manifest.hubs[0]] })
+    ).toThrow("Each hub may appear only once");
+  });
+
+  test("rejects unknown overrides", () => {
+    const hubs = [{ ...manifest.hubs[0], overrides: { identity: {} } }];
+    expect(() => ManifestSchema.parse({ ...manifest, hubs })).toThrow();
+  });
+
+  test("resolves the per-hub view by project", () => {
+    const parsed = ManifestSchema.parse(manifest);
+    expect(hubView(parsed, hubTargetForProject(parsed, "hive-spoke"))).toEqual({
+      hub: "other/hive",
+      project: "hive-spoke",
+      name: "Hive Spoke",
+      maintainer: "mellanon",
+      license: "Apache-2.0",
+    });
+    expect(hubTargetForProject(parsed, "unknown").hub).toBe("mellanon/pai-collab");
   });
 });
 
@@ -114,6 +180,55 @@ describe("StatusSchema", () => {
     expect(() => StatusSchema.parse(bad)).toThrow();
   });
 
+  test("rejects unknown keys at every level", () => {
+    expect(() => StatusSchema.parse({ ...validStatus, notes: "x" })).toThrow();
+    expect(() =>
+      StatusSchema.parse({ ...validStatus, git: { ...validStatus.git, remote: "x" } })
+    ).toThrow();
+  });
+
+  test("accepts structured test results", () => {
+    const detailed = {
+      ...validStatus,
+      tests: {
+        passing: 8,
+        failing: 1,
+        skipped: 2,
+        durationMs: 1534,
+        exitCode: 1,
+        failures: ["parser > rejects bad input"],
+      },
+    };
+    expect(() => StatusSchema.parse(detailed)).not.toThrow();
+  });
+
+  test("accepts a health block and rejects unknown states", () => {
+    const health = {
+      state: "degraded",
+      exitCode: 0,
+      durationMs: 18000,
+      timedOut: false,
+      output: "ok (slow)",
+    };
+    expect(() => StatusSchema.parse({ ...validStatus, health })).not.toThrow();
+    expect(() =>
+      StatusSchema.parse({ ...validStatus, health: { ...health, state: "sick" } })
+    ).toThrow();
+  });
+
+  test("accepts detected reflexes", () => {
+    const withReflexes = {
+      ...validStatus,
+      reflexes: {
+        signing: true,
+        secretScanning: false,
+        sandboxEnforcer: false,
+        contentFilter: false,
+      },
+    };
+    expect(() => StatusSchema.parse(withReflexes)).not.toThrow();
+  });
+
   test("accepts all lifecycle phases", () => {
     const phases = [
       "specify",
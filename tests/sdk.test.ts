@@ -0,0 +1,92 @@
+import { expect, test, describe } from "bun:test";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import {
+  SCHEMA_KINDS,
+  SCHEMA_VERSIONS,
+  toJsonSchema,
+  validateYaml,
+} from "../src/sdk";
+
+const MANIFEST = `schemaVersion: "1.0"
+name: demo
+hub: org/hub
+project: demo
+maintainer: alice
+license: MIT
+identity:
+  handle: alice
+  publicKey: ssh-ed25519 AAAA_test_key
+`;
+
+// Every property in the exported schema, with its dotted path
+function properties(schema: Record<string, unknown>, path = ""): [string, Record<string, unknown>][] {
+  const props = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const items = schema.items as Record<string, unknown> | undefined;
+  return [
+    ...Object.entries(props).flatMap(([key, prop]) => [
+      [`${path}${key}`, prop] as [string, Record<string, unknown>],
+      ...properties(prop, `${path}${key}.`),
+    ]),
+    ...(items ? properties(items, `${path}[].`) : []),
+  ];
+}
+
+describe("sdk", () => {
+  test("validates YAML documents without throwing", () => {
+    const ok = validateYaml("manifest", MANIFEST);
+    expect(ok.ok).toBe(true);
+    if (ok.ok) expect(ok.data.security.reflexes.signing).toBe(false);
+
+    const bad = validateYaml("manifest", MANIFEST.replace("MIT", "GPL-3.0"));
+    expect(bad.ok).toBe(false);
+    if (!bad.ok) expect(bad.issues[0].path).toBe("license");
+
+    const broken = validateYaml("status", "tests: [unclosed");
+    expect(broken.ok).toBe(false);
+  });
+
+  test("exported JSON Schemas describe every field", () => {
+    for (const kind of SCHEMA_KINDS) {
+      for (const { version } of SCHEMA_VERSIONS[kind]) {
+        const schema = toJsonSchema(kind, version);
+        expect(schema.$id).toContain(`${kind}-${version}.schema.json`);
+        const undocumented = properties(schema)
+          .filter(([, prop]) => typeof prop.description !== "string")
+          .map(([path]) => path);
+        expect(undocumented).toEqual([]);
+      }
+    }
+  });
+
+  test("committed schemas/ files are up to date", () => {
+    for (const kind of SCHEMA_KINDS) {
+      for (const { version } of SCHEMA_VERSIONS[kind]) {
+        const file = join(import.meta.dir, "..", "schemas", `${kind}-${version}.schema.json`);
+        expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual(toJsonSchema(kind, version));
+      }
+    }
+  });
+
+  test("does not pull in the CLI or Bun runtime APIs", () => {
+    const transpiler = new Bun.Transpiler({ loader: "ts" });
+    const seen = new Set<string>();
+    const packages = new Set<string>();
+    const visit = (file: string) => {
+      if (seen.has(file)) return;
+      seen.add(file);
+      for (const { path } of transpiler.scanImports(readFileSync(file, "utf-8"))) {
+        if (path.startsWith(".")) {
+          const base = resolve(dirname(file), path);
+          visit(existsSync(`${base}.ts`) ? `${base}.ts` : join(base, "index.ts"));
+        } else {
+          packages.add(path);
+        }
+      }
+    };
+    visit(join(import.meta.dir, "..", "src", "sdk.ts"));
+    expect(packages.has("commander")).toBe(false);
+    expect([...packages].filter((p) => p === "bun" || p.startsWith("bun:"))).toEqual([]);
+    expect([...seen].some((f) => f.includes("/commands/"))).toBe(false);
+  });
+});
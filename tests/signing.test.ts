@@ -0,0 +1,138 @@
+import { expect, test, describe, beforeAll, afterAll } from "bun:test";
+import { $ } from "bun";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseAllowedSigners } from "../src/utils/allowed-signers";
+import { auditCommits } from "../src/utils/commit-audit";
+import { sshFingerprint } from "../src/keys/ssh-key";
+import {
+  checkStatusAttestation,
+  signData,
+  STATUS_SIGNATURE_NAMESPACE,
+} from "../src/utils/signing";
+
+describe("status attestation", () => {
+  let dir: string;
+  let keyPath: string;
+  let publicKey: string;
+  let otherPublicKey: string;
+  let signersPath: string;
+  const status = "schemaVersion: \"1.0\"\nphase: build\n";
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "hive-spoke-signing-"));
+    keyPath = join(dir, "id_ed25519");
+    await $`ssh-keygen -q -t ed25519 -N "" -C spoke -f ${keyPath}`.quiet();
+    await $`ssh-keygen -q -t ed25519 -N "" -C other -f ${join(dir, "other")}`.quiet();
+    publicKey = readFileSync(`${keyPath}.pub`, "utf-8").trim();
+    otherPublicKey = readFileSync(join(dir, "other.pub"), "utf-8").trim();
+    signersPath = join(dir, "allowed-signers");
+    writeFileSync(signersPath, `spoke@example.com ${publicKey}\n`);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("verifies a signature made by the registered manifest key", async () => {
+    const sig = await signData(status, keyPath, STATUS_SIGNATURE_NAMESPACE);
+    const state = await checkStatusAttestation(
+      status,
+      sig,
+      publicKey,
+      parseAllowedSigners(signersPath),
+      signersPath
+    );
+    expect(state).toBe("verified");
+  });
+
+  test("flags tampered status data as forged", async () => {
+    const sig = await signData(status, keyPath, STATUS_SIGNATURE_NAMESPACE);
+    const state = await checkStatusAttestation(
+      status.replace("build", "shipped"),
+      sig,
+      publicKey,
+      parseAllowedSigners(signersPath),
+      signersPath
+    );
+    expect(state).toBe("forged");
+  });
+
+  test("flags a signature from another namespace as forged", async () => {
+    const sig = await signData(status, keyPath, "git");
+    const state = await checkStatusAttestation(
+      status,
+      sig,
+      publicKey,
+      parseAllowedSigners(signersPath),
+      signersPath
+    );
+    expect(state).toBe("forged");
+  });
+
+  test("reports unsigned and unregistered spokes", async () => {
+    const signers = parseAllowedSigners(signersPath);
+    expect(
+      await checkStatusAttestation(status, null, publicKey, signers, signersPath)
+    ).toBe("unsigned");
+
+    const sig = await signData(status, join(dir, "other"), STATUS_SIGNATURE_NAMESPACE);
+    expect(
+      await checkStatusAttestation(status, sig, otherPublicKey, signers, signersPath)
+    ).toBe("unregistered");
+  });
+});
+
+describe("commit audit", () => {
+  let dir: string;
+  let repo: string;
+  let signersPath: string;
+  let fingerprint: string | null;
+
+  const git = (args: string) =>
+    $`git -c user.name=t -c user.email=t@example.com -c gpg.format=ssh ${{ raw: args }}`
+      .cwd(repo)
+      .quiet();
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "hive-spoke-audit-"));
+    repo = join(dir, "repo");
+    const key = join(dir, "spoke");
+    const stranger = join(dir, "stranger");
+    await $`ssh-keygen -q -t ed25519 -N "" -C spoke -f ${key}`.quiet();
+    await $`ssh-keygen -q -t ed25519 -N "" -C stranger -f ${stranger}`.quiet();
+    const publicKey = readFileSync(`${key}.pub`, "utf-8").trim();
+    fingerprint = sshFingerprint(publicKey);
+    signersPath = join(dir, "allowed-signers");
+    writeFileSync(signersPath, `spoke@example.com ${publicKey}\n`);
+
+    await $`git init --quiet -b main ${repo}`.quiet();
+    await git(`-c user.signingKey=${key} commit --quiet --allow-empty -S -m signed`);
+    await git(`commit --quiet --allow-empty --no-gpg-sign -m unsigned`);
+    await git(`-c user.signingKey=${stranger} commit --quiet --allow-empty -S -m stranger`);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("classifies recent commits by signer", async () => {
+    const audit = await auditCommits(repo, "main", 10, signersPath, fingerprint);
+    expect(audit.total).toBe(3);
+    expect(audit.signedByManifestKey).toBe(1);
+    expect(audit.unsigned).toBe(1);
+    expect(audit.unknownSigner).toBe(1);
+    expect(audit.commits.map((c) => c.state)).toEqual([
+      "unknown-signer",
+      "unsigned",
+      "manifest-key",
+    ]);
+  });
+
+  test("respects the audit depth", async () => {
+    const audit = await auditCommits(repo, "main", 1, signersPath, fingerprint);
+    expect(audit.total).toBe(1);
+    expect(audit.manifestKeyShare).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { $ } from "bun";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseSshPublicKey, sshFingerprint, tryParseSshPublicKey } from "../src/keys/ssh-key";
+import { getSigningConfig } from "../src/utils/git";
+
+let dir: string;
+let repo: string;
+let publicKey: string;
+const globalConfig = process.env.GIT_CONFIG_GLOBAL;
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), "ssh-key-"));
+  // Keep the developer's global user.signingKey out of the fallback test
+  process.env.GIT_CONFIG_GLOBAL = join(dir, "gitconfig");
+  repo = join(dir, "repo");
+  await $`ssh-keygen -q -t ed25519 -N "" -C alice@example.com -f ${join(dir, "id")}`.quiet();
+  await $`git init --quiet ${repo}`.quiet();
+  publicKey = readFileSync(join(dir, "id.pub"), "utf-8").trim();
+});
+
+afterAll(() => {
+  if (globalConfig === undefined) delete process.env.GIT_CONFIG_GLOBAL;
+  else process.env.GIT_CONFIG_GLOBAL = globalConfig;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ssh public keys", () => {
+  test("fingerprints match ssh-keygen", async () => {
+    const expected = (await $`ssh-keygen -l -f ${join(dir, "id.pub")}`.quiet().text()).split(" ")[1];
+    const key = parseSshPublicKey(publicKey);
+    expect(key.fingerprint).toBe(expected);
+    expect([key.type, key.comment]).toEqual(["ssh-ed25519", "alice@example.com"]);
+    expect(sshFingerprint(`key::${publicKey}`)).toBe(expected);
+  });
+
+  test("rejects malformed keys", () => {
+    const [type, blob] = publicKey.split(" ");
+    const truncated = Buffer.from(blob, "base64").subarray(0, 40).toString("base64");
+    expect(() => parseSshPublicKey(`${type} ${truncated}`)).toThrow(/truncated/);
+    expect(() => parseSshPublicKey(`ssh-rsa ${blob}`)).toThrow(/not a ssh-rsa key/);
+    expect(tryParseSshPublicKey("ssh-ed25519 <your-public-key-here>")).toBeNull();
+  });
+});
+
+describe("getSigningConfig", () => {
+  const config = (key: string, value: string) => $`git config ${key} ${value}`.cwd(repo).quiet();
+  const unset = (key: string) => $`git config --unset ${key}`.cwd(repo).quiet().nothrow();
+
+  test("reads the .pub next to a private key path", async () => {
+    await config("user.signingKey", join(dir, "id"));
+    const signing = await getSigningConfig(repo);
+    expect(signing.source).toBe("file");
+    expect(signing.keyPath).toBe(join(dir, "id"));
+    expect(signing.publicKey).toBe(publicKey);
+    expect(signing.fingerprint).toBe(sshFingerprint(publicKey));
+  });
+
+  test("accepts key:: literals as agent-held keys", async () => {
+    await config("user.signingKey", `key::${publicKey}`);
+    const signing = await getSigningConfig(repo);
+    expect(signing.source).toBe("literal");
+    expect(signing.keyPath).toBe(`key::${publicKey}`);
+    expect(signing.fingerprint).toBe(sshFingerprint(publicKey));
+  });
+
+  test("falls back to gpg.ssh.defaultKeyCommand", async () => {
+    await unset("user.signingKey");
+    await config("gpg.ssh.defaultKeyCommand", `cat ${join(dir, "id.pub")}`);
+    const signing = await getSigningConfig(repo);
+    expect([signing.signingKey, signing.source, signing.publicKey]).toEqual([null, "agent", publicKey]);
+    await unset("gpg.ssh.defaultKeyCommand");
+  });
+});
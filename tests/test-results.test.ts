@@ -0,0 +1,116 @@
+import { expect, test, describe, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseJsonReport,
+  parseJunit,
+  parseTap,
+  parseRegex,
+  runTests,
+} from "../src/test-results";
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="4" failures="1">
+  <testsuite name="math" tests="4">
+    <testcase name="adds" classname="math" time="0.001"/>
+    <testcase name="divides &amp; rounds" classname="math">
+      <failure message="expected 2">stack</failure>
+    </testcase>
+    <testcase name="throws" classname="math"><error message="boom"/></testcase>
+    <testcase name="later" classname="math"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+describe("test result parsers", () => {
+  test("junit counts testcases and names failures", () => {
+    expect(parseJunit(JUNIT)).toEqual({
+      passing: 1,
+      failing: 2,
+      skipped: 1,
+      failures: ["math > divides & rounds", "math > throws"],
+    });
+  });
+
+  test("tap counts top-level points and directives", () => {
+    const tap = [
+      "TAP version 13",
+      "ok 1 - parses",
+      "not ok 2 - rejects bad input",
+      "ok 3 - network # SKIP offline",
+      "not ok 4 - future # TODO not built",
+      "    not ok 1 - nested subtest",
+      "1..4",
+    ].join("\n");
+    expect(parseTap(tap)).toEqual({
+      passing: 1,
+      failing: 1,
+      skipped: 2,
+      failures: ["rejects bad input"],
+    });
+  });
+
+  test("json reads jest/vitest reports", () => {
+    const report = JSON.stringify({
+      numPassedTests: 3,
+      numFailedTests: 1,
+      numPendingTests: 1,
+      numTodoTests: 0,
+      testResults: [
+        {
+          assertionResults: [
+            { status: "passed", title: "ok" },
+            { status: "failed", title: "breaks", ancestorTitles: ["parser"] },
+          ],
+        },
+      ],
+    });
+    expect(parseJsonReport(`some banner\n${report}`)).toEqual({
+      passing: 3,
+      failing: 1,
+      skipped: 1,
+      failures: ["parser > breaks"],
+    });
+    expect(() => parseJsonReport("{}")).toThrow();
+  });
+
+  test("regex uses the first capture group", () => {
+    const counts = parseRegex("Ran: 12 ok, 3 ko", {
+      passing: "(\\d+) ok",
+      failing: "(\\d+) ko",
+    });
+    expect(counts).toMatchObject({ passing: 12, failing: 3, skipped: 0 });
+  });
+});
+
+describe("runTests", () => {
+  const dir = mkdtempSync(join(tmpdir(), "hive-spoke-tests-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads a fresh report file and records the exit code", async () => {
+    const xml = JUNIT.replace(/\n/g, " ").replace(/"/g, '\\"');
+    const run = await runTests(
+      `printf "%s" "${xml}" > report.xml; exit 1`,
+      { format: "junit", path: "report.xml" },
+      dir
+    );
+    expect(run.exitCode).toBe(1);
+    expect(run.failing).toBe(2);
+    expect(run.failures).toHaveLength(2);
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+    expect(run.warning).toBeUndefined();
+  });
+
+  test("falls back to summary lines when the report is missing", async () => {
+    const run = await runTests(
+      `echo "5 pass"; echo "1 fail" >&2`,
+      { format: "junit", path: "missing.xml" },
+      dir
+    );
+    expect(run.warning).toContain("missing.xml");
+    expect(run).toMatchObject({ passing: 5, failing: 1, exitCode: 0 });
+  });
+});
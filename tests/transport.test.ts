@@ -0,0 +1,183 @@
+import { expect, test, describe, beforeAll, afterAll } from "bun:test";
+import { $ } from "bun";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createHubTransport,
+  createSpokeSource,
+  detectTransportKind,
+} from "../src/transport";
+import {
+  isRateLimited,
+  parseApiResponse,
+  retryAfterMs,
+} from "../src/transport/github";
+
+const gitEnv = {
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+describe("detectTransportKind", () => {
+  test("org/repo is github", () => {
+    expect(detectTransportKind("mellanon/pai-collab")).toBe("github");
+  });
+
+  test("URLs and .git paths are git", () => {
+    expect(detectTransportKind("file:///srv/hub.git")).toBe("git");
+    expect(detectTransportKind("https://example.com/hub.git")).toBe("git");
+    expect(detectTransportKind("git@github.com:org/repo.git")).toBe("git");
+    expect(detectTransportKind("/srv/mirrors/hub.git")).toBe("git");
+  });
+
+  test("filesystem paths are local", () => {
+    expect(detectTransportKind("./spokes/alpha")).toBe("local");
+    expect(detectTransportKind("/srv/spokes/alpha")).toBe("local");
+  });
+
+  test("rejects ambiguous locations", () => {
+    expect(() => detectTransportKind("just-a-name")).toThrow();
+  });
+});
+
+describe("spoke → hub cycle without GitHub", () => {
+  let root: string;
+  let spokeDir: string;
+  let hubBare: string;
+
+  beforeAll(async () => {
+    root = mkdtempSync(join(tmpdir(), "hive-spoke-transport-"));
+    spokeDir = join(root, "spoke");
+    hubBare = join(root, "hub.git");
+
+    mkdirSync(join(spokeDir, ".collab"), { recursive: true });
+    writeFileSync(join(spokeDir, ".collab", "manifest.yaml"), "name: alpha\n");
+    await $`git init --quiet -b main && git add -A && git commit --quiet --no-gpg-sign -m init`
+      .cwd(spokeDir)
+      .env({ ...process.env, ...gitEnv })
+      .quiet();
+
+    const seed = join(root, "hub-seed");
+    mkdirSync(seed);
+    writeFileSync(join(seed, "README.md"), "hub\n");
+    await $`git init --quiet -b main && git add -A && git commit --quiet --no-gpg-sign -m init`
+      .cwd(seed)
+      .env({ ...process.env, ...gitEnv })
+      .quiet();
+    await $`git clone --quiet --bare ${seed} ${hubBare}`.quiet();
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("git source reads committed files over file://", async () => {
+    const source = createSpokeSource(`file://${spokeDir}`);
+    try {
+      expect(source.kind).toBe("git");
+      expect(await source.fetchFile(".collab/manifest.yaml", "main")).toBe(
+        "name: alpha\n"
+      );
+      expect(await source.fetchFile(".collab/status.yaml", "main")).toBeNull();
+      expect(await source.fetchFile(".collab/manifest.yaml", "nope")).toBeNull();
+      expect(await source.fetchFile(".collab/manifest.yaml")).toBe("name: alpha\n");
+    } finally {
+      await source.dispose();
+    }
+  });
+
+  test("git source throws when the repo cannot be read", async () => {
+    const source = createSpokeSource(`file://${join(root, "missing.git")}`);
+    try {
+      await expect(source.fetchFile(".collab/manifest.yaml", "main")).rejects.toThrow(
+        /Failed to fetch/
+      );
+      expect(await source.history("main", 1)).toBeNull();
+    } finally {
+      await source.dispose();
+    }
+  });
+
+  test("local source reads the working tree", async () => {
+    const source = createSpokeSource(spokeDir);
+    expect(source.kind).toBe("local");
+    expect(await source.fetchFile(".collab/manifest.yaml", "main")).toBe(
+      "name: alpha\n"
+    );
+    await expect(createSpokeSource(join(root, "gone"), "local").fetchFile("x")).rejects.toThrow(
+      /not found/
+    );
+  });
+
+  test("git transport pushes a publish branch", async () => {
+    const transport = createHubTransport(`file://${hubBare}`);
+    const checkout = await transport.checkout("spoke/alpha/status-update");
+    try {
+      expect(checkout.branchExisted).toBe(false);
+      mkdirSync(join(checkout.dir, "projects", "alpha"), { recursive: true });
+      writeFileSync(join(checkout.dir, "projects", "alpha", "x.yaml"), "a: 1\n");
+      await $`git config commit.gpgSign false && git config user.name test && git config user.email test@example.com`
+        .cwd(checkout.dir)
+        .quiet();
+      await checkout.commit(["projects/alpha"], "spoke: alpha");
+      const submitted = await checkout.submit({ title: "t", body: "b" });
+      expect(submitted).toEqual({
+        outcome: "pushed",
+        ref: "spoke/alpha/status-update",
+      });
+    } finally {
+      await checkout.dispose();
+    }
+
+    const published = createSpokeSource(`file://${hubBare}`);
+    try {
+      expect(
+        await published.fetchFile("projects/alpha/x.yaml", "spoke/alpha/status-update")
+      ).toBe("a: 1\n");
+    } finally {
+      await published.dispose();
+    }
+  });
+
+  test("local transport writes into the hub directory", async () => {
+    const hubDir = join(root, "hub-dir");
+    mkdirSync(hubDir);
+    const checkout = await createHubTransport(hubDir).checkout("ignored");
+    expect(checkout.dir).toBe(hubDir);
+    writeFileSync(join(checkout.dir, "x.yaml"), "a: 1\n");
+    const submitted = await checkout.submit({ title: "t", body: "b" });
+    expect(submitted.outcome).toBe("written");
+    expect(readFileSync(join(hubDir, "x.yaml"), "utf-8")).toBe("a: 1\n");
+    await checkout.dispose();
+    expect(existsSync(hubDir)).toBe(true);
+  });
+});
+
+describe("GitHub API responses", () => {
+  test("parses status, headers and body from gh api -i", () => {
+    const res = parseApiResponse(
+      'HTTP/2.0 200 OK\r\nEtag: W/"abc"\r\nX-Ratelimit-Remaining: 4999\r\n\r\n{"content":"aGk="}'
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("etag")).toBe('W/"abc"');
+    expect(res.body).toBe('{"content":"aGk="}');
+    expect(parseApiResponse("").status).toBe(0);
+  });
+
+  test("detects rate limiting and honours reset hints", () => {
+    const limited = parseApiResponse(
+      "HTTP/2.0 403 Forbidden\nX-Ratelimit-Remaining: 0\nX-Ratelimit-Reset: 1010\n\n{}"
+    );
+    expect(isRateLimited(limited)).toBe(true);
+    expect(retryAfterMs(limited, 1_000_000)).toBe(10_000);
+
+    const secondary = parseApiResponse("HTTP/2.0 429 Too Many Requests\nRetry-After: 3\n\n");
+    expect(retryAfterMs(secondary)).toBe(3000);
+
+    const notFound = parseApiResponse("HTTP/2.0 404 Not Found\n\n{}");
+    expect(isRateLimited(notFound)).toBe(false);
+  });
+});